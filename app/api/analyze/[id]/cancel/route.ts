@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollection } from '@/lib/mongodb';
+import { cancelAnalysisJob } from '@/lib/jobs/queue';
+import { abortActiveJob } from '@/lib/jobs/worker';
+import { AnalysisStatus, Podcast } from '@/lib/types';
+import { canModifyPodcast, canViewPodcast, requireUser } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+const FINISHED_STATUSES: string[] = [
+  AnalysisStatus.COMPLETED,
+  AnalysisStatus.FAILED,
+  AnalysisStatus.CANCELLED,
+];
+
+// Stop a running investigation
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const { id } = await params;
+    const collection = await getCollection('podcasts');
+    const podcast = await collection.findOne<Podcast>({ id });
+
+    if (!podcast || !canViewPodcast(user, podcast, request.cookies)) {
+      return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
+    }
+    if (!canModifyPodcast(user, podcast)) {
+      return NextResponse.json({ error: 'Only the owner can change this case' }, { status: 403 });
+    }
+
+    if (FINISHED_STATUSES.includes(podcast.status)) {
+      return NextResponse.json(
+        { error: `Investigation is already ${podcast.status}` },
+        { status: 409 }
+      );
+    }
+
+    // Only if it hasn't finished since it was read: a completed script is never thrown away
+    const cancelled = await collection.updateOne(
+      { id, status: { $nin: FINISHED_STATUSES } },
+      {
+        $set: {
+          status: AnalysisStatus.CANCELLED,
+          progress_message: '🛑 Investigation called off.',
+          cancelled_at: new Date(),
+        },
+      }
+    );
+    if (cancelled.matchedCount === 0) {
+      return NextResponse.json({ error: 'Investigation has already finished' }, { status: 409 });
+    }
+
+    await cancelAnalysisJob(id);
+    const aborted = abortActiveJob(id);
+    console.log(`[Cancel] Investigation ${id} cancelled${aborted ? ' (aborted in-flight work)' : ''}`);
+
+    return NextResponse.json({
+      id,
+      status: AnalysisStatus.CANCELLED,
+      message: 'Analysis cancelled',
+    });
+  } catch (error) {
+    console.error('Error cancelling analysis:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { waitUntil } from '@vercel/functions';
+import { getCollection } from '@/lib/mongodb';
+import { JOB_CONFIG, requeueAnalysisJob } from '@/lib/jobs/queue';
+import { AnalysisRequestError, assertAnalysisSlot } from '@/lib/jobs/start-analysis';
+import { runWorker } from '@/lib/jobs/worker';
+import { AnalysisStatus, Podcast } from '@/lib/types';
+import { canModifyPodcast, canViewPodcast, requireUser } from '@/lib/auth';
+import { checkQuota } from '@/lib/usage';
+import { enforceRateLimit } from '@/lib/rate-limit';
+
+export const runtime = 'nodejs';
+
+// Hobby: max 60s, Pro: max 300s (5 minutes)
+export const maxDuration = 300;
+
+const RETRYABLE_STATUSES: string[] = [AnalysisStatus.FAILED, AnalysisStatus.CANCELLED];
+
+// Rerun a failed or cancelled investigation. Steps that already completed
+// (repository metadata, fetched files, ...) are restored from their checkpoints.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const limited = await enforceRateLimit('analyze', { userId: user.id, request });
+    if (limited) {
+      return limited;
+    }
+
+    const { id } = await params;
+    const collection = await getCollection('podcasts');
+    const podcast = await collection.findOne<Podcast>({ id });
+
+    if (!podcast || !canViewPodcast(user, podcast, request.cookies)) {
+      return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
+    }
+    if (!canModifyPodcast(user, podcast)) {
+      return NextResponse.json({ error: 'Only the owner can change this case' }, { status: 403 });
+    }
+
+    if (!RETRYABLE_STATUSES.includes(podcast.status)) {
+      return NextResponse.json(
+        { error: `Only failed or cancelled investigations can be retried (status: ${podcast.status})` },
+        { status: 409 }
+      );
+    }
+
+    // A retry counts against the user's concurrent investigations like a new one
+    await assertAnalysisSlot(user.id);
+
+    // Nothing new starts once the user's token quota is spent
+    const quota = await checkQuota(user.id, 'llm_tokens');
+    if (!quota.allowed) {
+      return NextResponse.json({ error: quota.message, remaining: quota.remaining }, { status: 429 });
+    }
+
+    await collection.updateOne(
+      { id },
+      {
+        $set: {
+          status: AnalysisStatus.RETRYING,
+          progress_message: '🔁 Reopening the case file...',
+        },
+        $unset: { error_message: '', cancelled_at: '' },
+      }
+    );
+
+    await requeueAnalysisJob(id);
+    console.log(`[Retry] Requeued investigation ${id}`);
+
+    const start = Date.now();
+    waitUntil(
+      runWorker({ deadline: start + JOB_CONFIG.CLAIM_BUDGET_MS, jobDeadline: start + JOB_CONFIG.RUN_BUDGET_MS })
+        .then((processed) => console.log(`[Retry] Worker processed ${processed} job(s)`))
+        .catch((err) => console.error(`[Retry] ❌ Worker run failed:`, err))
+    );
+
+    return NextResponse.json({
+      id,
+      status: AnalysisStatus.RETRYING,
+      message: 'Analysis restarted',
+    });
+  } catch (error) {
+    if (error instanceof AnalysisRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error retrying analysis:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
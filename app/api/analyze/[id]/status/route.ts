@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCollection } from '@/lib/mongodb';
+import { canViewPodcastFrom } from '@/lib/auth';
+import { toAnalysisProgress } from '@/lib/podcast-events';
+import { Podcast } from '@/lib/types';
 
 export const runtime = 'nodejs';
 
@@ -10,18 +13,13 @@ export async function GET(
   try {
     const { id } = await params;
     const collection = await getCollection('podcasts');
-    const podcast = await collection.findOne({ id });
+    const podcast = await collection.findOne<Podcast>({ id }, { projection: { audio_data: 0 } });
 
-    if (!podcast) {
+    if (!podcast || !(await canViewPodcastFrom(request.cookies, podcast))) {
       return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
     }
 
-    return NextResponse.json({
-      id: podcast.id,
-      status: podcast.status,
-      progress: podcast.progress,
-      message: podcast.progress_message,
-    });
+    return NextResponse.json(toAnalysisProgress(podcast));
   } catch (error) {
     console.error('Error fetching podcast status:', error);
     const errorMessage = error instanceof Error ? error.message : 'Internal server error';
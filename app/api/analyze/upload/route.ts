@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { AnalysisRequestError, startAnalysis } from '@/lib/jobs/start-analysis';
+import { enforceRateLimit } from '@/lib/rate-limit';
+import { MAX_UPLOAD_BYTES, deleteSourceArchive, detectArchiveFormat, saveSourceArchive } from '@/lib/sources/upload';
+import type { RepoAnalyzeRequest } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+// Form fields passed on to the analysis, as in the JSON body of /api/analyze
+const ANALYSIS_FIELDS = ['narrative_style', 'path', 'llm_provider', 'visibility'] as const;
+
+/**
+ * Investigate a .zip or .tar.gz of a repository, posted as multipart/form-data
+ * with the archive in "file"
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const limited = await enforceRateLimit('analyze', { userId: user.id, request });
+    if (limited) {
+      return limited;
+    }
+
+    // Refuse obvious oversize uploads before reading them
+    const declaredLength = Number(request.headers.get('content-length') || 0);
+    if (declaredLength > MAX_UPLOAD_BYTES + 64 * 1024) {
+      return NextResponse.json(
+        { error: `Archive too large (max: ${MAX_UPLOAD_BYTES / 1024 / 1024}MB)` },
+        { status: 413 }
+      );
+    }
+
+    const form = await request.formData().catch(() => null);
+    const file = form?.get('file');
+    if (!form || !(file instanceof File)) {
+      return NextResponse.json({ error: 'Send the archive as multipart/form-data in a "file" field' }, { status: 400 });
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `Archive too large (max: ${MAX_UPLOAD_BYTES / 1024 / 1024}MB)` },
+        { status: 413 }
+      );
+    }
+
+    const data = Buffer.from(await file.arrayBuffer());
+    const format = detectArchiveFormat(file.name, data);
+    if (!format) {
+      return NextResponse.json({ error: 'Only .zip, .tar.gz and .tgz archives are supported' }, { status: 400 });
+    }
+
+    const fields: RepoAnalyzeRequest = {};
+    for (const field of ANALYSIS_FIELDS) {
+      const value = form.get(field);
+      if (typeof value === 'string' && value) {
+        Object.assign(fields, { [field]: value });
+      }
+    }
+
+    const archive = await saveSourceArchive(user.id, file.name, format, data);
+    // An unknown style, a full concurrency slot or a spent quota leaves nothing to keep the archive for
+    const started = await startAnalysis(user, fields, archive).catch(async (error: unknown) => {
+      await deleteSourceArchive(archive.id).catch((deleteError) =>
+        console.error(`[Sources] Failed to delete unused archive ${archive.id}:`, deleteError)
+      );
+      throw error;
+    });
+
+    return NextResponse.json({
+      id: started.id,
+      status: started.status,
+      message: 'Analysis started',
+    });
+  } catch (error: unknown) {
+    if (error instanceof AnalysisRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error in analyze upload endpoint:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteApiKey, requireUser } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+// Revoke a key; requests using it fail from now on
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const { id } = await params;
+    if (!(await deleteApiKey(user.id, id))) {
+      return NextResponse.json({ error: 'API key not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error deleting API key:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_KEY_SCOPES, createApiKey, isApiKeyScope, listApiKeys, requireUser } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+const MAX_NAME_LENGTH = 100;
+
+// The signed-in user's API keys (never the keys themselves)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    return NextResponse.json({ keys: await listApiKeys(user.id) });
+  } catch (error: unknown) {
+    console.error('Error listing API keys:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a key for /api/v1. It is shown once, in this response.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const { name, scopes } = await request.json();
+
+    if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `name is required (at most ${MAX_NAME_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+      return NextResponse.json(
+        { error: `scopes must be a non-empty list of ${API_KEY_SCOPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const { key, apiKey } = await createApiKey(user.id, name.trim(), scopes);
+    return NextResponse.json({ key, api_key: apiKey }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Error creating API key:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GitHubAccountTakenError, connectGitHubAccount, getSessionUser, signIn, upsertGitHubUser } from '@/lib/auth';
+import { OAUTH_STATE_COOKIE, exchangeGitHubCode, getGitHubRedirectUri } from '@/lib/auth/github-oauth';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const code = searchParams.get('code');
+  const state = searchParams.get('state');
+
+  // The state cookie proves this callback answers a sign-in we started
+  const [mode, expectedState] = (request.cookies.get(OAUTH_STATE_COOKIE)?.value || '').split('.');
+  if (!code || !state || !expectedState || state !== expectedState) {
+    return NextResponse.redirect(new URL('/login?error=github_state', request.url));
+  }
+
+  try {
+    const { profile, accessToken, scopes } = await exchangeGitHubCode(code, getGitHubRedirectUri(request));
+
+    if (mode === 'connect') {
+      const user = await getSessionUser(request.cookies);
+      if (!user) {
+        return NextResponse.redirect(new URL('/login?error=github_state', request.url));
+      }
+
+      await connectGitHubAccount(user.id, profile, accessToken, scopes);
+      console.log(`[Auth] Connected GitHub ${profile.login} to user ${user.id} (scopes: ${scopes.join(', ')})`);
+
+      const response = NextResponse.redirect(new URL('/', request.url));
+      response.cookies.delete(OAUTH_STATE_COOKIE);
+      return response;
+    }
+
+    const user = await upsertGitHubUser(profile);
+    console.log(`[Auth] GitHub sign-in for ${profile.login} (ID: ${user.id})`);
+
+    const response = NextResponse.redirect(new URL('/', request.url));
+    response.cookies.delete(OAUTH_STATE_COOKIE);
+    return signIn(response, user);
+  } catch (error: unknown) {
+    console.error('[Auth] GitHub sign-in failed:', error);
+    const reason = error instanceof GitHubAccountTakenError ? 'github_taken' : 'github_failed';
+    return NextResponse.redirect(new URL(`/login?error=${reason}`, request.url));
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { disconnectGitHubToken, getSessionUser, requireUser } from '@/lib/auth';
+import { GITHUB_CONNECT_SCOPE, isGitHubOAuthConfigured, redirectToGitHub } from '@/lib/auth/github-oauth';
+import { isSecretStorageConfigured } from '@/lib/auth/secrets';
+
+export const runtime = 'nodejs';
+
+// Connect GitHub with access to private repositories
+export async function GET(request: NextRequest) {
+  if (!isGitHubOAuthConfigured() || !isSecretStorageConfigured()) {
+    return NextResponse.redirect(new URL('/login?error=github_unavailable', request.url));
+  }
+
+  const user = await getSessionUser(request.cookies);
+  if (!user) {
+    return NextResponse.redirect(new URL('/login?next=/api/auth/github/connect', request.url));
+  }
+
+  return redirectToGitHub(request, 'connect', GITHUB_CONNECT_SCOPE);
+}
+
+// Forget the stored token; private cases stay, but can't be investigated again
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    await disconnectGitHubToken(user.id);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error disconnecting GitHub:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isGitHubOAuthConfigured, redirectToGitHub } from '@/lib/auth/github-oauth';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  if (!isGitHubOAuthConfigured()) {
+    return NextResponse.redirect(new URL('/login?error=github_unavailable', request.url));
+  }
+  return redirectToGitHub(request, 'signin');
+}
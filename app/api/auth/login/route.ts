@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateWithPassword, signIn, toPublicUser } from '@/lib/auth';
+import { enforceRateLimit } from '@/lib/rate-limit';
+
+export const runtime = 'nodejs';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Per address, before anyone is signed in
+    const limited = await enforceRateLimit('login', { request });
+    if (limited) {
+      return limited;
+    }
+
+    const { email, password } = await request.json();
+
+    if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+      return NextResponse.json({ error: 'email and password are required' }, { status: 400 });
+    }
+
+    const user = await authenticateWithPassword(email, password);
+    if (!user) {
+      return NextResponse.json({ error: 'Wrong email or password' }, { status: 401 });
+    }
+
+    return signIn(NextResponse.json({ user: toPublicUser(user) }), user);
+  } catch (error: unknown) {
+    console.error('Error signing in:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
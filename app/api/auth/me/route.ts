@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUser, toPublicUser } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getSessionUser(request.cookies);
+    return NextResponse.json({ user: user ? toPublicUser(user) : null });
+  } catch (error: unknown) {
+    console.error('Error fetching current user:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { EmailTakenError, MIN_PASSWORD_LENGTH, createPasswordUser, signIn, toPublicUser } from '@/lib/auth';
+import { enforceRateLimit } from '@/lib/rate-limit';
+
+export const runtime = 'nodejs';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export async function POST(request: NextRequest) {
+  try {
+    // Per address, before anyone is signed in
+    const limited = await enforceRateLimit('register', { request });
+    if (limited) {
+      return limited;
+    }
+
+    const { email, password, name } = await request.json();
+
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    if (name !== undefined && typeof name !== 'string') {
+      return NextResponse.json({ error: 'name must be a string' }, { status: 400 });
+    }
+
+    const user = await createPasswordUser(email, password, name);
+    console.log(`[Auth] Registered ${user.email} (ID: ${user.id})`);
+
+    return signIn(NextResponse.json({ user: toPublicUser(user) }, { status: 201 }), user);
+  } catch (error: unknown) {
+    if (error instanceof EmailTakenError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Error registering user:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
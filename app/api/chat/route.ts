@@ -1,14 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { getCollection } from '@/lib/mongodb';
+import { canViewPodcast, requireUser } from '@/lib/auth';
+import { getLlmProvider } from '@/lib/llm';
+import { checkQuota, meterLlmProvider } from '@/lib/usage';
+import { enforceRateLimit } from '@/lib/rate-limit';
 import { Podcast } from '@/lib/types';
 
 export const runtime = 'nodejs';
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-
 export async function POST(request: NextRequest) {
   try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const limited = await enforceRateLimit('chat', { userId: user.id, request });
+    if (limited) {
+      return limited;
+    }
+
     const { podcastId, message } = await request.json();
 
     if (!podcastId || !message) {
@@ -18,7 +29,7 @@ export async function POST(request: NextRequest) {
     const collection = await getCollection('podcasts');
     const podcast = await collection.findOne<Podcast>({ id: podcastId });
 
-    if (!podcast) {
+    if (!podcast || !canViewPodcast(user, podcast, request.cookies)) {
       return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
     }
 
@@ -36,14 +47,16 @@ export async function POST(request: NextRequest) {
       Keep the tone professional but slightly noir/detective-like. keep responses concise and to the point. and make sure to response in short under 50 to 60 words.
     `;
 
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
-    const result = await model.generateContent([
-      context,
-      `User Question: ${message}`
-    ]);
+    const quota = await checkQuota(user.id, 'llm_tokens');
+    if (!quota.allowed) {
+      return NextResponse.json({ error: quota.message, remaining: quota.remaining }, { status: 429 });
+    }
 
-    const response = result.response;
-    const text = response.text();
+    // Answer with the same provider that wrote the episode, billed to whoever asks
+    const provider = meterLlmProvider(getLlmProvider(podcast.llm_provider), { podcastId, userId: user.id });
+    const text = await provider.generateText(`${context}\n\nUser Question: ${message}`, {
+      task: { kind: 'chat', podcast, message },
+    });
 
     return NextResponse.json({ reply: text });
   } catch (error: any) {
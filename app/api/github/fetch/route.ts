@@ -12,7 +12,7 @@ export const runtime = 'nodejs';
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { owner, repo, branch } = body;
+    const { owner, repo, branch, path } = body;
 
     if (!owner || !repo) {
       return NextResponse.json(
@@ -26,7 +26,7 @@ export async function POST(request: NextRequest) {
     // Fetch repository metadata and structure
     const [repoInfo, structure] = await Promise.all([
       client.getRepository(owner, repo),
-      client.getRepoStructure(owner, repo, branch),
+      client.getRepoStructure(owner, repo, branch, { path }),
     ]);
 
     return NextResponse.json({
@@ -83,6 +83,7 @@ export async function GET(request: NextRequest) {
   const owner = searchParams.get('owner');
   const repo = searchParams.get('repo');
   const branch = searchParams.get('branch') || undefined;
+  const path = searchParams.get('path') || undefined;
 
   if (!owner || !repo) {
     return NextResponse.json(
@@ -97,7 +98,7 @@ export async function GET(request: NextRequest) {
     // Fetch repository metadata and structure
     const [repoInfo, structure] = await Promise.all([
       client.getRepository(owner, repo),
-      client.getRepoStructure(owner, repo, branch),
+      client.getRepoStructure(owner, repo, branch, { path }),
     ]);
 
     return NextResponse.json({
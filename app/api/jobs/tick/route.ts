@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { JOB_CONFIG } from '@/lib/jobs/queue';
+import { runWorker } from '@/lib/jobs/worker';
+
+export const runtime = 'nodejs';
+
+// Pro: max 300s (5 minutes). The every-minute cron in vercel.json needs Pro too; Hobby only runs daily crons.
+export const maxDuration = 300;
+
+// Called by the Vercel cron to resume queued and orphaned investigations
+export async function GET(request: NextRequest) {
+  // Without a secret there's no telling the cron from anyone else
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.warn('[Worker] CRON_SECRET is not set, refusing /api/jobs/tick');
+    return NextResponse.json({ error: 'Job tick is not configured' }, { status: 503 });
+  }
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const start = Date.now();
+    const processed = await runWorker({
+      deadline: start + JOB_CONFIG.CLAIM_BUDGET_MS,
+      jobDeadline: start + JOB_CONFIG.RUN_BUDGET_MS,
+    });
+    return NextResponse.json({ processed });
+  } catch (error) {
+    console.error('Error running job worker:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
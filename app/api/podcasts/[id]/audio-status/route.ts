@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCollection } from '@/lib/mongodb';
+import { canViewPodcastFrom } from '@/lib/auth';
+import { toAudioProgress } from '@/lib/podcast-events';
+import { Podcast } from '@/lib/types';
 
 export const runtime = 'nodejs';
 
@@ -14,20 +17,13 @@ export async function GET(
   try {
     const { id } = await params;
     const collection = await getCollection('podcasts');
-    const podcast = await collection.findOne({ id });
+    const podcast = await collection.findOne<Podcast>({ id }, { projection: { audio_data: 0 } });
 
-    if (!podcast) {
+    if (!podcast || !(await canViewPodcastFrom(request.cookies, podcast))) {
       return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
     }
 
-    return NextResponse.json({
-      status: podcast.audio_status || 'pending',
-      progress: podcast.audio_progress || 0,
-      message: podcast.audio_message || 'Waiting to start...',
-      currentSegment: podcast.audio_current_segment,
-      totalSegments: podcast.audio_total_segments,
-      audioUrl: podcast.audio_url,
-    });
+    return NextResponse.json(toAudioProgress(podcast));
   } catch (error: any) {
     console.error('Error fetching audio status:', error);
     return NextResponse.json(
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCollection } from '@/lib/mongodb';
+import { canViewPodcastFrom } from '@/lib/auth';
+import { audioFileResponse } from '@/lib/audio';
+import { Podcast } from '@/lib/types';
 
 export const runtime = 'nodejs';
 
@@ -11,9 +14,9 @@ export async function GET(
   try {
     const { id } = await params;
     const collection = await getCollection('podcasts');
-    const podcast = await collection.findOne({ id });
+    const podcast = await collection.findOne<Podcast & { audio_data?: string }>({ id });
 
-    if (!podcast) {
+    if (!podcast || !(await canViewPodcastFrom(request.cookies, podcast))) {
       return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
     }
 
@@ -24,20 +27,7 @@ export async function GET(
       );
     }
 
-    // Convert base64 back to buffer
-    const audioBuffer = Buffer.from(podcast.audio_data, 'base64');
-
-    // Return audio with proper headers
-    return new NextResponse(audioBuffer, {
-      status: 200,
-      headers: {
-        'Content-Type': 'audio/mpeg',
-        'Content-Length': audioBuffer.length.toString(),
-        'Accept-Ranges': 'bytes',
-        'Cache-Control': 'public, max-age=31536000', // Cache for 1 year
-        'Content-Disposition': `inline; filename="${podcast.repo_name || 'podcast'}.mp3"`,
-      },
-    });
+    return audioFileResponse(podcast, podcast.audio_data);
   } catch (error: unknown) {
     const errorMessage = error instanceof Error ? error.message : 'Internal server error';
     console.error('Error serving audio:', error);
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollection } from '@/lib/mongodb';
+import { VISIBILITY_PROJECTION, canViewPodcastFrom } from '@/lib/auth';
+import { streamPodcastEvents } from '@/lib/podcast-events';
+import { Podcast } from '@/lib/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Hobby: max 60s, Pro: max 300s (5 minutes). EventSource reconnects on its own
+// when the function is recycled.
+export const maxDuration = 300;
+
+// Server-Sent Events stream of analysis and audio progress
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const collection = await getCollection('podcasts');
+    const podcast = await collection.findOne<Podcast>({ id }, { projection: VISIBILITY_PROJECTION });
+    if (podcast && !(await canViewPodcastFrom(request.cookies, podcast))) {
+      return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
+    }
+
+    const stream = await streamPodcastEvents(id, request.signal);
+
+    if (!stream) {
+      return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
+    }
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('Error opening podcast event stream:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json(
+      { error: errorMessage },
+      { status: 500 }
+    );
+  }
+}
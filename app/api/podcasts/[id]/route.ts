@@ -1,8 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCollection } from '@/lib/mongodb';
+import {
+  canModifyPodcast,
+  canViewPodcast,
+  canViewPodcastFrom,
+  isPodcastVisibility,
+  requireUser,
+} from '@/lib/auth';
+import { citationsToRecheck, recheckEditedCitations } from '@/lib/citations';
+import { remapSegmentChecks } from '@/lib/fact-check';
+import { editedScriptSchemaFor, formatSchemaErrors } from '@/lib/script-schema';
+import { getStyle } from '@/lib/styles/registry';
+import { recordScriptChange } from '@/lib/script-versions';
+import { getRepositorySource } from '@/lib/sources';
+import { Podcast } from '@/lib/types';
 
 export const runtime = 'nodejs';
 
+// Content of the files newly cited by an edit, at the case's commit; null where it can't be read
+async function readCitedFiles(podcast: Podcast, paths: string[]): Promise<Map<string, string | null>> {
+  if (paths.length === 0) {
+    return new Map();
+  }
+
+  const source = await getRepositorySource(podcast, podcast.owner_id).catch(() => null);
+  const contents = await Promise.all(
+    paths.map(async (path) => [path, (await source?.readFile(path, podcast.commit_sha).catch(() => null)) ?? null] as const)
+  );
+  return new Map(contents);
+}
+
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -10,9 +37,10 @@ export async function GET(
   try {
     const { id } = await params;
     const collection = await getCollection('podcasts');
-    const podcast = await collection.findOne({ id });
+    // The audio is served by /audio
+    const podcast = await collection.findOne<Podcast>({ id }, { projection: { audio_data: 0 } });
 
-    if (!podcast) {
+    if (!podcast || !(await canViewPodcastFrom(request.cookies, podcast))) {
       return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
     }
 
@@ -31,17 +59,59 @@ export async function PATCH(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
     const { id } = await params;
     const body = await request.json();
     const collection = await getCollection('podcasts');
+    const podcast = await collection.findOne<Podcast>({ id }, { projection: { audio_data: 0 } });
+
+    if (!podcast || !canViewPodcast(user, podcast, request.cookies)) {
+      return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
+    }
+    if (!canModifyPodcast(user, podcast)) {
+      return NextResponse.json({ error: 'Only the owner can change this case' }, { status: 403 });
+    }
 
     const updateData: Record<string, any> = {
       updated_at: new Date().toISOString(),
     };
 
-    // Allow updating script
+    // Allow updating script, as long as the style can still voice it
     if (body.script) {
-      updateData.script = body.script;
+      const style = await getStyle(podcast.narrative_style);
+      if (!style) {
+        return NextResponse.json(
+          { error: `Narrative style "${podcast.narrative_style}" no longer exists` },
+          { status: 409 }
+        );
+      }
+
+      const result = editedScriptSchemaFor(style).safeParse(body.script);
+      if (!result.success) {
+        return NextResponse.json(
+          { error: 'Invalid script', details: formatSchemaErrors(result.error) },
+          { status: 400 }
+        );
+      }
+
+      // Hand-written citations are checked against the repository, not taken on trust
+      const previousSegments = podcast.script?.segments || [];
+      const citedFiles = await readCitedFiles(podcast, citationsToRecheck(previousSegments, result.data.segments));
+      const script = {
+        ...result.data,
+        segments: recheckEditedCitations(previousSegments, result.data.segments, citedFiles),
+      };
+
+      const version = await recordScriptChange(podcast, script, 'edited', { author: user.name });
+      updateData.script = script;
+      updateData.script_version = version.version;
+      if (podcast.fact_check) {
+        updateData.fact_check = remapSegmentChecks(podcast.fact_check, previousSegments, script.segments);
+      }
     }
 
     // Allow updating title
@@ -49,16 +119,36 @@ export async function PATCH(
       updateData.title = body.title;
     }
 
+    // Who can see the case. Cases without an owner have no one to keep them private.
+    if (body.visibility !== undefined) {
+      if (!isPodcastVisibility(body.visibility)) {
+        return NextResponse.json(
+          { error: 'visibility must be one of public, unlisted, private' },
+          { status: 400 }
+        );
+      }
+      if (!podcast.owner_id) {
+        return NextResponse.json({ error: 'Cases without an owner are always public' }, { status: 409 });
+      }
+      if (body.visibility === 'public' && podcast.is_private) {
+        return NextResponse.json({ error: 'Cases of private repositories cannot be public' }, { status: 409 });
+      }
+      updateData.visibility = body.visibility;
+    }
+
+    // A script edit only lands on the revision it was made from
     const result = await collection.updateOne(
-      { id },
+      { id, ...(body.script && { script_version: podcast.script_version ?? null }) },
       { $set: updateData }
     );
 
     if (result.matchedCount === 0) {
-      return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
+      return body.script
+        ? NextResponse.json({ error: 'The script was changed meanwhile. Reload it and try again.' }, { status: 409 })
+        : NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
     }
 
-    const updatedPodcast = await collection.findOne({ id });
+    const updatedPodcast = await collection.findOne({ id }, { projection: { audio_data: 0 } });
     return NextResponse.json(updatedPodcast);
   } catch (error: any) {
     console.error('Error updating podcast:', error);
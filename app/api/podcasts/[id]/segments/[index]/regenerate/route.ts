@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollection } from '@/lib/mongodb';
+import { regenerateSegments } from '@/lib/gemini';
+import { withoutSegmentChecks } from '@/lib/fact-check';
+import { getLlmProvider } from '@/lib/llm';
+import { checkQuota, meterLlmProvider } from '@/lib/usage';
+import { enforceRateLimit } from '@/lib/rate-limit';
+import { getStyle } from '@/lib/styles/registry';
+import { recordScriptChange } from '@/lib/script-versions';
+import { Podcast } from '@/lib/types';
+import { canModifyPodcast, canViewPodcast, requireUser } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const maxDuration = 120;
+
+const MAX_GUIDANCE_LENGTH = 500;
+// A whole act at most; longer runs are better off as a new investigation
+const MAX_SEGMENTS = 10;
+
+/**
+ * Rewrite one segment, or `count` segments starting at this one, with optional
+ * guidance such as "make it funnier". Speakers and citations are kept.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; index: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const limited = await enforceRateLimit('rewrite', { userId: user.id, request });
+    if (limited) {
+      return limited;
+    }
+
+    const { id, index: indexParam } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const index = Number(indexParam);
+    const count = body.count ?? 1;
+    if (!Number.isInteger(index) || index < 0) {
+      return NextResponse.json({ error: 'Segment index must be a non-negative integer' }, { status: 400 });
+    }
+    if (!Number.isInteger(count) || count < 1 || count > MAX_SEGMENTS) {
+      return NextResponse.json({ error: `count must be an integer from 1 to ${MAX_SEGMENTS}` }, { status: 400 });
+    }
+    if (body.guidance !== undefined && typeof body.guidance !== 'string') {
+      return NextResponse.json({ error: 'guidance must be a string' }, { status: 400 });
+    }
+    const guidance = body.guidance?.trim() || undefined;
+    if (guidance && guidance.length > MAX_GUIDANCE_LENGTH) {
+      return NextResponse.json(
+        { error: `guidance must be at most ${MAX_GUIDANCE_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const collection = await getCollection('podcasts');
+    const podcast = await collection.findOne<Podcast>({ id });
+
+    if (!podcast || !canViewPodcast(user, podcast, request.cookies)) {
+      return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
+    }
+    if (!canModifyPodcast(user, podcast)) {
+      return NextResponse.json({ error: 'Only the owner can change this case' }, { status: 403 });
+    }
+    if (!podcast.script?.segments?.length) {
+      return NextResponse.json({ error: 'No script available for this podcast' }, { status: 400 });
+    }
+    if (index + count > podcast.script.segments.length) {
+      return NextResponse.json(
+        { error: `The script only has ${podcast.script.segments.length} segments` },
+        { status: 400 }
+      );
+    }
+
+    const style = await getStyle(podcast.narrative_style);
+    if (!style) {
+      return NextResponse.json(
+        { error: `Narrative style "${podcast.narrative_style}" no longer exists` },
+        { status: 409 }
+      );
+    }
+
+    // Rewrites are billed to whoever asks for them
+    const quota = await checkQuota(user.id, 'llm_tokens');
+    if (!quota.allowed) {
+      return NextResponse.json({ error: quota.message, remaining: quota.remaining }, { status: 429 });
+    }
+
+    const segments = await regenerateSegments(podcast, style, index, count, {
+      guidance,
+      signal: request.signal,
+      provider: meterLlmProvider(getLlmProvider(podcast.llm_provider), { podcastId: id, userId: user.id }),
+    });
+
+    const script = {
+      ...podcast.script,
+      segments: podcast.script.segments.map((segment, i) =>
+        i >= index && i < index + count ? segments[i - index] : segment
+      ),
+    };
+
+    const version = await recordScriptChange(podcast, script, 'regenerated', { author: user.name });
+    // Only on top of the revision the rewrite started from
+    const updated = await collection.updateOne(
+      { id, script_version: podcast.script_version ?? null },
+      {
+        $set: {
+          script,
+          script_version: version.version,
+          ...(podcast.fact_check && { fact_check: withoutSegmentChecks(podcast.fact_check, index, count) }),
+          updated_at: new Date().toISOString(),
+        },
+      }
+    );
+    if (updated.matchedCount === 0) {
+      return NextResponse.json({ error: 'The script was changed meanwhile. Reload it and try again.' }, { status: 409 });
+    }
+
+    console.log(`[Rewrite] Podcast ${id}: rewrote ${count} segment(s) from ${index}${guidance ? ` ("${guidance}")` : ''}`);
+
+    return NextResponse.json({ index, count, segments, script, script_version: version.version });
+  } catch (error) {
+    console.error('Error regenerating segments:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
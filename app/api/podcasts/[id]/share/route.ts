@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollection } from '@/lib/mongodb';
+import {
+  DEFAULT_SHARE_TTL_DAYS,
+  MAX_SHARE_TTL_DAYS,
+  VISIBILITY_PROJECTION,
+  canModifyPodcast,
+  canViewPodcast,
+  createShareToken,
+  getPodcastVisibility,
+  requireUser,
+} from '@/lib/auth';
+import { isSecretStorageConfigured } from '@/lib/auth/secrets';
+import { Podcast } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Loads the case for its owner, or returns the response explaining why not
+async function findOwnedPodcast(request: NextRequest, id: string): Promise<Podcast | NextResponse> {
+  const user = await requireUser(request);
+  if (user instanceof NextResponse) {
+    return user;
+  }
+
+  const collection = await getCollection('podcasts');
+  const podcast = await collection.findOne<Podcast>({ id }, { projection: VISIBILITY_PROJECTION });
+  if (!podcast || !canViewPodcast(user, podcast, request.cookies)) {
+    return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
+  }
+  if (!canModifyPodcast(user, podcast)) {
+    return NextResponse.json({ error: 'Only the owner can change this case' }, { status: 403 });
+  }
+  return podcast;
+}
+
+/**
+ * Issue a link that opens an unlisted case for anyone holding it, until it expires
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const podcast = await findOwnedPodcast(request, id);
+    if (podcast instanceof NextResponse) {
+      return podcast;
+    }
+
+    if (getPodcastVisibility(podcast) !== 'unlisted') {
+      return NextResponse.json(
+        { error: 'Only unlisted cases have share links. Make the case unlisted first.' },
+        { status: 409 }
+      );
+    }
+    if (!isSecretStorageConfigured()) {
+      return NextResponse.json({ error: 'Share links need AUTH_SECRET to be configured' }, { status: 503 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const days = body.expires_in_days ?? DEFAULT_SHARE_TTL_DAYS;
+    if (!Number.isInteger(days) || days < 1 || days > MAX_SHARE_TTL_DAYS) {
+      return NextResponse.json(
+        { error: `expires_in_days must be a whole number from 1 to ${MAX_SHARE_TTL_DAYS}` },
+        { status: 400 }
+      );
+    }
+
+    const expiresAt = new Date(Date.now() + days * DAY_MS);
+    const token = createShareToken(id, expiresAt);
+
+    return NextResponse.json({
+      url: new URL(`/share/${token}`, request.url).toString(),
+      expires_at: expiresAt.toISOString(),
+    });
+  } catch (error: unknown) {
+    console.error('Error creating share link:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Revoke every share link issued so far
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const podcast = await findOwnedPodcast(request, id);
+    if (podcast instanceof NextResponse) {
+      return podcast;
+    }
+
+    const collection = await getCollection('podcasts');
+    await collection.updateOne({ id }, { $set: { shares_revoked_at: new Date() } });
+
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error revoking share links:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
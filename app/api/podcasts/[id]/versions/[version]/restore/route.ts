@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollection } from '@/lib/mongodb';
+import { remapSegmentChecks } from '@/lib/fact-check';
+import { getScriptVersion, recordScriptChange } from '@/lib/script-versions';
+import { Podcast } from '@/lib/types';
+import { canModifyPodcast, canViewPodcast, requireUser } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+
+/**
+ * Make an earlier revision the current script. The restore is itself a new
+ * version, so it can be undone the same way.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const { id, version: versionParam } = await params;
+    const versionNumber = Number(versionParam);
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return NextResponse.json({ error: 'Version must be a positive integer' }, { status: 400 });
+    }
+
+    const collection = await getCollection('podcasts');
+    const podcast = await collection.findOne<Podcast>({ id }, { projection: { audio_data: 0 } });
+    if (!podcast || !canViewPodcast(user, podcast, request.cookies)) {
+      return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
+    }
+    if (!canModifyPodcast(user, podcast)) {
+      return NextResponse.json({ error: 'Only the owner can change this case' }, { status: 403 });
+    }
+
+    const target = await getScriptVersion(id, versionNumber);
+    if (!target) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    const version = await recordScriptChange(podcast, target.script, 'restored', {
+      author: user.name,
+      restoredFrom: versionNumber,
+    });
+    // Only on top of the revision that was current when the restore was asked for
+    const updated = await collection.updateOne(
+      { id, script_version: podcast.script_version ?? null },
+      {
+        $set: {
+          script: target.script,
+          script_version: version.version,
+          ...(podcast.fact_check && {
+            fact_check: remapSegmentChecks(podcast.fact_check, podcast.script?.segments || [], target.script.segments),
+          }),
+          updated_at: new Date().toISOString(),
+        },
+      }
+    );
+    if (updated.matchedCount === 0) {
+      return NextResponse.json({ error: 'The script was changed meanwhile. Reload it and try again.' }, { status: 409 });
+    }
+
+    console.log(`[Versions] Podcast ${id}: restored version ${versionNumber} as version ${version.version}`);
+
+    const updatedPodcast = await collection.findOne({ id }, { projection: { audio_data: 0 } });
+    return NextResponse.json(updatedPodcast);
+  } catch (error: unknown) {
+    console.error('Error restoring script version:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
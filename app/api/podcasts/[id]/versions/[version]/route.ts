@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollection } from '@/lib/mongodb';
+import { VISIBILITY_PROJECTION, canViewPodcastFrom } from '@/lib/auth';
+import { getScriptVersion } from '@/lib/script-versions';
+import { Podcast } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const { id, version: versionParam } = await params;
+    const versionNumber = Number(versionParam);
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return NextResponse.json({ error: 'Version must be a positive integer' }, { status: 400 });
+    }
+
+    const collection = await getCollection('podcasts');
+    const podcast = await collection.findOne<Podcast>({ id }, { projection: VISIBILITY_PROJECTION });
+    if (!podcast || !(await canViewPodcastFrom(request.cookies, podcast))) {
+      return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
+    }
+
+    const version = await getScriptVersion(id, versionNumber);
+    if (!version) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ version });
+  } catch (error: unknown) {
+    console.error('Error fetching script version:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
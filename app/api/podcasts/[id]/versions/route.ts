@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollection } from '@/lib/mongodb';
+import { VISIBILITY_PROJECTION, canViewPodcastFrom } from '@/lib/auth';
+import { listScriptVersions } from '@/lib/script-versions';
+import { Podcast } from '@/lib/types';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const collection = await getCollection('podcasts');
+    const podcast = await collection.findOne<Podcast>(
+      { id },
+      { projection: { ...VISIBILITY_PROJECTION, script_version: 1, audio_script_version: 1 } }
+    );
+
+    if (!podcast || !(await canViewPodcastFrom(request.cookies, podcast))) {
+      return NextResponse.json({ error: 'Podcast not found' }, { status: 404 });
+    }
+
+    const versions = await listScriptVersions(id);
+
+    return NextResponse.json({
+      versions,
+      current: podcast.script_version ?? null,
+      audio: podcast.audio_script_version ?? null,
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching script versions:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
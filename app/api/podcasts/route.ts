@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCollection } from '@/lib/mongodb';
+import { getSessionUser, visiblePodcastsFilter } from '@/lib/auth';
 
 export const runtime = 'nodejs';
 
@@ -10,14 +11,17 @@ export async function GET(request: NextRequest) {
     const limit = parseInt(searchParams.get('limit') || '100');
     const skip = parseInt(searchParams.get('skip') || '0');
 
+    const visible = visiblePodcastsFilter(await getSessionUser(request.cookies));
+
+    // Without the audio, which /api/podcasts/:id/audio serves
     const podcasts = await collection
-      .find({})
+      .find(visible, { projection: { audio_data: 0 } })
       .sort({ created_at: -1 })
       .skip(skip)
       .limit(limit)
       .toArray();
 
-    const total = await collection.countDocuments({});
+    const total = await collection.countDocuments(visible);
 
     return NextResponse.json({
       podcasts,
@@ -7,11 +7,34 @@ export async function GET() {
     message: 'Repo-to-Podcast API',
     version: '1.0.0',
     endpoints: {
+      register: 'POST /api/auth/register',
+      login: 'POST /api/auth/login',
+      logout: 'POST /api/auth/logout',
+      me: 'GET /api/auth/me',
+      githubLogin: 'GET /api/auth/github',
+      githubConnect: 'GET /api/auth/github/connect',
+      githubDisconnect: 'DELETE /api/auth/github/connect',
+      apiKeys: 'GET|POST /api/auth/api-keys',
+      apiKey: 'DELETE /api/auth/api-keys/:id',
       analyze: 'POST /api/analyze',
+      analyzeUpload: 'POST /api/analyze/upload (multipart .zip or .tar.gz)',
+      cancel: 'POST /api/analyze/:id/cancel',
+      retry: 'POST /api/analyze/:id/retry',
       podcasts: 'GET /api/podcasts',
       podcast: 'GET /api/podcasts/:id',
+      regenerateSegment: 'POST /api/podcasts/:id/segments/:index/regenerate',
+      shareLink: 'POST /api/podcasts/:id/share',
+      revokeShareLinks: 'DELETE /api/podcasts/:id/share',
+      openShareLink: 'GET /share/:token',
+      usage: 'GET /api/usage',
+      versions: 'GET /api/podcasts/:id/versions',
+      version: 'GET /api/podcasts/:id/versions/:version',
+      restoreVersion: 'POST /api/podcasts/:id/versions/:version/restore',
       patterns: 'GET /api/patterns',
+      styles: 'GET|POST /api/styles',
+      style: 'GET|DELETE /api/styles/:id',
       stats: 'GET /api/stats',
+      v1: 'GET /api/v1/openapi.json (API key as Bearer token)',
     },
   });
 }
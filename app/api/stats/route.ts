@@ -25,7 +25,7 @@ export async function GET() {
                   {
                     $in: [
                       '$status',
-                      ['pending', 'analyzing', 'generating_script', 'generating_audio'],
+                      ['pending', 'analyzing', 'generating_script', 'generating_audio', 'retrying'],
                     ],
                   },
                   1,
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { purgeCachedAnalyses } from '@/lib/jobs/analysis-cache';
+import { deleteCustomStyle, getStyle, isStyleInUse } from '@/lib/styles/registry';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const style = await getStyle(id);
+
+    if (!style) {
+      return NextResponse.json({ error: 'Style not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ style });
+  } catch (error: unknown) {
+    console.error('Error fetching style:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const { id } = await params;
+    const style = await getStyle(id);
+
+    if (!style) {
+      return NextResponse.json({ error: 'Style not found' }, { status: 404 });
+    }
+
+    if (style.builtin) {
+      return NextResponse.json({ error: 'Built-in styles cannot be deleted' }, { status: 403 });
+    }
+
+    if (style.owner_id !== user.id) {
+      return NextResponse.json({ error: 'Only the creator of a style can delete it' }, { status: 403 });
+    }
+
+    // Their scripts, voices and re-recordings all depend on it
+    if (await isStyleInUse(id)) {
+      return NextResponse.json({ error: 'Cases still use this style' }, { status: 409 });
+    }
+
+    await deleteCustomStyle(id);
+    // A new style created under the same id must not reuse these scripts
+    await purgeCachedAnalyses(id);
+
+    console.log(`[Styles] Deleted custom style ${id} for user ${user.id}`);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error('Error deleting style:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
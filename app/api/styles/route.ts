@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { listStyles, saveCustomStyle, validateStyleDefinition } from '@/lib/styles/registry';
+
+export const runtime = 'nodejs';
+
+export async function GET() {
+  try {
+    const styles = await listStyles();
+    return NextResponse.json({ styles });
+  } catch (error: unknown) {
+    console.error('Error listing styles:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Store a custom persona, selectable on /api/analyze by its id
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const body = await request.json();
+    const result = validateStyleDefinition(body);
+
+    if (result.errors) {
+      return NextResponse.json(
+        { error: 'Invalid style definition', details: result.errors },
+        { status: 400 }
+      );
+    }
+
+    const created = await saveCustomStyle(result.style, user.id);
+    if (!created) {
+      return NextResponse.json(
+        { error: `A style with id "${result.style.id}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    console.log(`[Styles] Created custom style ${result.style.id} for user ${user.id}`);
+    return NextResponse.json({ style: result.style }, { status: 201 });
+  } catch (error: unknown) {
+    console.error('Error creating style:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
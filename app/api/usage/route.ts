@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireUser } from '@/lib/auth';
+import { getUsageLimits, getUserUsage } from '@/lib/usage';
+
+export const runtime = 'nodejs';
+
+// The signed-in user's Gemini and ElevenLabs usage against their quotas
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const usage = await getUserUsage(user.id);
+
+    return NextResponse.json({
+      ...usage,
+      limits: {
+        llm_tokens: getUsageLimits('llm_tokens'),
+        tts_characters: getUsageLimits('tts_characters'),
+      },
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching usage:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
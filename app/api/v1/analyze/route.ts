@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { startAnalysis } from '@/lib/jobs/start-analysis';
+import { AnalyzeRequestSchema, StartedAnalysisResponse } from '@/lib/api/schemas';
+import { authenticateApiRequest, handleApiError, parseBody } from '@/lib/api/v1';
+
+export const runtime = 'nodejs';
+
+// The queue worker runs in the background of this request
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await authenticateApiRequest(request, 'analyze', 'analyze');
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const body = await parseBody(request, AnalyzeRequestSchema);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+
+    const started: StartedAnalysisResponse = await startAnalysis(user, body);
+    return NextResponse.json(started, { status: 202 });
+  } catch (error: unknown) {
+    return handleApiError(error, 'Error starting analysis');
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollection } from '@/lib/mongodb';
+import { canModifyPodcast, canViewPodcast } from '@/lib/auth';
+import { audioFileResponse, startAudioGeneration } from '@/lib/audio';
+import { Podcast } from '@/lib/types';
+import { apiError, authenticateApiRequest, findApiPodcast, handleApiError } from '@/lib/api/v1';
+
+export const runtime = 'nodejs';
+
+// Recording runs in the background of the POST
+export const maxDuration = 300;
+
+// Download the recorded episode
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await authenticateApiRequest(request, 'read');
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const { id } = await params;
+    const collection = await getCollection('podcasts');
+    const podcast = await collection.findOne<Podcast & { audio_data?: string }>({ id });
+
+    if (!podcast || !canViewPodcast(user, podcast)) {
+      return apiError(404, 'Podcast not found');
+    }
+    if (!podcast.audio_data) {
+      return apiError(404, 'Audio not available for this podcast');
+    }
+
+    return audioFileResponse(podcast, podcast.audio_data);
+  } catch (error: unknown) {
+    return handleApiError(error, 'Error serving audio');
+  }
+}
+
+// Record the current script
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await authenticateApiRequest(request, 'audio', 'audio');
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const podcast = await findApiPodcast(user, (await params).id);
+    if (podcast instanceof NextResponse) {
+      return podcast;
+    }
+    if (!canModifyPodcast(user, podcast)) {
+      return apiError(403, 'Only the owner can record this case');
+    }
+
+    await startAudioGeneration(podcast, user);
+
+    return NextResponse.json({ id: podcast.id, status: 'recording' }, { status: 202 });
+  } catch (error: unknown) {
+    return handleApiError(error, 'Error starting audio generation');
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { apiError, authenticateApiRequest, findApiPodcast, handleApiError, toScriptResponse } from '@/lib/api/v1';
+
+export const runtime = 'nodejs';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await authenticateApiRequest(request, 'read');
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const podcast = await findApiPodcast(user, (await params).id);
+    if (podcast instanceof NextResponse) {
+      return podcast;
+    }
+
+    const { script } = podcast;
+    if (!script) {
+      return apiError(404, 'The script has not been written yet');
+    }
+
+    return NextResponse.json(toScriptResponse({ ...podcast, script }));
+  } catch (error: unknown) {
+    return handleApiError(error, 'Error fetching script');
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateApiRequest, findApiPodcast, handleApiError, toPodcastStatus } from '@/lib/api/v1';
+
+export const runtime = 'nodejs';
+
+// Poll this until analysis.status is completed (or audio.status, once recording)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await authenticateApiRequest(request, 'read');
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const podcast = await findApiPodcast(user, (await params).id);
+    if (podcast instanceof NextResponse) {
+      return podcast;
+    }
+
+    return NextResponse.json(toPodcastStatus(podcast));
+  } catch (error: unknown) {
+    return handleApiError(error, 'Error fetching status');
+  }
+}
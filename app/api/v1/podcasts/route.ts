@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollection } from '@/lib/mongodb';
+import { visiblePodcastsFilter } from '@/lib/auth';
+import { Podcast } from '@/lib/types';
+import { ListPodcastsQuerySchema } from '@/lib/api/schemas';
+import { authenticateApiRequest, handleApiError, parseQuery, toPodcastSummary } from '@/lib/api/v1';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await authenticateApiRequest(request, 'read');
+    if (user instanceof NextResponse) {
+      return user;
+    }
+
+    const query = parseQuery(request, ListPodcastsQuerySchema);
+    if (query instanceof NextResponse) {
+      return query;
+    }
+    const { limit, skip, mine } = query;
+
+    const collection = await getCollection('podcasts');
+    const filter = mine ? { owner_id: user.id } : visiblePodcastsFilter(user);
+
+    const podcasts = await collection
+      .find<Podcast>(filter, { projection: { audio_data: 0, script: 0 } })
+      .sort({ created_at: -1 })
+      .skip(skip)
+      .limit(limit)
+      .toArray();
+
+    const total = await collection.countDocuments(filter);
+
+    return NextResponse.json({ podcasts: podcasts.map(toPodcastSummary), total, limit, skip });
+  } catch (error: unknown) {
+    return handleApiError(error, 'Error listing podcasts');
+  }
+}
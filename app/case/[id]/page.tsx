@@ -1,17 +1,23 @@
 import React from 'react';
 import Link from 'next/link';
+import { cookies } from 'next/headers';
 import { getCollection } from '@/lib/mongodb';
-import { getGitHubClient, RepoStructure } from '@/lib/github/client';
+import { canViewPodcast, getPodcastVisibility, getSessionUser } from '@/lib/auth';
+import { RepoStructure } from '@/lib/github/client';
+import { getRepositorySource } from '@/lib/sources';
 import { Podcast } from '@/lib/types';
 import { PlayCircle, Fingerprint, Siren, Search, AlertTriangle, Paperclip, ArrowLeft } from 'lucide-react';
 
 import CodeChatbot from '@/components/case/CodeChatbot';
 import EvidenceLocker from '@/components/case/EvidenceLocker';
+import ShareControls from '@/components/case/ShareControls';
 
 export const dynamic = 'force-dynamic';
 
 interface PageProps {
   params: Promise<{ id: string }>;
+  // Set by evidence links in the script: ?file=src/app.ts&lines=12-30
+  searchParams: Promise<{ file?: string; lines?: string }>;
 }
 
 async function getCaseById(id: string) {
@@ -25,10 +31,10 @@ async function getCaseById(id: string) {
   }
 }
 
-async function getRepoStructure(repoName: string) {
+// Private repositories are read with their owner's GitHub token
+async function getRepoStructure(podcast: Podcast) {
   try {
-    const [owner, repo] = repoName.split('/');
-    const client = getGitHubClient();
+    const source = await getRepositorySource(podcast, podcast.is_private ? podcast.owner_id : undefined);
     
     // Add timeout to prevent infinite loading
     const timeoutPromise = new Promise<never>((_, reject) => 
@@ -36,7 +42,7 @@ async function getRepoStructure(repoName: string) {
     );
 
     return await Promise.race([
-      client.getRepoStructure(owner, repo),
+      source.getStructure(podcast.commit_sha, { path: podcast.path }),
       timeoutPromise
     ]) as RepoStructure;
   } catch (error) {
@@ -55,11 +61,24 @@ function pseudoRandom(seed: string) {
   return Math.abs(hash) / 2147483647;
 }
 
-export default async function CaseDetailPage({ params }: PageProps) {
+function parseEvidenceParams({ file, lines }: { file?: string; lines?: string }) {
+  if (!file) return undefined;
+  const [start, end] = (lines || '').split('-').map((n) => parseInt(n, 10));
+  return {
+    path: file,
+    ...(start > 0 && { startLine: start, endLine: end >= start ? end : start }),
+  };
+}
+
+export default async function CaseDetailPage({ params, searchParams }: PageProps) {
   const { id } = await params;
+  const initialFile = parseEvidenceParams(await searchParams);
   const podcast = await getCaseById(id);
+  const cookieStore = await cookies();
+  const viewer = await getSessionUser(cookieStore);
 
-  if (!podcast) {
+  // A case the viewer may not see reads as missing rather than forbidden
+  if (!podcast || !canViewPodcast(viewer, podcast, cookieStore)) {
     return (
       <div className="min-h-screen bg-[#050505] text-[#e7e5e4] font-typewriter flex items-center justify-center relative overflow-hidden">
         <div className="absolute inset-0 opacity-[0.03] pointer-events-none bg-[url('/grain.gif')]"></div>
@@ -75,7 +94,7 @@ export default async function CaseDetailPage({ params }: PageProps) {
     );
   }
 
-  const structure = await getRepoStructure(podcast.repo_name);
+  const structure = await getRepoStructure(podcast);
   
   // Process languages for stamps
   const languages = podcast.analysis_summary?.languages || {};
@@ -93,8 +112,6 @@ export default async function CaseDetailPage({ params }: PageProps) {
     ))
     .slice(0, 5) || [];
 
-  const [owner, repo] = podcast.repo_name.split('/');
-  
   return (
     <div className="min-h-screen md:h-screen bg-[#050505] text-[#d4d4d4] font-courier p-3 md:p-6 pb-0 flex flex-col relative overflow-x-hidden md:overflow-hidden">
       {/* Global Atmosphere */}
@@ -121,12 +138,24 @@ export default async function CaseDetailPage({ params }: PageProps) {
             </div>
           </div>
           <h1 className="text-xl sm:text-2xl md:text-4xl font-bold text-[#e5e5e5] tracking-tighter uppercase drop-shadow-md font-typewriter">
-            CASE FILE: <span className="text-red-700 underline decoration-2 underline-offset-4 break-all">{podcast.repo_name}</span>
+            CASE FILE: <span className="text-red-700 underline decoration-2 underline-offset-4 break-all">{podcast.repo_name}{podcast.path && `/${podcast.path}`}</span>
           </h1>
         </div>
         <div className="text-left md:text-right text-[10px] md:text-xs text-zinc-500 font-mono">
           <div className="uppercase tracking-widest">Case ID: {podcast.id.substring(0, 8)}</div>
           <div className="uppercase tracking-widest">Opened: {new Date(podcast.created_at).toLocaleDateString()}</div>
+          {podcast.commit_sha && (
+            <div className="uppercase tracking-widest">
+              Snapshot: {podcast.ref ? `${podcast.ref} @ ` : ''}{podcast.commit_sha.substring(0, 7)}
+            </div>
+          )}
+          {viewer && podcast.owner_id === viewer.id && (
+            <ShareControls
+              podcastId={podcast.id}
+              visibility={getPodcastVisibility(podcast)}
+              isPrivateRepo={Boolean(podcast.is_private)}
+            />
+          )}
         </div>
       </header>
 
@@ -200,9 +229,9 @@ export default async function CaseDetailPage({ params }: PageProps) {
         <div className="lg:col-span-6 h-[50vh] lg:h-full">
           <EvidenceLocker 
             files={structure?.files || []} 
-            owner={owner} 
-            repo={repo}
+            podcastId={podcast.id}
             totalFiles={structure?.totalFiles || 0}
+            initialFile={initialFile}
           />
         </div>
 
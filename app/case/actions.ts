@@ -1,11 +1,25 @@
 'use server';
 
-import { getGitHubClient } from '@/lib/github/client';
+import { cookies } from 'next/headers';
+import { getCollection } from '@/lib/mongodb';
+import { VISIBILITY_PROJECTION, canViewPodcastFrom } from '@/lib/auth';
+import { getRepositorySource } from '@/lib/sources';
+import { Podcast } from '@/lib/types';
 
-export async function fetchFileContent(owner: string, repo: string, path: string) {
+// Reads a file of the case's repository at the commit it was investigated at
+export async function fetchFileContent(podcastId: string, path: string) {
   try {
-    const client = getGitHubClient();
-    const content = await client.getFileContent(owner, repo, path);
+    const collection = await getCollection('podcasts');
+    const podcast = await collection.findOne<Podcast>(
+      { id: podcastId },
+      { projection: { ...VISIBILITY_PROJECTION, repo_name: 1, source: 1, commit_sha: 1 } }
+    );
+    if (!podcast || !(await canViewPodcastFrom(await cookies(), podcast))) {
+      return { success: false, error: 'Case not found' };
+    }
+
+    const source = await getRepositorySource(podcast, podcast.is_private ? podcast.owner_id : undefined);
+    const content = await source.readFile(path, podcast.commit_sha);
     return { success: true, content };
   } catch (error) {
     console.error('Error fetching file content:', error);
@@ -1,5 +1,7 @@
 import { redirect } from 'next/navigation';
+import { cookies } from 'next/headers';
 import { getCollection } from '@/lib/mongodb';
+import { getSessionUser, visiblePodcastsFilter } from '@/lib/auth';
 import { Podcast } from '@/lib/types';
 
 export const dynamic = 'force-dynamic';
@@ -7,8 +9,9 @@ export const dynamic = 'force-dynamic';
 async function getLatestCase() {
   try {
     const collection = await getCollection('podcasts');
+    const user = await getSessionUser(await cookies());
     const podcast = await collection.findOne<Podcast>(
-      { status: { $in: ['completed', 'audio_ready'] } },
+      { status: { $in: ['completed', 'audio_ready'] }, ...visiblePodcastsFilter(user) },
       { sort: { created_at: -1 } }
     );
     return podcast;
@@ -1,19 +1,57 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { Fingerprint } from "lucide-react";
 
+// ?error= codes the GitHub sign-in and share links redirect back with
+const REDIRECT_ERRORS: Record<string, string> = {
+  github_unavailable: "GitHub sign-in is not configured on this server.",
+  github_state: "GitHub sign-in expired. Try again.",
+  github_failed: "GitHub sign-in failed. Try again.",
+  github_taken: "That GitHub account belongs to another badge.",
+  share_invalid: "That share link is invalid or has expired.",
+};
+
 export default function LoginPage() {
   const [badgeId, setBadgeId] = useState("");
   const [securityCode, setSecurityCode] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isFocused, setIsFocused] = useState<"badge" | "code" | null>(null);
+  const [mode, setMode] = useState<"signin" | "register">("signin");
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get("error");
+    if (code) {
+      setError(REDIRECT_ERRORS[code] || "Sign-in failed.");
+    }
+  }, []);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
-    // Simulate auth delay
-    setTimeout(() => setIsLoading(false), 2000);
+    setError(null);
+
+    try {
+      const response = await fetch(mode === "signin" ? "/api/auth/login" : "/api/auth/register", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: badgeId, password: securityCode }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Authentication failed");
+      }
+
+      // Back to where the sign-in was asked for, if that was on this site. A full
+      // load, since `next` can be an API route such as the GitHub connect flow.
+      const next = new URLSearchParams(window.location.search).get("next");
+      window.location.assign(next?.startsWith("/") && !next.startsWith("//") ? next : "/");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Authentication failed");
+      setIsLoading(false);
+    }
   };
 
   return (
@@ -114,19 +152,20 @@ export default function LoginPage() {
                   htmlFor="badge" 
                   className="block text-xs font-bold tracking-[0.15em] mb-1 uppercase text-[#444] font-typewriter"
                 >
-                  Badge ID:
+                  Badge ID (Email):
                 </label>
                 <div className={`relative border-b-[3px] border-dotted transition-colors duration-300 ${isFocused === 'badge' ? 'border-[#1a1a1a]' : 'border-[#888]'}`}>
                   <input
                     id="badge"
-                    type="text"
+                    type="email"
+                    required
                     value={badgeId}
                     onChange={(e) => setBadgeId(e.target.value)}
                     onFocus={() => setIsFocused('badge')}
                     onBlur={() => setIsFocused(null)}
                     className="w-full bg-transparent p-2 text-xl text-[#000] font-typewriter tracking-widest focus:outline-none placeholder-[#000]/20"
-                    placeholder="XXX-XX-XXXX"
-                    autoComplete="off"
+                    placeholder="agent@bureau.gov"
+                    autoComplete="email"
                     style={{ textShadow: "0px 0px 1px rgba(0,0,0,0.5)" }}
                   />
                 </div>
@@ -144,6 +183,9 @@ export default function LoginPage() {
                   <input
                     id="code"
                     type="password"
+                    required
+                    minLength={mode === "register" ? 8 : undefined}
+                    autoComplete={mode === "signin" ? "current-password" : "new-password"}
                     value={securityCode}
                     onChange={(e) => setSecurityCode(e.target.value)}
                     onFocus={() => setIsFocused('code')}
@@ -155,6 +197,12 @@ export default function LoginPage() {
                 </div>
               </div>
 
+              {error && (
+                <p role="alert" className="text-xs font-bold uppercase tracking-wider text-[#800000] font-typewriter">
+                  {error}
+                </p>
+              )}
+
               {/* Controls Section */}
               <div className="pt-6 flex flex-col items-center gap-6 relative">
                 
@@ -182,11 +230,22 @@ export default function LoginPage() {
                         <div className={`w-3 h-3 rounded-full border border-black transition-colors ${isLoading ? 'bg-amber-500 shadow-[0_0_10px_rgba(245,158,11,0.8)]' : 'bg-red-900/50'}`} />
                         
                         <span className="text-sm font-bold tracking-[0.2em] uppercase text-[#ccc] group-hover:text-white font-courier">
-                            {isLoading ? 'Verifying...' : 'Authenticate'}
+                            {isLoading ? 'Verifying...' : mode === 'signin' ? 'Authenticate' : 'Issue Badge'}
                         </span>
                     </div>
                 </button>
 
+                <button
+                  type="button"
+                  onClick={() => {
+                    setMode(mode === "signin" ? "register" : "signin");
+                    setError(null);
+                  }}
+                  className="text-xs font-bold uppercase tracking-[0.15em] text-[#444] hover:text-black underline font-typewriter"
+                >
+                  {mode === "signin" ? "New recruit? Request a badge" : "Already on the force? Sign in"}
+                </button>
+
                 {/* --- OR Divider --- */}
                 <div className="w-full flex items-center gap-4 opacity-40">
                     <div className="h-px bg-[#555] flex-1" />
@@ -194,11 +253,11 @@ export default function LoginPage() {
                     <div className="h-px bg-[#555] flex-1" />
                 </div>
 
-                {/* Google Button - "Metal Plate" Style */}
+                {/* GitHub Button - "Metal Plate" Style */}
                 <button
                     type="button"
                     className="group relative w-full"
-                    onClick={() => console.log("Google Auth Placeholder")}
+                    onClick={() => { window.location.href = "/api/auth/github"; }}
                 >
                     <div className="
                         relative w-full bg-gradient-to-b from-[#444] to-[#2a2a2a] 
@@ -219,7 +278,7 @@ export default function LoginPage() {
                              </div>
                              
                              <span className="text-xs font-bold tracking-[0.15em] text-[#aaa] group-hover:text-[#fff] shadow-black drop-shadow-md font-typewriter">
-                                [ LINK EVIDENCE ARCHIVE ]
+                                [ SIGN IN WITH GITHUB ]
                              </span>
                         </div>
                     </div>
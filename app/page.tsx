@@ -1,4 +1,6 @@
+import { cookies } from 'next/headers';
 import { getCollection } from '@/lib/mongodb';
+import { getSessionUser, visiblePodcastsFilter } from '@/lib/auth';
 import LandingPage from '@/components/home/LandingPage';
 
 // Force dynamic rendering since we're fetching data directly
@@ -7,10 +9,11 @@ export const dynamic = 'force-dynamic';
 async function getInitialData() {
   try {
     const podcastsCollection = await getCollection('podcasts');
+    const visible = visiblePodcastsFilter(await getSessionUser(await cookies()));
     
     // Fetch recent podcasts
     const podcasts = await podcastsCollection
-      .find({})
+      .find(visible, { projection: { audio_data: 0 } })
       .sort({ created_at: -1 })
       .limit(10)
       .toArray();
@@ -24,9 +27,9 @@ async function getInitialData() {
     }));
 
     // Calculate stats
-    const total = await podcastsCollection.countDocuments();
-    const completed = await podcastsCollection.countDocuments({ status: 'completed' });
-    const failed = await podcastsCollection.countDocuments({ status: 'failed' });
+    const total = await podcastsCollection.countDocuments(visible);
+    const completed = await podcastsCollection.countDocuments({ ...visible, status: 'completed' });
+    const failed = await podcastsCollection.countDocuments({ ...visible, status: 'failed' });
     const pending = total - completed - failed;
 
     return {
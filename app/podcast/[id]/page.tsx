@@ -1,6 +1,7 @@
 'use client';
 
 import Image from 'next/image';
+import Link from 'next/link';
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -27,6 +28,8 @@ import {
 } from 'lucide-react';
 import DevelopingEvidence from '@/components/ui/DevelopingEvidence';
 import { useAudio } from '@/components/layout/AudioProvider';
+import { evidenceHref, formatCodeReference } from '@/lib/citations';
+import type { CodeReference } from '@/lib/types';
 
 const Reel = ({ isPlaying, speed }: { isPlaying: boolean; speed: number }) => (
   <motion.div 
@@ -82,6 +85,7 @@ interface Podcast {
     segments: Array<{
       speaker: string;
       text: string;
+      code_reference?: CodeReference;
     }>;
   };
   repo_metadata?: {
@@ -732,6 +736,16 @@ export default function PodcastPlayerPage() {
                         <p className="leading-relaxed">
                           {segment.text}
                         </p>
+                        {segment.code_reference && (
+                          <Link
+                            href={evidenceHref(podcast.id, segment.code_reference)}
+                            className="mt-1 inline-flex items-center gap-1 text-[10px] text-red-800 uppercase tracking-wider hover:underline"
+                          >
+                            <Paperclip className="w-3 h-3" />
+                            {formatCodeReference(segment.code_reference)}
+                            {segment.code_reference.verified === false && ' (unverified)'}
+                          </Link>
+                        )}
                         {/* Redacted bar effect (visual only for now) */}
                         {Math.random() > 0.8 && (
                           <span className="absolute top-0 left-10 bg-black h-4 w-20 opacity-10"></span>
@@ -16,14 +16,10 @@ import {
   HardDrive
 } from 'lucide-react';
 import { useAudio } from '@/components/layout/AudioProvider';
+import { AudioProgressEvent } from '@/lib/types';
+import { subscribeToPodcastEvents } from '@/lib/podcast-events-client';
 
-interface RecordingStatus {
-  status: 'pending' | 'recording' | 'processing' | 'completed' | 'error';
-  progress: number;
-  message: string;
-  currentSegment?: number;
-  totalSegments?: number;
-}
+type RecordingStatus = AudioProgressEvent;
 
 export default function RecordingPage() {
   const params = useParams();
@@ -54,6 +50,23 @@ export default function RecordingPage() {
     return () => clearInterval(interval);
   }, []);
 
+  // Returns true once recording has finished (successfully or not)
+  const handleStatus = useCallback((data: RecordingStatus) => {
+    setStatus(data);
+
+    if (data.status === 'completed') {
+      // Redirect to podcast player after a short delay
+      setTimeout(() => {
+        router.push(`/podcast/${podcastId}`);
+      }, 2000);
+      return true;
+    } else if (data.status === 'error') {
+      setError(data.message);
+      return true;
+    }
+    return false;
+  }, [podcastId, router]);
+
   const pollStatus = useCallback(async () => {
     try {
       const response = await fetch(`/api/podcasts/${podcastId}/audio-status`);
@@ -63,38 +76,38 @@ export default function RecordingPage() {
         throw new Error(data.error || 'Failed to get status');
       }
 
-      setStatus(data);
-
-      if (data.status === 'completed') {
-        if (intervalRef.current) {
-          clearInterval(intervalRef.current);
-        }
-        // Redirect to podcast player after a short delay
-        setTimeout(() => {
-          router.push(`/podcast/${podcastId}`);
-        }, 2000);
-      } else if (data.status === 'error') {
-        if (intervalRef.current) {
-          clearInterval(intervalRef.current);
-        }
-        setError(data.message);
+      if (handleStatus(data) && intervalRef.current) {
+        clearInterval(intervalRef.current);
       }
     } catch (err) {
       console.error('Failed to poll status:', err);
     }
-  }, [podcastId, router]);
+  }, [podcastId, handleStatus]);
 
   useEffect(() => {
-    // Start polling for status
-    pollStatus();
-    intervalRef.current = setInterval(pollStatus, 2000);
-
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
+    // Stream status updates, polling only if the stream is unavailable
+    const unsubscribe = subscribeToPodcastEvents(
+      podcastId,
+      {
+        onAudio: (data) => {
+          if (handleStatus(data)) {
+            unsubscribe();
+          }
+        },
+      },
+      () => {
+        pollStatus();
+        intervalRef.current = setInterval(pollStatus, 2000);
+        return () => {
+          if (intervalRef.current) {
+            clearInterval(intervalRef.current);
+          }
+        };
       }
-    };
-  }, [pollStatus]);
+    );
+
+    return unsubscribe;
+  }, [podcastId, handleStatus, pollStatus]);
 
   const getStatusText = () => {
     switch (status.status) {
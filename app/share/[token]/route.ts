@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readShareToken, shareCookieName } from '@/lib/auth';
+import { sessionCookieOptions } from '@/lib/auth/cookie';
+
+export const runtime = 'nodejs';
+
+// Opens a share link: the token goes into a cookie for the case, which every
+// page and API route of the case checks
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+) {
+  const { token } = await params;
+  const grant = readShareToken(token);
+  if (!grant) {
+    return NextResponse.redirect(new URL('/login?error=share_invalid', request.url));
+  }
+
+  const response = NextResponse.redirect(new URL(`/case/${grant.podcastId}`, request.url));
+  response.cookies.set(shareCookieName(grant.podcastId), token, sessionCookieOptions(grant.expiresAt));
+  return response;
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import Image from 'next/image';
+import Link from 'next/link';
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -17,9 +18,16 @@ import {
   Fingerprint,
   Siren,
   Menu,
+  Paperclip,
+  RefreshCw,
+  GripVertical,
+  History,
 } from 'lucide-react';
 import DevelopingEvidence from '@/components/ui/DevelopingEvidence';
+import ScriptHistory from '@/components/story/ScriptHistory';
 import { useAudio } from '@/components/layout/AudioProvider';
+import { evidenceHref, formatCodeReference } from '@/lib/citations';
+import type { CodeReference, FactCheckReport } from '@/lib/types';
 
 interface ScriptSegment {
   speaker: string;
@@ -29,6 +37,16 @@ interface ScriptSegment {
   startTime?: number;
   endTime?: number;
   duration?: number;
+  code_reference?: CodeReference;
+}
+
+type SegmentDraft = Pick<ScriptSegment, 'speaker' | 'text' | 'emotion' | 'sound_effect'>;
+
+// What the editor's pickers may offer, from the episode's narrative style
+interface StyleOptions {
+  speakers: { role: string; label: string; emotions?: string[] }[];
+  emotions: string[];
+  sound_effects: string[];
 }
 
 interface PodcastScript {
@@ -42,10 +60,18 @@ interface Podcast {
   id: string;
   repo_name: string;
   title: string;
+  narrative_style: string;
   status: string;
   audio_url?: string;
   duration?: number;
   script?: PodcastScript;
+  script_version?: number;
+  audio_script_version?: number;
+  script_generation?: {
+    status: 'generated' | 'repaired' | 'fallback';
+    errors: string[];
+  };
+  fact_check?: FactCheckReport;
   repo_metadata?: {
     name: string;
     description: string;
@@ -129,8 +155,16 @@ export default function StoryEditorPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [editingSegment, setEditingSegment] = useState<number | null>(null);
-  const [editedText, setEditedText] = useState('');
+  const [draft, setDraft] = useState<SegmentDraft | null>(null);
+  // Index of a segment that was inserted but not saved yet
+  const [insertedSegment, setInsertedSegment] = useState<number | null>(null);
+  const [draggedSegment, setDraggedSegment] = useState<number | null>(null);
+  const [styleOptions, setStyleOptions] = useState<StyleOptions | null>(null);
   const [saving, setSaving] = useState(false);
+  const [rewriteGuidance, setRewriteGuidance] = useState('');
+  const [rewriting, setRewriting] = useState<{ start: number; count: number } | null>(null);
+  const [scriptError, setScriptError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
   const [isCreatingPodcast, setIsCreatingPodcast] = useState(false);
   
   // Pagination State
@@ -282,56 +316,157 @@ export default function StoryEditorPage() {
     fetchPodcast();
   }, [fetchPodcast]);
 
-  const startEditing = (index: number, text: string) => {
+  useEffect(() => {
+    if (!podcast?.narrative_style) return;
+
+    fetch(`/api/styles/${podcast.narrative_style}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => setStyleOptions(data?.style ?? null))
+      .catch((err) => console.error('Failed to fetch style:', err));
+  }, [podcast?.narrative_style]);
+
+  const emotionsFor = (speaker: string) => {
+    const role = styleOptions?.speakers.find((candidate) => candidate.role === speaker);
+    return role?.emotions?.length ? role.emotions : styleOptions?.emotions || [];
+  };
+
+  const startEditing = (index: number, segment: SegmentDraft) => {
     setEditingSegment(index);
-    setEditedText(text);
+    setDraft({ speaker: segment.speaker, text: segment.text, emotion: segment.emotion, sound_effect: segment.sound_effect });
+    setScriptError(null);
   };
 
   const cancelEditing = () => {
+    // An inserted segment that was never saved goes away again
+    if (insertedSegment !== null && podcast?.script) {
+      setPodcast({
+        ...podcast,
+        script: {
+          ...podcast.script,
+          segments: podcast.script.segments.filter((_, i) => i !== insertedSegment),
+        },
+      });
+    }
     setEditingSegment(null);
-    setEditedText('');
+    setDraft(null);
+    setInsertedSegment(null);
   };
 
-  const saveSegment = async (index: number) => {
-    if (!podcast?.script) return;
+  // Persist the whole script; the server checks it against the style first
+  const saveScript = async (segments: ScriptSegment[]) => {
+    if (!podcast?.script) return false;
 
     setSaving(true);
+    setScriptError(null);
     try {
-      const updatedSegments = [...podcast.script.segments];
-      updatedSegments[index] = {
-        ...updatedSegments[index],
-        text: editedText,
-      };
-
       const response = await fetch(`/api/podcasts/${podcastId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           script: {
             ...podcast.script,
-            segments: updatedSegments,
+            segments,
           },
         }),
       });
 
-      if (response.ok) {
-        setPodcast({
-          ...podcast,
-          script: {
-            ...podcast.script,
-            segments: updatedSegments,
-          },
-        });
-        setEditingSegment(null);
-        setEditedText('');
+      if (!response.ok) {
+        const data = await response.json();
+        setScriptError(data.details?.join('; ') || data.error || 'Failed to save');
+        return false;
       }
+
+      await fetchPodcast();
+      return true;
     } catch (err) {
-      console.error('Failed to save segment:', err);
+      console.error('Failed to save script:', err);
+      setScriptError('Failed to save');
+      return false;
     } finally {
       setSaving(false);
     }
   };
 
+  const saveSegment = async (index: number) => {
+    if (!podcast?.script || !draft) return;
+
+    const updatedSegments = [...podcast.script.segments];
+    updatedSegments[index] = {
+      ...updatedSegments[index],
+      speaker: draft.speaker,
+      text: draft.text,
+      emotion: draft.emotion || undefined,
+      sound_effect: draft.sound_effect || undefined,
+    };
+
+    if (await saveScript(updatedSegments)) {
+      setEditingSegment(null);
+      setDraft(null);
+      setInsertedSegment(null);
+    }
+  };
+
+  const insertSegment = (at: number) => {
+    if (!podcast?.script) return;
+
+    const segments = podcast.script.segments;
+    const speaker = segments[at - 1]?.speaker ?? segments[at]?.speaker ?? styleOptions?.speakers[0]?.role ?? 'narrator';
+    setPodcast({
+      ...podcast,
+      script: {
+        ...podcast.script,
+        segments: [...segments.slice(0, at), { speaker, text: '' }, ...segments.slice(at)],
+      },
+    });
+    setCurrentPage(Math.floor(at / SEGMENTS_PER_PAGE) + 1);
+    setInsertedSegment(at);
+    startEditing(at, { speaker, text: '' });
+  };
+
+  const deleteSegment = async (index: number) => {
+    if (!podcast?.script || podcast.script.segments.length <= 1) return;
+    if (!window.confirm('Strike this statement from the record?')) return;
+
+    await saveScript(podcast.script.segments.filter((_, i) => i !== index));
+  };
+
+  const moveSegment = async (from: number, to: number) => {
+    if (!podcast?.script || from === to) return;
+
+    const segments = [...podcast.script.segments];
+    const [moved] = segments.splice(from, 1);
+    segments.splice(to, 0, moved);
+    await saveScript(segments);
+  };
+
+  const rewriteSegments = async (start: number, count: number) => {
+    setRewriting({ start, count });
+    setScriptError(null);
+    try {
+      const response = await fetch(`/api/podcasts/${podcastId}/segments/${start}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ count, guidance: rewriteGuidance.trim() || undefined }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to rewrite');
+      }
+
+      setEditingSegment(null);
+      setDraft(null);
+      await fetchPodcast();
+    } catch (err) {
+      setScriptError(err instanceof Error ? err.message : 'Failed to rewrite');
+    } finally {
+      setRewriting(null);
+    }
+  };
+
+  const isRewriting = (index: number) =>
+    rewriting !== null && index >= rewriting.start && index < rewriting.start + rewriting.count;
+
   const createPodcast = async () => {
     setIsCreatingPodcast(true);
     try {
@@ -355,6 +490,8 @@ export default function StoryEditorPage() {
   const getSpeakerLabel = (speaker: string) => {
     if (!speaker) return 'UNKNOWN';
     const s = speaker.toLowerCase();
+    if (s === 'comic') return 'THE COMIC';
+    if (s === 'heckler') return 'HECKLER';
     if (s.includes('1') || s.includes('host') || s.includes('narrator')) return 'INTERROGATOR';
     if (s.includes('2') || s.includes('guest')) return 'WITNESS';
     return 'SUBJECT';
@@ -722,7 +859,49 @@ export default function StoryEditorPage() {
                 <span className="bg-zinc-900 border border-zinc-700 px-2 py-1 text-red-500 break-all">Target: {podcast.repo_name}</span>
                 <span className="border border-zinc-700 px-2 py-1">Lang: {podcast.repo_metadata?.language || 'Unknown'}</span>
                 <span className="border border-zinc-700 px-2 py-1">Stars: {podcast.repo_metadata?.stars || 0}</span>
+                {podcast.script_generation && podcast.script_generation.status !== 'generated' && (
+                  <span
+                    className={`border px-2 py-1 ${
+                      podcast.script_generation.status === 'fallback'
+                        ? 'border-red-800 text-red-500'
+                        : 'border-yellow-700 text-yellow-500'
+                    }`}
+                    title={podcast.script_generation.errors.join('\n')}
+                  >
+                    {podcast.script_generation.status === 'fallback' ? 'Fallback Script' : 'Repaired Script'}
+                  </span>
+                )}
+                {podcast.fact_check && (
+                  <span
+                    className={`border px-2 py-1 ${
+                      podcast.fact_check.flagged > 0 ? 'border-yellow-700 text-yellow-500' : 'border-zinc-700'
+                    }`}
+                    title={`${podcast.fact_check.rewritten} segment(s) corrected, ${podcast.fact_check.flagged} flagged`}
+                  >
+                    Fact Check: {Math.round(podcast.fact_check.confidence * 100)}%
+                  </span>
+                )}
+                {podcast.audio_url && podcast.audio_script_version !== undefined && podcast.audio_script_version !== podcast.script_version && (
+                  <span
+                    className="border border-yellow-700 text-yellow-500 px-2 py-1"
+                    title={`The recording is of script v${podcast.audio_script_version}; the script is now v${podcast.script_version}`}
+                  >
+                    Tape Predates Edits
+                  </span>
+                )}
               </div>
+              {podcast.script_generation && podcast.script_generation.errors.length > 0 && (
+                <details className="mt-3 text-[10px] md:text-xs font-mono text-gray-500 max-w-2xl">
+                  <summary className="cursor-pointer uppercase tracking-wider">
+                    {podcast.script_generation.errors.length} validation error(s)
+                  </summary>
+                  <ul className="mt-2 space-y-1 list-disc list-inside">
+                    {podcast.script_generation.errors.map((error, i) => (
+                      <li key={i} className="break-all">{error}</li>
+                    ))}
+                  </ul>
+                </details>
+              )}
             </div>
 
             {/* Psychological Profile Box - Sticky Note */}
@@ -983,6 +1162,46 @@ export default function StoryEditorPage() {
 
           <div className="space-y-8 font-mono text-sm md:text-base leading-relaxed max-w-3xl mx-auto text-black relative z-10 min-h-[60vh]">
             <AnimatePresence mode="wait">
+              {showHistory && !printMode && script && (
+                <ScriptHistory
+                  podcastId={podcastId}
+                  segments={script.segments}
+                  scriptVersion={podcast.script_version}
+                  labelFor={getSpeakerLabel}
+                  onRestored={fetchPodcast}
+                  onClose={() => setShowHistory(false)}
+                />
+              )}
+              {!printMode && displayedSegments.length > 0 && (
+                <div className="mb-8 flex flex-col md:flex-row gap-2 text-xs font-mono print-hidden">
+                  <input
+                    value={rewriteGuidance}
+                    onChange={(e) => setRewriteGuidance(e.target.value)}
+                    maxLength={500}
+                    placeholder="Direction for rewrites (optional), e.g. make it funnier"
+                    className="flex-1 bg-white/60 border border-gray-400 px-2 py-1 focus:border-black focus:outline-none"
+                  />
+                  <button
+                    onClick={() => rewriteSegments((currentPage - 1) * SEGMENTS_PER_PAGE, displayedSegments.length)}
+                    disabled={rewriting !== null || editingSegment !== null}
+                    className="px-3 py-1 uppercase font-bold border border-gray-600 hover:bg-black/5 disabled:opacity-50 inline-flex items-center justify-center gap-1"
+                  >
+                    <RefreshCw className={`w-3 h-3 ${rewriting && rewriting.count > 1 ? 'animate-spin' : ''}`} />
+                    Rewrite Whole Act
+                  </button>
+                  <button
+                    onClick={() => setShowHistory(!showHistory)}
+                    disabled={editingSegment !== null}
+                    className="px-3 py-1 uppercase font-bold border border-gray-600 hover:bg-black/5 disabled:opacity-50 inline-flex items-center justify-center gap-1"
+                  >
+                    <History className="w-3 h-3" />
+                    History
+                  </button>
+                </div>
+              )}
+              {scriptError && !printMode && (
+                <div className="mb-6 text-xs font-mono text-red-700 print-hidden">Not saved: {scriptError}</div>
+              )}
               <motion.div
                 key={currentPage}
                 initial={{ opacity: 0, x: 20 }}
@@ -993,14 +1212,26 @@ export default function StoryEditorPage() {
                 {displayedSegments.map((segment, index) => {
                   const globalIndex = (currentPage - 1) * SEGMENTS_PER_PAGE + index;
                   const isActive = globalIndex === activeSegmentIndex;
+                  const factCheck = podcast.fact_check?.segments.find((report) => report.index === globalIndex);
                   
                   return (
                   <div
                     key={index}
                     id={`segment-${globalIndex}`}
+                    draggable={!printMode && editingSegment === null && !saving}
+                    onDragStart={() => setDraggedSegment(globalIndex)}
+                    onDragEnd={() => setDraggedSegment(null)}
+                    onDragOver={(e) => draggedSegment !== null && e.preventDefault()}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      if (draggedSegment !== null) moveSegment(draggedSegment, globalIndex);
+                      setDraggedSegment(null);
+                    }}
                     className={`relative group mb-8 transition-all duration-700 ease-in-out ${
-                        editingSegment === globalIndex ? 'bg-yellow-50 -mx-4 p-4 border border-yellow-200 shadow-inner' : ''
+                        draggedSegment === globalIndex ? 'opacity-40' : ''
                     } ${
+                        editingSegment === globalIndex ? 'bg-yellow-50 -mx-4 p-4 border border-yellow-200 shadow-inner' : ''
+                    } ${isRewriting(globalIndex) ? 'animate-pulse' : ''} ${
                         isActive 
                             ? 'opacity-100 scale-[1.01] blur-none' 
                             : isPlaying 
@@ -1029,18 +1260,102 @@ export default function StoryEditorPage() {
                             [{segment.emotion}]
                           </span>
                         )}
+                        {segment.sound_effect && (
+                          <span className="text-[10px] text-gray-500 uppercase italic block">
+                            [SFX: {segment.sound_effect}]
+                          </span>
+                        )}
+                        {!printMode && editingSegment === null && (
+                          <div className="mt-2 flex flex-col items-end gap-1 text-[10px] font-mono uppercase text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity print-hidden">
+                            <span className="cursor-grab inline-flex items-center gap-1" title="Drag to move">
+                              <GripVertical className="w-3 h-3" /> Move
+                            </span>
+                            <button onClick={() => insertSegment(globalIndex)} disabled={saving} className="hover:text-black">
+                              [+ Before]
+                            </button>
+                            <button onClick={() => insertSegment(globalIndex + 1)} disabled={saving} className="hover:text-black">
+                              [+ After]
+                            </button>
+                            {(script?.segments.length ?? 0) > 1 && (
+                              <button onClick={() => deleteSegment(globalIndex)} disabled={saving} className="hover:text-red-700">
+                                [Strike]
+                              </button>
+                            )}
+                          </div>
+                        )}
                       </div>
                       
                       <div className="flex-1 relative pl-2">
                         {editingSegment === globalIndex ? (
                           <div className="space-y-3">
+                            <div className="flex flex-wrap gap-2 text-xs font-mono">
+                              <select
+                                value={draft?.speaker || ''}
+                                onChange={(e) => {
+                                  const speaker = e.target.value;
+                                  setDraft((current) => current && {
+                                    ...current,
+                                    speaker,
+                                    // Speakers can have their own emotions
+                                    emotion: current.emotion && emotionsFor(speaker).includes(current.emotion) ? current.emotion : undefined,
+                                  });
+                                }}
+                                className="bg-white border border-gray-300 px-2 py-1 focus:border-black focus:outline-none"
+                                aria-label="Speaker"
+                              >
+                                {(styleOptions?.speakers || [{ role: segment.speaker, label: getSpeakerLabel(segment.speaker) }]).map((speaker) => (
+                                  <option key={speaker.role} value={speaker.role}>{speaker.label}</option>
+                                ))}
+                              </select>
+                              {draft && emotionsFor(draft.speaker).length > 0 && (
+                                <select
+                                  value={draft.emotion || ''}
+                                  onChange={(e) => setDraft({ ...draft, emotion: e.target.value || undefined })}
+                                  className="bg-white border border-gray-300 px-2 py-1 focus:border-black focus:outline-none"
+                                  aria-label="Emotion"
+                                >
+                                  <option value="">No emotion</option>
+                                  {emotionsFor(draft.speaker).map((emotion) => (
+                                    <option key={emotion} value={emotion}>{emotion}</option>
+                                  ))}
+                                </select>
+                              )}
+                              {draft && styleOptions && styleOptions.sound_effects.length > 0 && (
+                                <select
+                                  value={draft.sound_effect || ''}
+                                  onChange={(e) => setDraft({ ...draft, sound_effect: e.target.value || undefined })}
+                                  className="bg-white border border-gray-300 px-2 py-1 focus:border-black focus:outline-none"
+                                  aria-label="Sound effect"
+                                >
+                                  <option value="">No sound effect</option>
+                                  {styleOptions.sound_effects.map((effect) => (
+                                    <option key={effect} value={effect}>{effect}</option>
+                                  ))}
+                                </select>
+                              )}
+                            </div>
                             <textarea
-                              value={editedText}
-                              onChange={(e) => setEditedText(e.target.value)}
+                              value={draft?.text || ''}
+                              onChange={(e) => setDraft((current) => current && { ...current, text: e.target.value })}
                               className="w-full h-32 bg-white border border-gray-300 p-3 font-typewriter focus:border-black focus:outline-none resize-none shadow-inner"
                               autoFocus
                             />
+                            <input
+                              value={rewriteGuidance}
+                              onChange={(e) => setRewriteGuidance(e.target.value)}
+                              maxLength={500}
+                              placeholder="Direction for the rewrite (optional), e.g. mention the auth module"
+                              className="w-full bg-white border border-gray-300 px-3 py-1 text-xs font-mono focus:border-black focus:outline-none"
+                            />
                             <div className="flex justify-end gap-2">
+                              <button
+                                onClick={() => rewriteSegments(globalIndex, 1)}
+                                disabled={saving || rewriting !== null || insertedSegment !== null}
+                                className="mr-auto px-3 py-1 text-xs uppercase font-bold border border-gray-400 hover:bg-gray-100 disabled:opacity-50 inline-flex items-center gap-1"
+                              >
+                                <RefreshCw className={`w-3 h-3 ${isRewriting(globalIndex) ? 'animate-spin' : ''}`} />
+                                {isRewriting(globalIndex) ? 'Rewriting...' : 'Rewrite This'}
+                              </button>
                               <button
                                 onClick={cancelEditing}
                                 className="px-3 py-1 text-xs uppercase font-bold border border-gray-400 hover:bg-gray-100"
@@ -1049,7 +1364,7 @@ export default function StoryEditorPage() {
                               </button>
                               <button
                                 onClick={() => saveSegment(globalIndex)}
-                                disabled={saving}
+                                disabled={saving || !draft?.text.trim()}
                                 className="px-3 py-1 text-xs uppercase font-bold bg-black text-white hover:bg-gray-800"
                               >
                                 {saving ? 'Saving...' : 'Update Record'}
@@ -1058,7 +1373,7 @@ export default function StoryEditorPage() {
                           </div>
                         ) : (
                           <div 
-                            onClick={() => !printMode && startEditing(globalIndex, segment.text)}
+                            onClick={() => !printMode && editingSegment === null && startEditing(globalIndex, segment)}
                             className={`${!printMode ? 'cursor-text hover:bg-black/5' : ''} p-1 -m-1 rounded transition-colors font-typewriter`}
                           >
                             {/* Typewriter Reveal Effect for Active Segment */}
@@ -1075,6 +1390,38 @@ export default function StoryEditorPage() {
                             )}
                           </div>
                         )}
+                        {segment.code_reference && !printMode && (
+                          <Link
+                            href={evidenceHref(podcast.id, segment.code_reference)}
+                            className={`mt-2 inline-flex items-center gap-1 text-[10px] font-mono uppercase tracking-wider hover:underline ${
+                              segment.code_reference.verified === false ? 'text-gray-400 line-through' : 'text-red-800'
+                            }`}
+                            title={segment.code_reference.verified === false ? 'Cited lines do not exist in this file' : 'Open in the Evidence Locker'}
+                          >
+                            <Paperclip className="w-3 h-3" />
+                            Exhibit: {formatCodeReference(segment.code_reference)}
+                          </Link>
+                        )}
+                        {factCheck && (factCheck.flagged || factCheck.original_text) && !printMode && (
+                          <div className="mt-2 flex flex-wrap gap-2 text-[10px] font-mono uppercase tracking-wider">
+                            {factCheck.flagged && (
+                              <span
+                                className="border border-yellow-700 bg-yellow-100 text-yellow-800 px-1"
+                                title={factCheck.claims
+                                  .filter((claim) => claim.status !== 'supported')
+                                  .map((claim) => `${claim.status}: ${claim.text}`)
+                                  .join('\n')}
+                              >
+                                Unverified claims ({Math.round(factCheck.confidence * 100)}% confidence)
+                              </span>
+                            )}
+                            {factCheck.original_text && (
+                              <span className="border border-gray-400 text-gray-600 px-1" title={factCheck.original_text}>
+                                Figures corrected from the repository data
+                              </span>
+                            )}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
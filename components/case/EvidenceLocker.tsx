@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { FileNode } from '@/lib/github/client';
 import { fetchFileContent } from '@/app/case/actions';
 import { Folder, FileText, FileWarning, ArrowLeft, Loader2, ChevronRight, ChevronDown } from 'lucide-react';
@@ -81,9 +81,11 @@ const getLanguageFromPath = (path: string): string => {
 
 interface EvidenceLockerProps {
   files: FileNode[];
-  owner: string;
-  repo: string;
+  // Case whose repository (at its pinned commit) the files are read from
+  podcastId: string;
   totalFiles: number;
+  // File (and lines) to open straight away, e.g. from a script citation
+  initialFile?: { path: string; startLine?: number; endLine?: number };
 }
 
 interface TreeNode {
@@ -209,26 +211,27 @@ const FileTreeItem = ({
   );
 };
 
-export default function EvidenceLocker({ files, owner, repo, totalFiles }: EvidenceLockerProps) {
+export default function EvidenceLocker({ files, podcastId, totalFiles, initialFile }: EvidenceLockerProps) {
   const [selectedFile, setSelectedFile] = useState<FileNode | null>(null);
   const [fileContent, setFileContent] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [highlight, setHighlight] = useState<{ start: number; end: number } | null>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
 
   const fileTree = React.useMemo(() => buildTree(files), [files]);
 
-  const handleNodeSelect = async (node: TreeNode) => {
-    if (node.type === 'dir') return;
-
+  const openFile = useCallback(async (path: string, lines?: { start: number; end: number }) => {
     // Convert TreeNode to FileNode for state
-    const file: FileNode = { path: node.path, type: 'file' }; 
+    const file: FileNode = { path, type: 'file' }; 
     setSelectedFile(file);
+    setHighlight(lines || null);
     setLoading(true);
     setError(null);
     setFileContent(null);
 
     try {
-      const result = await fetchFileContent(owner, repo, file.path);
+      const result = await fetchFileContent(podcastId, file.path);
       if (result.success && result.content) {
         setFileContent(result.content);
       } else {
@@ -239,14 +242,38 @@ export default function EvidenceLocker({ files, owner, repo, totalFiles }: Evide
     } finally {
       setLoading(false);
     }
+  }, [podcastId]);
+
+  const handleNodeSelect = (node: TreeNode) => {
+    if (node.type === 'dir') return;
+    openFile(node.path);
   };
 
   const handleBack = () => {
     setSelectedFile(null);
     setFileContent(null);
     setError(null);
+    setHighlight(null);
   };
 
+  // Open the cited file once, on arrival from an evidence link
+  useEffect(() => {
+    if (initialFile) {
+      openFile(
+        initialFile.path,
+        initialFile.startLine
+          ? { start: initialFile.startLine, end: initialFile.endLine || initialFile.startLine }
+          : undefined
+      );
+    }
+  }, [initialFile, openFile]);
+
+  useEffect(() => {
+    if (fileContent && highlight) {
+      highlightRef.current?.scrollIntoView({ block: 'center' });
+    }
+  }, [fileContent, highlight]);
+
   return (
     <div className="h-full flex flex-col bg-[#0a0a0a] border border-zinc-800 shadow-2xl relative overflow-hidden">
       {/* Coffee Stain Overlay */}
@@ -304,8 +331,15 @@ export default function EvidenceLocker({ files, owner, repo, totalFiles }: Evide
                         className="font-mono text-xs leading-relaxed p-4"
                         style={{ ...style, background: 'transparent', margin: 0 }}
                       >
-                        {tokens.map((line, i) => (
-                          <div key={i} {...getLineProps({ line })} className="table-row">
+                        {tokens.map((line, i) => {
+                          const highlighted = !!highlight && i + 1 >= highlight.start && i + 1 <= highlight.end;
+                          return (
+                          <div
+                            key={i}
+                            {...getLineProps({ line })}
+                            ref={highlighted && i + 1 === highlight.start ? highlightRef : undefined}
+                            className={`table-row ${highlighted ? 'bg-red-900/20' : ''}`}
+                          >
                             <span className="table-cell text-right pr-4 select-none text-zinc-700 w-8">
                               {i + 1}
                             </span>
@@ -315,7 +349,8 @@ export default function EvidenceLocker({ files, owner, repo, totalFiles }: Evide
                               ))}
                             </span>
                           </div>
-                        ))}
+                          );
+                        })}
                       </pre>
                     )}
                   </Highlight>
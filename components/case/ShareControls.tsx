@@ -0,0 +1,107 @@
+'use client';
+
+import { useState } from 'react';
+import { Link2, Loader2 } from 'lucide-react';
+import type { PodcastVisibility } from '@/lib/types';
+
+interface ShareControlsProps {
+  podcastId: string;
+  visibility: PodcastVisibility;
+  // Cases of private repositories can't be public
+  isPrivateRepo: boolean;
+}
+
+const VISIBILITY_LABELS: Record<PodcastVisibility, string> = {
+  public: 'Public',
+  unlisted: 'Unlisted',
+  private: 'Private',
+};
+
+export default function ShareControls({ podcastId, visibility: initialVisibility, isPrivateRepo }: ShareControlsProps) {
+  const [visibility, setVisibility] = useState(initialVisibility);
+  const [shareLink, setShareLink] = useState<{ url: string; expires_at: string } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = async (path: string, init: RequestInit) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/podcasts/${podcastId}${path}`, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Request failed');
+        return null;
+      }
+      return data;
+    } catch {
+      setError('Failed to reach the records office.');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const changeVisibility = async (next: PodcastVisibility) => {
+    if (await request('', { method: 'PATCH', body: JSON.stringify({ visibility: next }) })) {
+      setVisibility(next);
+      setShareLink(null);
+    }
+  };
+
+  const createLink = async () => {
+    const data = await request('/share', { method: 'POST', body: JSON.stringify({}) });
+    if (data) {
+      setShareLink(data);
+      await navigator.clipboard?.writeText(data.url).catch(() => undefined);
+    }
+  };
+
+  const revokeLinks = async () => {
+    if (!confirm('Revoke every share link issued for this case?')) return;
+    if (await request('/share', { method: 'DELETE' })) {
+      setShareLink(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-start md:items-end gap-1 mt-2 font-typewriter">
+      <div className="flex items-center gap-2">
+        <label className="uppercase tracking-widest text-zinc-600" htmlFor="case-visibility">Clearance:</label>
+        <select
+          id="case-visibility"
+          value={visibility}
+          disabled={busy}
+          onChange={(e) => changeVisibility(e.target.value as PodcastVisibility)}
+          className="bg-zinc-900 border border-zinc-800 text-zinc-300 px-2 py-0.5 uppercase tracking-widest"
+        >
+          {(Object.keys(VISIBILITY_LABELS) as PodcastVisibility[]).map((option) => (
+            <option key={option} value={option} disabled={option === 'public' && isPrivateRepo}>
+              {VISIBILITY_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        {busy && <Loader2 className="w-3 h-3 animate-spin" />}
+      </div>
+      {visibility === 'unlisted' && (
+        <div className="flex items-center gap-3 uppercase tracking-widest">
+          <button onClick={createLink} disabled={busy} className="flex items-center gap-1 text-zinc-400 hover:text-green-400 disabled:opacity-50">
+            <Link2 className="w-3 h-3" /> Copy Share Link
+          </button>
+          <button onClick={revokeLinks} disabled={busy} className="text-zinc-600 hover:text-red-500 disabled:opacity-50">
+            Revoke Links
+          </button>
+        </div>
+      )}
+      {shareLink && (
+        <div className="text-zinc-500 normal-case tracking-normal break-all max-w-xs">
+          Copied. Expires {new Date(shareLink.expires_at).toLocaleDateString()}.
+        </div>
+      )}
+      {error && <div className="text-red-600 normal-case tracking-normal">{error}</div>}
+    </div>
+  );
+}
@@ -5,11 +5,12 @@ import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Github, Mic, Skull, Zap, Eye, Sparkles, Loader2, FileText, Clock, AlertTriangle, CheckCircle2, XCircle, Play, Menu, X, Monitor } from 'lucide-react';
-import { NarrativeStyle, AnalysisStatus } from '@/lib/types';
+import { NarrativeStyle, AnalysisStatus, AnalysisProgressEvent, StyleDefinition, StyleId } from '@/lib/types';
+import { subscribeToPodcastEvents } from '@/lib/podcast-events-client';
 import DevelopingEvidence from '@/components/ui/DevelopingEvidence';
 import { useAudio } from '@/components/layout/AudioProvider';
 
-const NARRATIVE_STYLES = [
+const NARRATIVE_STYLES: { id: StyleId; name: string; icon: typeof Mic; description: string; disabled: boolean }[] = [
   {
     id: NarrativeStyle.TRUE_CRIME,
     name: 'True Crime',
@@ -35,8 +36,8 @@ const NARRATIVE_STYLES = [
     id: NarrativeStyle.COMEDY,
     name: 'Comedy Roast',
     icon: Sparkles,
-    description: 'Coming soon...',
-    disabled: true,
+    description: 'Stand-up roast with a heckler',
+    disabled: false,
   },
 ];
 
@@ -48,9 +49,10 @@ interface LandingPageProps {
 export default function LandingPage({ initialPodcasts, initialStats }: LandingPageProps) {
   const router = useRouter();
   const [repoUrl, setRepoUrl] = useState('');
-  const [selectedStyle, setSelectedStyle] = useState<NarrativeStyle>(
+  const [selectedStyle, setSelectedStyle] = useState<StyleId>(
     NarrativeStyle.TRUE_CRIME
   );
+  const [customStyles, setCustomStyles] = useState<typeof NARRATIVE_STYLES>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [currentPodcast, setCurrentPodcast] = useState<any>(null);
   const [podcasts, setPodcasts] = useState<any[]>(initialPodcasts || []);
@@ -74,6 +76,26 @@ export default function LandingPage({ initialPodcasts, initialStats }: LandingPa
     }
   }, []);
 
+  // Custom personas stored through /api/styles
+  useEffect(() => {
+    fetch('/api/styles')
+      .then((response) => (response.ok ? response.json() : { styles: [] }))
+      .then((data: { styles: StyleDefinition[] }) => {
+        setCustomStyles(
+          data.styles
+            .filter((style) => !style.builtin)
+            .map((style) => ({
+              id: style.id,
+              name: style.name,
+              icon: Mic,
+              description: style.description,
+              disabled: false,
+            }))
+        );
+      })
+      .catch((error) => console.error('Failed to load custom styles:', error));
+  }, []);
+
   const dismissMobileWarning = () => {
     setShowMobileWarning(false);
     localStorage.setItem('noir-mobile-warning-dismissed', 'true');
@@ -128,11 +150,18 @@ export default function LandingPage({ initialPodcasts, initialStats }: LandingPa
         }),
       });
 
+      // Opening a case takes a badge
+      if (response.status === 401) {
+        setIsAnalyzing(false);
+        router.push('/login?next=/');
+        return;
+      }
+
       const data = await response.json();
 
       if (response.ok) {
         setCurrentPodcast({ id: data.id, status: data.status });
-        pollPodcastStatus(data.id);
+        watchPodcastStatus(data.id);
       } else {
         alert(`Error: ${data.error}`);
         setIsAnalyzing(false);
@@ -144,24 +173,47 @@ export default function LandingPage({ initialPodcasts, initialStats }: LandingPa
     }
   };
 
-  const pollPodcastStatus = async (podcastId: string) => {
+  // Returns true once the investigation has reached a final state
+  const handleStatusUpdate = (data: AnalysisProgressEvent) => {
+    setCurrentPodcast(data);
+
+    if (data.status === AnalysisStatus.COMPLETED) {
+      setIsAnalyzing(false);
+      // Redirect to case file page
+      router.push('/case');
+      return true;
+    } else if (data.status === AnalysisStatus.FAILED || data.status === AnalysisStatus.CANCELLED) {
+      setIsAnalyzing(false);
+      refreshPodcasts();
+      refreshStats();
+      return true;
+    }
+    return false;
+  };
+
+  const watchPodcastStatus = (podcastId: string) => {
+    const unsubscribe = subscribeToPodcastEvents(
+      podcastId,
+      {
+        onProgress: (data) => {
+          if (handleStatusUpdate(data)) {
+            unsubscribe();
+          }
+        },
+      },
+      () => pollPodcastStatus(podcastId)
+    );
+  };
+
+  // Fallback when the event stream is unavailable
+  const pollPodcastStatus = (podcastId: string) => {
     const interval = setInterval(async () => {
       try {
         const response = await fetch(`/api/analyze/${podcastId}/status`);
         const data = await response.json();
 
-        setCurrentPodcast(data);
-
-        if (data.status === AnalysisStatus.COMPLETED) {
+        if (handleStatusUpdate(data)) {
           clearInterval(interval);
-          setIsAnalyzing(false);
-          // Redirect to case file page
-          router.push('/case');
-        } else if (data.status === AnalysisStatus.FAILED) {
-          clearInterval(interval);
-          setIsAnalyzing(false);
-          refreshPodcasts();
-          refreshStats();
         }
       } catch (error) {
         console.error('Error polling status:', error);
@@ -169,6 +221,8 @@ export default function LandingPage({ initialPodcasts, initialStats }: LandingPa
         setIsAnalyzing(false);
       }
     }, 2000);
+
+    return () => clearInterval(interval);
   };
 
   return (
@@ -604,7 +658,13 @@ export default function LandingPage({ initialPodcasts, initialStats }: LandingPa
                     </div>
                   </div>
                   
-                  <div className="flex justify-center sm:justify-end mt-2">
+                  <div className="flex flex-col-reverse sm:flex-row items-center justify-center sm:justify-between gap-3 mt-2">
+                    <a
+                      href="/api/auth/github/connect"
+                      className="text-xs md:text-sm font-typewriter uppercase tracking-widest text-black/60 hover:text-red-800 underline underline-offset-4"
+                    >
+                      Private repo? Connect GitHub
+                    </a>
                     <button
                       type="submit"
                       disabled={isAnalyzing || !repoUrl.trim()}
@@ -651,7 +711,7 @@ export default function LandingPage({ initialPodcasts, initialStats }: LandingPa
             </div>
             
             <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 md:gap-6">
-              {NARRATIVE_STYLES.map((style) => {
+              {[...NARRATIVE_STYLES, ...customStyles].map((style) => {
                 const Icon = style.icon;
                 const isSelected = selectedStyle === style.id;
                 
@@ -710,7 +770,7 @@ export default function LandingPage({ initialPodcasts, initialStats }: LandingPa
               </div>
               <h4 className="font-semibold mb-2 text-sm md:text-base">Submit Repository</h4>
               <p className="text-xs md:text-sm text-gray-400">
-                Paste any GitHub URL and we'll analyze the codebase structure
+                Paste any GitHub, GitLab or Bitbucket URL and we'll analyze the codebase structure
               </p>
             </div>
             <div className="bg-gray-800/30 border border-gray-700/50 rounded-xl p-4 md:p-6 text-center">
@@ -916,6 +976,11 @@ export default function LandingPage({ initialPodcasts, initialStats }: LandingPa
                   stampText: 'COLD CASE',
                   icon: XCircle,
                 },
+                [AnalysisStatus.CANCELLED]: {
+                  stampColor: 'text-gray-600 border-gray-600',
+                  stampText: 'CALLED OFF',
+                  icon: XCircle,
+                },
                 'default': {
                   stampColor: 'text-yellow-600 border-yellow-600',
                   stampText: 'UNDER INVESTIGATION',
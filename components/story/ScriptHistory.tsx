@@ -0,0 +1,193 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { History, Loader2, RotateCcw, X } from 'lucide-react';
+import { diffSegments, type SegmentDiffRow } from '@/lib/script-diff';
+import type { PodcastScript, ScriptSegment, ScriptVersion } from '@/lib/types';
+
+type VersionSummary = Omit<ScriptVersion, 'script' | 'created_at'> & {
+  title: string;
+  segment_count: number;
+  created_at: string;
+};
+
+interface ScriptHistoryProps {
+  podcastId: string;
+  segments: ScriptSegment[];
+  scriptVersion?: number;
+  labelFor: (speaker: string) => string;
+  onRestored: () => void;
+  onClose: () => void;
+}
+
+const CAUSE_LABELS: Record<ScriptVersion['cause'], string> = {
+  generated: 'Generated',
+  edited: 'Edited',
+  regenerated: 'Rewritten',
+  restored: 'Restored',
+};
+
+const ROW_STYLES: Record<SegmentDiffRow['kind'], string> = {
+  same: 'text-gray-500',
+  changed: 'bg-yellow-100/70',
+  removed: 'bg-red-100/70',
+  added: 'bg-green-100/70',
+};
+
+export default function ScriptHistory({
+  podcastId,
+  segments,
+  scriptVersion,
+  labelFor,
+  onRestored,
+  onClose,
+}: ScriptHistoryProps) {
+  const [versions, setVersions] = useState<VersionSummary[]>([]);
+  const [audioVersion, setAudioVersion] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<{ version: number; script: PodcastScript } | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/podcasts/${podcastId}/versions`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch versions');
+      }
+      setVersions(data.versions);
+      setAudioVersion(data.audio);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch versions');
+    } finally {
+      setLoading(false);
+    }
+  }, [podcastId]);
+
+  useEffect(() => {
+    fetchVersions();
+  }, [fetchVersions, scriptVersion]);
+
+  const selectVersion = async (version: number) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/podcasts/${podcastId}/versions/${version}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch version');
+      }
+      setSelected({ version, script: data.version.script });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch version');
+    }
+  };
+
+  const restore = async () => {
+    if (!selected) return;
+
+    setRestoring(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/podcasts/${podcastId}/versions/${selected.version}/restore`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to restore');
+      }
+      setSelected(null);
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const rows = selected ? diffSegments(selected.script.segments, segments) : [];
+
+  const renderSide = (side?: { index: number; segment: ScriptSegment }) =>
+    side ? (
+      <div>
+        <span className="font-bold uppercase text-[10px] tracking-wider text-gray-600">
+          {side.index + 1}. {labelFor(side.segment.speaker)}
+          {side.segment.emotion && ` [${side.segment.emotion}]`}
+          {side.segment.sound_effect && ` [SFX: ${side.segment.sound_effect}]`}
+        </span>
+        <p className="font-typewriter">{side.segment.text}</p>
+      </div>
+    ) : null;
+
+  return (
+    <div className="mb-8 border border-gray-400 bg-white/60 p-4 text-xs font-mono print-hidden">
+      <div className="flex items-center justify-between mb-3">
+        <span className="font-bold uppercase tracking-widest inline-flex items-center gap-2">
+          <History className="w-4 h-4" /> Case History
+        </span>
+        <button onClick={onClose} className="hover:text-red-700" aria-label="Close history">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {loading ? (
+        <Loader2 className="w-4 h-4 animate-spin" />
+      ) : versions.length === 0 ? (
+        <p className="text-gray-500">No revisions on record yet.</p>
+      ) : (
+        <ul className="space-y-1 max-h-40 overflow-y-auto">
+          {versions.map((version) => (
+            <li key={version.version}>
+              <button
+                onClick={() => selectVersion(version.version)}
+                className={`w-full text-left px-2 py-1 border ${
+                  selected?.version === version.version ? 'border-black bg-yellow-50' : 'border-transparent hover:bg-black/5'
+                }`}
+              >
+                <span className="font-bold">v{version.version}</span> · {CAUSE_LABELS[version.cause]}
+                {version.restored_from !== undefined && ` v${version.restored_from}`} · {version.author} ·{' '}
+                {new Date(version.created_at).toLocaleString()} · {version.segment_count} segments
+                {version.version === scriptVersion && <span className="ml-2 border border-black px-1 uppercase">Current</span>}
+                {version.version === audioVersion && <span className="ml-2 border border-red-700 text-red-700 px-1 uppercase">On Tape</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="mt-2 text-red-700">{error}</p>}
+
+      {selected && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between mb-2">
+            <span className="uppercase tracking-wider text-gray-600">
+              v{selected.version} against the current script
+            </span>
+            {selected.version !== scriptVersion && (
+              <button
+                onClick={restore}
+                disabled={restoring}
+                className="px-3 py-1 uppercase font-bold bg-black text-white hover:bg-gray-800 disabled:opacity-50 inline-flex items-center gap-1"
+              >
+                <RotateCcw className="w-3 h-3" />
+                {restoring ? 'Restoring...' : `Restore v${selected.version}`}
+              </button>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-x-4 border-t border-gray-300">
+            <div className="py-1 font-bold uppercase text-gray-600 border-b border-gray-300">v{selected.version}</div>
+            <div className="py-1 font-bold uppercase text-gray-600 border-b border-gray-300">Current</div>
+            {rows.map((row, i) => (
+              <React.Fragment key={i}>
+                <div className={`py-2 px-1 border-b border-gray-200 ${row.before ? ROW_STYLES[row.kind] : ''}`}>
+                  {renderSide(row.before)}
+                </div>
+                <div className={`py-2 px-1 border-b border-gray-200 ${row.after ? ROW_STYLES[row.kind] : ''}`}>
+                  {renderSide(row.after)}
+                </div>
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+export async function register() {
+  // Long-running Node servers poll the job queue so investigations that were
+  // in flight when the server went down are picked up again. On Vercel the
+  // queue is drained by /api/analyze and the /api/jobs/tick cron instead.
+  if (
+    process.env.NEXT_RUNTIME === 'nodejs' &&
+    process.env.MONGODB_URI &&
+    !process.env.VERCEL &&
+    process.env.JOB_WORKER !== 'off'
+  ) {
+    const { startWorkerLoop } = await import('./lib/jobs/worker');
+    startWorkerLoop();
+  }
+}
@@ -0,0 +1,117 @@
+import { z } from 'zod/v4';
+import { API_OPERATIONS, ApiOperation, ErrorResponseSchema } from './schemas';
+
+type JsonSchema = Record<string, unknown>;
+
+const STATUS_DESCRIPTIONS: Record<number, string> = {
+  200: 'OK',
+  202: 'Accepted; poll the status endpoint',
+  400: 'Invalid request',
+  401: 'Missing or unknown API key',
+  402: 'Not enough ElevenLabs credits',
+  403: 'The API key lacks the scope, or you may not modify the case',
+  404: 'No such case, or you may not see it',
+  429: 'Rate limit or usage quota exceeded; see Retry-After when rate limited',
+};
+
+function toJsonSchema(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+  const jsonSchema = z.toJSONSchema(schema, { io, unrepresentable: 'any' }) as JsonSchema;
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+function toParameters(operation: ApiOperation): JsonSchema[] {
+  const parameters: JsonSchema[] = [];
+
+  if (operation.path.includes('{id}')) {
+    parameters.push({ name: 'id', in: 'path', required: true, schema: { type: 'string' } });
+  }
+
+  if (operation.query) {
+    const { properties = {}, required = [] } = toJsonSchema(operation.query, 'input') as {
+      properties?: Record<string, JsonSchema>;
+      required?: string[];
+    };
+    for (const [name, schema] of Object.entries(properties)) {
+      const { description, ...rest } = schema;
+      parameters.push({ name, in: 'query', required: required.includes(name), description, schema: rest });
+    }
+  }
+
+  return parameters;
+}
+
+function toSuccessContent(operation: ApiOperation): JsonSchema {
+  if (operation.response === 'audio') {
+    return { 'audio/mpeg': { schema: { type: 'string', format: 'binary' } } };
+  }
+  if (operation.response === 'openapi') {
+    return { 'application/json': { schema: { type: 'object' } } };
+  }
+  return { 'application/json': { schema: toJsonSchema(operation.response, 'output') } };
+}
+
+function toOperation(operation: ApiOperation): JsonSchema {
+  const responses: Record<string, JsonSchema> = {
+    [operation.status]: {
+      description: STATUS_DESCRIPTIONS[operation.status] ?? 'OK',
+      content: toSuccessContent(operation),
+    },
+  };
+  for (const status of operation.errors) {
+    responses[status] = {
+      description: STATUS_DESCRIPTIONS[status] ?? 'Error',
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+    };
+  }
+
+  const parameters = toParameters(operation);
+
+  return {
+    summary: operation.summary,
+    ...(operation.scope
+      ? { description: `Requires an API key with the \`${operation.scope}\` scope.`, security: [{ bearerAuth: [] }] }
+      : { security: [] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(operation.body && {
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: toJsonSchema(operation.body, 'input') } },
+      },
+    }),
+    responses,
+  };
+}
+
+/**
+ * OpenAPI 3.1 document of /api/v1, generated from the same schemas the
+ * routes validate and respond with
+ */
+export function buildOpenApiDocument(serverUrl: string): JsonSchema {
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const operation of API_OPERATIONS) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: toOperation(operation) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Atlas Forensic Vault API',
+      version: '1.0.0',
+      description:
+        'Open cases on repositories and fetch their scripts and episodes from CI. ' +
+        'Create an API key with POST /api/auth/api-keys while signed in.',
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'An API key, e.g. afv_…' },
+      },
+      schemas: {
+        Error: toJsonSchema(ErrorResponseSchema, 'output'),
+      },
+    },
+  };
+}
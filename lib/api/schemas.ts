@@ -0,0 +1,222 @@
+import { z } from 'zod/v4';
+import { AnalysisStatus, type ApiKeyScope } from '@/lib/types';
+
+/**
+ * Contract of /api/v1. These shapes are what clients rely on, so they are
+ * kept apart from the stored documents and only ever extended.
+ */
+
+const PODCAST_STATUSES = [...Object.values(AnalysisStatus), 'audio_ready'] as const;
+const VISIBILITIES = ['public', 'unlisted', 'private'] as const;
+
+/**
+ * Requests
+ */
+export const AnalyzeRequestSchema = z.object({
+  repo_url: z.string().url().optional().describe('GitHub, GitLab or Bitbucket URL, optionally with /tree/<ref>/<path> (or /-/tree/, /src/, /browse/)'),
+  local_path: z.string().optional().describe('Directory on the server to investigate instead, under LOCAL_SOURCE_ROOTS'),
+  narrative_style: z.string().min(1).optional().describe('Built-in style or the id of a custom style'),
+  ref: z.string().trim().min(1).optional().describe('Branch, tag or commit SHA; wins over one in the URL'),
+  path: z.string().optional().describe('Directory to focus on, e.g. packages/ui'),
+  llm_provider: z.enum(['gemini', 'offline']).optional(),
+  visibility: z.enum(VISIBILITIES).optional(),
+  force: z.boolean().optional().describe('Skip deduplication and the analysis cache'),
+});
+
+export const ListPodcastsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  skip: z.coerce.number().int().min(0).default(0),
+  mine: z
+    .enum(['true', 'false'])
+    .default('false')
+    .transform((value) => value === 'true')
+    .describe('Only cases opened with your account'),
+});
+
+/**
+ * Responses
+ */
+export const ErrorResponseSchema = z.object({
+  error: z.object({
+    code: z.string().describe('Stable machine-readable code, e.g. not_found'),
+    message: z.string(),
+    details: z.array(z.string()).optional(),
+  }),
+});
+
+export const StartedAnalysisSchema = z.object({
+  id: z.string(),
+  status: z.enum(PODCAST_STATUSES),
+  deduplicated: z.boolean().describe('Joined an identical investigation already underway'),
+});
+
+export const PodcastSummarySchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  repo_name: z.string(),
+  narrative_style: z.string(),
+  status: z.enum(PODCAST_STATUSES),
+  visibility: z.enum(VISIBILITIES),
+  created_at: z.string().describe('ISO 8601'),
+  completed_at: z.string().nullable(),
+  has_audio: z.boolean(),
+});
+
+export const PodcastSchema = PodcastSummarySchema.extend({
+  repo_url: z.string(),
+  ref: z.string().nullable(),
+  commit_sha: z.string().nullable(),
+  path: z.string().nullable(),
+  llm_provider: z.string().nullable(),
+  progress: z.number(),
+  progress_message: z.string(),
+  error_message: z.string().nullable(),
+  patterns_found: z.array(z.string()),
+  script_version: z.number().nullable(),
+  audio_script_version: z.number().nullable(),
+  usage: z.object({
+    llm_input_tokens: z.number(),
+    llm_output_tokens: z.number(),
+    tts_characters: z.number(),
+  }),
+});
+
+export const PodcastListSchema = z.object({
+  podcasts: z.array(PodcastSummarySchema),
+  total: z.number(),
+  limit: z.number(),
+  skip: z.number(),
+});
+
+export const PodcastStatusSchema = z.object({
+  analysis: z.object({
+    status: z.enum(PODCAST_STATUSES),
+    progress: z.number(),
+    message: z.string(),
+  }),
+  audio: z.object({
+    status: z.enum(['pending', 'recording', 'processing', 'completed', 'error']),
+    progress: z.number(),
+    message: z.string(),
+  }),
+});
+
+export const ScriptSchema = z.object({
+  version: z.number().nullable(),
+  title: z.string(),
+  segments: z.array(
+    z.object({
+      speaker: z.string(),
+      text: z.string(),
+      emotion: z.string().nullable(),
+      sound_effect: z.string().nullable(),
+      code_reference: z
+        .object({ path: z.string(), start_line: z.number(), end_line: z.number() })
+        .nullable(),
+    })
+  ),
+});
+
+export const AudioStartedSchema = z.object({
+  id: z.string(),
+  status: z.literal('recording'),
+});
+
+export type StartedAnalysisResponse = z.infer<typeof StartedAnalysisSchema>;
+export type PodcastSummaryResponse = z.infer<typeof PodcastSummarySchema>;
+export type PodcastResponse = z.infer<typeof PodcastSchema>;
+export type PodcastStatusResponse = z.infer<typeof PodcastStatusSchema>;
+export type ScriptResponse = z.infer<typeof ScriptSchema>;
+
+/**
+ * Every operation of /api/v1, which the OpenAPI document is generated from
+ */
+export interface ApiOperation {
+  method: 'get' | 'post';
+  path: string;
+  summary: string;
+  // Missing for public operations
+  scope?: ApiKeyScope;
+  query?: z.ZodObject;
+  body?: z.ZodType;
+  status: number;
+  // 'audio' for the MP3 download
+  response: z.ZodType | 'audio' | 'openapi';
+  errors: number[];
+}
+
+export const API_OPERATIONS: ApiOperation[] = [
+  {
+    method: 'post',
+    path: '/analyze',
+    summary: 'Open a case and start investigating a repository',
+    scope: 'analyze',
+    body: AnalyzeRequestSchema,
+    status: 202,
+    response: StartedAnalysisSchema,
+    errors: [400, 401, 403, 429],
+  },
+  {
+    method: 'get',
+    path: '/podcasts',
+    summary: 'List the cases you can see, newest first',
+    scope: 'read',
+    query: ListPodcastsQuerySchema,
+    status: 200,
+    response: PodcastListSchema,
+    errors: [400, 401, 403],
+  },
+  {
+    method: 'get',
+    path: '/podcasts/{id}',
+    summary: 'Get a case',
+    scope: 'read',
+    status: 200,
+    response: PodcastSchema,
+    errors: [401, 403, 404],
+  },
+  {
+    method: 'get',
+    path: '/podcasts/{id}/status',
+    summary: 'Progress of the investigation and of the audio',
+    scope: 'read',
+    status: 200,
+    response: PodcastStatusSchema,
+    errors: [401, 403, 404],
+  },
+  {
+    method: 'get',
+    path: '/podcasts/{id}/script',
+    summary: 'The current script',
+    scope: 'read',
+    status: 200,
+    response: ScriptSchema,
+    errors: [401, 403, 404],
+  },
+  {
+    method: 'get',
+    path: '/podcasts/{id}/audio',
+    summary: 'Download the recorded episode',
+    scope: 'read',
+    status: 200,
+    response: 'audio',
+    errors: [401, 403, 404],
+  },
+  {
+    method: 'post',
+    path: '/podcasts/{id}/audio',
+    summary: 'Record the script with ElevenLabs',
+    scope: 'audio',
+    status: 202,
+    response: AudioStartedSchema,
+    errors: [400, 401, 402, 403, 404, 429],
+  },
+  {
+    method: 'get',
+    path: '/openapi.json',
+    summary: 'This document',
+    status: 200,
+    response: 'openapi',
+    errors: [],
+  },
+];
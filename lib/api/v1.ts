@@ -0,0 +1,191 @@
+import 'server-only';
+import { NextRequest, NextResponse } from 'next/server';
+import type { z } from 'zod/v4';
+import { getCollection } from '@/lib/mongodb';
+import { authenticateApiKey, canViewPodcast, getPodcastVisibility } from '@/lib/auth';
+import { AudioRequestError } from '@/lib/audio';
+import { AnalysisRequestError } from '@/lib/jobs/start-analysis';
+import { toAnalysisProgress, toAudioProgress } from '@/lib/podcast-events';
+import { rateLimit, RateLimitedRoute } from '@/lib/rate-limit';
+import { formatSchemaErrors } from '@/lib/script-schema';
+import type { ApiKeyScope, Podcast, User } from '@/lib/types';
+import type {
+  PodcastResponse,
+  PodcastStatusResponse,
+  PodcastSummaryResponse,
+  ScriptResponse,
+} from './schemas';
+
+// Codes of the error body, by status
+const ERROR_CODES: Record<number, string> = {
+  400: 'invalid_request',
+  401: 'unauthorized',
+  402: 'insufficient_credits',
+  403: 'forbidden',
+  404: 'not_found',
+  409: 'conflict',
+  429: 'quota_exceeded',
+  500: 'internal_error',
+};
+
+interface ApiErrorOptions {
+  details?: string[];
+  // Overrides the code of the status
+  code?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Error response in the one shape every /api/v1 error has
+ */
+export function apiError(status: number, message: string, { details, code, headers }: ApiErrorOptions = {}): NextResponse {
+  return NextResponse.json(
+    { error: { code: code ?? ERROR_CODES[status] ?? 'error', message, ...(details && { details }) } },
+    {
+      status,
+      headers: { ...(status === 401 && { 'WWW-Authenticate': 'Bearer' }), ...headers },
+    }
+  );
+}
+
+/**
+ * Error response for anything a v1 route throws
+ */
+export function handleApiError(error: unknown, context: string): NextResponse {
+  if (error instanceof AnalysisRequestError || error instanceof AudioRequestError) {
+    return apiError(error.status, error.message);
+  }
+  console.error(`[API] ${context}:`, error);
+  return apiError(500, error instanceof Error ? error.message : 'Internal server error');
+}
+
+/**
+ * The user behind the bearer API key, or the error response when the key is
+ * missing, unknown, lacks the scope, or is over the route's rate limit
+ */
+export async function authenticateApiRequest(
+  request: NextRequest,
+  scope: ApiKeyScope,
+  limit?: RateLimitedRoute
+): Promise<User | NextResponse> {
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i);
+  if (!match) {
+    return apiError(401, 'Send an API key as "Authorization: Bearer <key>"');
+  }
+
+  const authenticated = await authenticateApiKey(match[1]);
+  if (!authenticated) {
+    return apiError(401, 'Unknown or revoked API key');
+  }
+  if (!authenticated.scopes.includes(scope)) {
+    return apiError(403, `This API key lacks the "${scope}" scope`);
+  }
+
+  if (limit) {
+    const { allowed, retryAfter } = await rateLimit(limit, { apiKeyId: authenticated.keyId, request });
+    if (!allowed) {
+      return apiError(429, `Too many requests. Try again in ${retryAfter} seconds.`, {
+        code: 'rate_limited',
+        headers: { 'Retry-After': String(retryAfter) },
+      });
+    }
+  }
+
+  return authenticated.user;
+}
+
+/**
+ * The JSON body, or a 400 listing what doesn't match the schema
+ */
+export async function parseBody<T extends z.ZodType>(request: NextRequest, schema: T): Promise<z.output<T> | NextResponse> {
+  const body = await request.json().catch(() => undefined);
+  if (body === undefined) {
+    return apiError(400, 'The body must be JSON');
+  }
+
+  const result = schema.safeParse(body);
+  return result.success ? result.data : apiError(400, 'Invalid request body', { details: formatSchemaErrors(result.error) });
+}
+
+export function parseQuery<T extends z.ZodType>(request: NextRequest, schema: T): z.output<T> | NextResponse {
+  const result = schema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  return result.success ? result.data : apiError(400, 'Invalid query string', { details: formatSchemaErrors(result.error) });
+}
+
+/**
+ * A case the user may see, or a 404 (also for cases they may not see)
+ */
+export async function findApiPodcast(user: User, id: string): Promise<Podcast | NextResponse> {
+  const collection = await getCollection('podcasts');
+  const podcast = await collection.findOne<Podcast>({ id }, { projection: { audio_data: 0 } });
+  return podcast && canViewPodcast(user, podcast) ? podcast : apiError(404, 'Podcast not found');
+}
+
+function toIsoString(date?: Date | string): string | null {
+  return date ? new Date(date).toISOString() : null;
+}
+
+export function toPodcastSummary(podcast: Podcast): PodcastSummaryResponse {
+  return {
+    id: podcast.id,
+    title: podcast.title,
+    repo_name: podcast.repo_name,
+    narrative_style: podcast.narrative_style,
+    status: podcast.status,
+    visibility: getPodcastVisibility(podcast),
+    created_at: toIsoString(podcast.created_at) ?? '',
+    completed_at: toIsoString(podcast.completed_at),
+    has_audio: Boolean(podcast.audio_url),
+  };
+}
+
+export function toPodcastResponse(podcast: Podcast): PodcastResponse {
+  return {
+    ...toPodcastSummary(podcast),
+    repo_url: podcast.repo_url,
+    ref: podcast.ref ?? null,
+    commit_sha: podcast.commit_sha ?? null,
+    path: podcast.path ?? null,
+    llm_provider: podcast.llm_provider ?? null,
+    progress: podcast.progress,
+    progress_message: podcast.progress_message,
+    error_message: podcast.error_message ?? null,
+    patterns_found: podcast.patterns_found ?? [],
+    script_version: podcast.script_version ?? null,
+    audio_script_version: podcast.audio_script_version ?? null,
+    usage: {
+      llm_input_tokens: podcast.usage?.llm_input_tokens ?? 0,
+      llm_output_tokens: podcast.usage?.llm_output_tokens ?? 0,
+      tts_characters: podcast.usage?.tts_characters ?? 0,
+    },
+  };
+}
+
+export function toPodcastStatus(podcast: Podcast): PodcastStatusResponse {
+  const { status, progress, message } = toAnalysisProgress(podcast);
+  const audio = toAudioProgress(podcast);
+  return {
+    analysis: { status, progress, message },
+    audio: { status: audio.status, progress: audio.progress, message: audio.message },
+  };
+}
+
+export function toScriptResponse(podcast: Podcast & { script: NonNullable<Podcast['script']> }): ScriptResponse {
+  return {
+    version: podcast.script_version ?? null,
+    title: podcast.script.title,
+    segments: podcast.script.segments.map((segment) => ({
+      speaker: segment.speaker,
+      text: segment.text,
+      emotion: segment.emotion ?? null,
+      sound_effect: segment.sound_effect ?? null,
+      code_reference: segment.code_reference
+        ? {
+            path: segment.code_reference.path,
+            start_line: segment.code_reference.start_line,
+            end_line: segment.code_reference.end_line ?? segment.code_reference.start_line,
+          }
+        : null,
+    })),
+  };
+}
@@ -0,0 +1,337 @@
+import 'server-only';
+import { waitUntil } from '@vercel/functions';
+import { getCollection } from '@/lib/mongodb';
+import { textToSpeech, concatenateAudioBuffers, countSpeechCharacters, getSubscriptionInfo } from '@/lib/elevenlabs';
+import { getPodcastVisibility } from '@/lib/auth';
+import { getStyle, getStyleVoiceId } from '@/lib/styles/registry';
+import { recordTtsUsage, releaseQuota, reserveQuota, type UsageContext } from '@/lib/usage';
+import { NarrativeStyle, Podcast, PodcastScript, StyleDefinition, User } from '@/lib/types';
+
+// Longer than any function may run (maxDuration), so a recording this old has died
+const STALE_RECORDING_MS = 10 * 60 * 1000;
+
+/**
+ * Error Types
+ */
+export class AudioRequestError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'AudioRequestError';
+  }
+}
+
+/**
+ * Start recording a podcast's script in the background, billed to the user.
+ * Throws AudioRequestError when there is no script, not enough quota or
+ * ElevenLabs credits for it, or a recording is already under way.
+ */
+export async function startAudioGeneration(podcast: Podcast, user: User): Promise<void> {
+  const { id } = podcast;
+
+  if (!podcast.script || !podcast.script.segments) {
+    throw new AudioRequestError('No script available for this podcast');
+  }
+
+  // Voices are cast by the style; a deleted custom style falls back to the default voices.
+  // Loaded first, so nothing below fails after the quota is reserved and the recording claimed.
+  const style = await getStyle(podcast.narrative_style || NarrativeStyle.TRUE_CRIME);
+
+  // ElevenLabs credits burn fast: refuse up front what the account can't cover
+  const characters = countSpeechCharacters(podcast.script.segments);
+  const subscription = await getSubscriptionInfo().catch((error) => {
+    console.warn('[Audio] Could not check ElevenLabs credits:', error instanceof Error ? error.message : error);
+    return null;
+  });
+  if (subscription && characters > subscription.remaining) {
+    throw new AudioRequestError(
+      `Not enough ElevenLabs credits: the script needs ${characters} characters, ${subscription.remaining} are left`,
+      402
+    );
+  }
+
+  // ...or the user's quota, holding the characters until the recording is done
+  const quota = await reserveQuota(user.id, 'tts_characters', characters);
+  if (!quota.allowed) {
+    throw new AudioRequestError(quota.message || 'Quota exceeded', 429);
+  }
+  const reservation = quota.reservation;
+
+  // Only one recording at a time; one that stopped reporting long ago was cut off
+  const collection = await getCollection('podcasts');
+  const now = new Date();
+  const claimed = await collection.updateOne(
+    {
+      id,
+      $or: [
+        { audio_status: { $nin: ['recording', 'processing'] } },
+        { audio_started_at: { $lt: new Date(now.getTime() - STALE_RECORDING_MS).toISOString() } },
+      ],
+    },
+    {
+      $set: {
+        audio_status: 'recording',
+        audio_progress: 0,
+        audio_message: 'Starting audio generation with ElevenLabs...',
+        audio_started_at: now.toISOString(),
+      },
+    }
+  );
+  if (claimed.matchedCount === 0) {
+    if (reservation) {
+      await releaseQuota(reservation);
+    }
+    throw new AudioRequestError('This case is already being recorded', 409);
+  }
+
+  // Log script details for debugging
+  const scriptSegments = podcast.script.segments || [];
+  console.log(`[Audio] Podcast ${id} has ${scriptSegments.length} segments in script`);
+  if (scriptSegments.length > 0) {
+    console.log(`[Audio] First segment: speaker="${scriptSegments[0]?.speaker}", text length=${scriptSegments[0]?.text?.length || 0}`);
+  }
+
+  // Use waitUntil to keep the function alive after returning response
+  // This is critical for Vercel - without it, the function terminates immediately
+  console.log(`[Audio] Starting background audio generation for ${id}`);
+  
+  waitUntil(
+    generateAudioInBackground(id, podcast.script, style, { podcastId: id, userId: user.id }, podcast.script_version)
+      .then(() => console.log(`[Audio] ✅ Completed audio generation for ${id}`))
+      .catch((err) => console.error(`[Audio Error] ❌ Audio generation failed for ${id}:`, err))
+      // Spent characters are recorded segment by segment
+      .finally(() => reservation && releaseQuota(reservation))
+  );
+}
+
+/**
+ * The recorded episode as an MP3 response
+ */
+export function audioFileResponse(podcast: Pick<Podcast, 'repo_name' | 'is_private' | 'visibility'>, audioData: string) {
+  // Convert base64 back to buffer
+  const audioBuffer = Buffer.from(audioData, 'base64');
+
+  return new Response(audioBuffer, {
+    status: 200,
+    headers: {
+      'Content-Type': 'audio/mpeg',
+      'Content-Length': audioBuffer.length.toString(),
+      'Accept-Ranges': 'bytes',
+      // Cache for 1 year, but only in shared caches when anyone may listen
+      'Cache-Control': `${getPodcastVisibility(podcast) === 'public' ? 'public' : 'private'}, max-age=31536000`,
+      'Content-Disposition': `inline; filename="${podcast.repo_name || 'podcast'}.mp3"`,
+    },
+  });
+}
+
+// Real audio generation using ElevenLabs API
+async function generateAudioInBackground(
+  podcastId: string,
+  script: PodcastScript,
+  style: StyleDefinition | null,
+  // Who the characters are billed to
+  usage: UsageContext,
+  // Script revision being rendered, recorded with the finished audio
+  scriptVersion?: number
+) {
+  console.log(`[Audio] Background process started for ${podcastId}`);
+  console.log(`[Audio] Script received with ${script.segments?.length || 0} total segments`);
+  
+  // Debug: Log first few segments to diagnose issues
+  if (script.segments && script.segments.length > 0) {
+    console.log(`[Audio] First segment preview:`, JSON.stringify(script.segments[0]).substring(0, 200));
+  }
+  
+  try {
+    const collection = await getCollection('podcasts');
+    
+    // Filter out sound_effect segments - only voice segments
+    // Keep segments with missing speaker (default to Narrator) or where speaker is NOT sound_effect
+    const voiceSegments = script.segments.filter(
+      (s) => !s.speaker || s.speaker.toLowerCase() !== 'sound_effect'
+    );
+    const totalSegments = voiceSegments.length;
+    const audioBuffers: Buffer[] = [];
+
+    console.log(`[Audio] Starting generation for ${totalSegments} voice segments (skipping ${script.segments.length - totalSegments} sound effects)`);
+
+    let lastError: Error | null = null;
+
+    for (let i = 0; i < totalSegments; i++) {
+      const segment = voiceSegments[i];
+      const progress = Math.round(((i + 1) / totalSegments) * 90); // Reserve 10% for processing
+
+      // Update progress
+      await collection.updateOne(
+        { id: podcastId },
+        {
+          $set: {
+            audio_status: 'recording',
+            audio_progress: progress,
+            audio_message: `🎙️ Recording segment ${i + 1} of ${totalSegments}: ${segment.speaker}`,
+            audio_current_segment: i + 1,
+            audio_total_segments: totalSegments,
+          },
+        }
+      );
+
+      try {
+        const speakerName = segment.speaker || 'Narrator';
+        const segmentText = segment.text || '';
+        
+        // Skip empty segments with enhanced logging
+        if (!segmentText || !segmentText.trim()) {
+          console.error(`⚠️ CRIME SCENE DATA MISSING: Segment ${i + 1} text is empty or undefined`);
+          continue;
+        }
+        
+        // Safe substring for logging - prevent undefined errors
+        const textPreview = segmentText.length > 50 
+          ? segmentText.substring(0, 50) + '...' 
+          : segmentText;
+        
+        // Call ElevenLabs API to generate audio
+        console.log(`Generating audio for segment ${i + 1} (${speakerName}): "${textPreview}"`);
+        
+        const audioBuffer = await textToSpeech({
+          text: segmentText,
+          voiceId: style ? getStyleVoiceId(style, speakerName) : undefined,
+          speaker: speakerName, // Pass speaker to determine voice ID
+          // Adjust voice settings based on emotion if present
+          stability: getStabilityForEmotion(segment.emotion),
+          similarityBoost: 0.75,
+          style: getStyleForEmotion(segment.emotion),
+        });
+
+        audioBuffers.push(audioBuffer);
+        await recordTtsUsage(usage, segmentText.length);
+        console.log(`✅ Segment ${i + 1} audio generated (${audioBuffer.length} bytes)`);
+
+        // Small delay to avoid rate limiting
+        await new Promise((resolve) => setTimeout(resolve, 300));
+      } catch (segmentError: unknown) {
+        console.error(`Error generating segment ${i + 1}:`, segmentError);
+        lastError = segmentError instanceof Error ? segmentError : new Error(String(segmentError));
+        const errorMsg = lastError.message || 'Unknown error';
+        // Safe substring to prevent undefined errors
+        const safeErrorMsg = errorMsg && errorMsg.length > 50 
+          ? errorMsg.substring(0, 50) + '...' 
+          : errorMsg || 'Unknown';
+        // Continue with other segments, but log the error
+        await collection.updateOne(
+          { id: podcastId },
+          {
+            $set: {
+              audio_message: `⚠️ Warning: Segment ${i + 1} failed: ${safeErrorMsg}`,
+            },
+          }
+        );
+      }
+    }
+
+    // Processing phase - concatenate audio
+    await collection.updateOne(
+      { id: podcastId },
+      {
+        $set: {
+          audio_status: 'processing',
+          audio_progress: 95,
+          audio_message: '🔧 Concatenating audio segments...',
+        },
+      }
+    );
+
+    if (audioBuffers.length === 0) {
+      if (totalSegments === 0) {
+         throw new Error('No voice segments found in script to generate audio for.');
+      }
+      throw new Error(`No audio segments were generated successfully. Last error: ${lastError?.message || 'Unknown error'}`);
+    }
+
+    // Concatenate all audio buffers
+    const finalAudio = concatenateAudioBuffers(audioBuffers);
+    console.log(`📦 Final audio size: ${finalAudio.length} bytes`);
+
+    // Store the audio as base64 in MongoDB (for simplicity)
+    // In production, you'd upload to S3/Cloudflare R2/etc.
+    const audioBase64 = finalAudio.toString('base64');
+    const audioDuration = estimateDuration(audioBuffers.length);
+
+    // Mark as completed
+    await collection.updateOne(
+      { id: podcastId },
+      {
+        $set: {
+          audio_status: 'completed',
+          audio_progress: 100,
+          audio_message: '✅ Audio generation complete!',
+          audio_data: audioBase64, // Store audio data
+          audio_url: `/api/podcasts/${podcastId}/audio`, // API endpoint to serve audio
+          audio_duration: audioDuration,
+          audio_completed_at: new Date().toISOString(),
+          ...(scriptVersion !== undefined && { audio_script_version: scriptVersion }),
+          status: 'audio_ready',
+        },
+      }
+    );
+
+    console.log(`🎉 Podcast ${podcastId} audio generation complete!`);
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Audio generation failed';
+    console.error('Error generating audio:', error);
+    
+    try {
+      const collection = await getCollection('podcasts');
+      await collection.updateOne(
+        { id: podcastId },
+        {
+          $set: {
+            audio_status: 'error',
+            audio_message: `❌ ${errorMessage}`,
+          },
+        }
+      );
+    } catch (dbError) {
+      console.error('Failed to update error status in DB:', dbError);
+    }
+  }
+}
+
+// Get stability setting based on emotion
+function getStabilityForEmotion(emotion?: string): number {
+  const settings: Record<string, number> = {
+    mysterious: 0.6,
+    dramatic: 0.4,
+    excited: 0.3,
+    serious: 0.7,
+    suspenseful: 0.5,
+    shocked: 0.3,
+    smug: 0.45,
+    deadpan: 0.8,
+    incredulous: 0.3,
+    heckling: 0.25,
+  };
+  return settings[emotion || ''] || 0.5;
+}
+
+// Get style setting based on emotion
+function getStyleForEmotion(emotion?: string): number {
+  const settings: Record<string, number> = {
+    mysterious: 0.3,
+    dramatic: 0.7,
+    excited: 0.8,
+    serious: 0.4,
+    suspenseful: 0.5,
+    shocked: 0.9,
+    smug: 0.7,
+    deadpan: 0.2,
+    incredulous: 0.85,
+    heckling: 0.9,
+  };
+  return settings[emotion || ''] || 0.5;
+}
+
+// Estimate duration based on segments
+function estimateDuration(generatedSegments: number): number {
+  // Rough estimate: ~10 seconds per segment on average
+  return generatedSegments * 10;
+}
\ No newline at end of file
@@ -0,0 +1,108 @@
+import 'server-only';
+import { createHash, randomBytes } from 'crypto';
+import { getCollection } from '@/lib/mongodb';
+import { ApiKey, ApiKeyScope, User } from '@/lib/types';
+import { findUserById } from './users';
+
+export const API_KEY_SCOPES: readonly ApiKeyScope[] = ['read', 'analyze', 'audio'];
+
+// Recognisable in logs and secret scanners
+const KEY_PREFIX = 'afv_';
+
+// What the owner of a key gets to see of it
+export type ApiKeySummary = Omit<ApiKey, 'key_hash' | 'user_id'>;
+
+let indexesReady: Promise<void> | null = null;
+
+async function getApiKeysCollection() {
+  const collection = await getCollection('api_keys');
+
+  if (!indexesReady) {
+    indexesReady = (async () => {
+      await collection.createIndex({ key_hash: 1 }, { unique: true });
+      await collection.createIndex({ user_id: 1, created_at: -1 });
+    })().catch((error) => {
+      indexesReady = null;
+      throw error;
+    });
+  }
+  await indexesReady;
+
+  return collection;
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return API_KEY_SCOPES.includes(value as ApiKeyScope);
+}
+
+function toSummary({ id, name, prefix, scopes, created_at, last_used_at }: ApiKey): ApiKeySummary {
+  return { id, name, prefix, scopes, created_at, ...(last_used_at && { last_used_at }) };
+}
+
+/**
+ * Create a key for the user. The key itself is only ever returned here.
+ */
+export async function createApiKey(
+  userId: string,
+  name: string,
+  scopes: ApiKeyScope[]
+): Promise<{ key: string; apiKey: ApiKeySummary }> {
+  const collection = await getApiKeysCollection();
+  const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const apiKey: ApiKey = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    name,
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    key_hash: hashKey(key),
+    scopes: [...new Set(scopes)],
+    created_at: new Date(),
+  };
+
+  await collection.insertOne({ ...apiKey });
+  console.log(`[Auth] Created API key ${apiKey.prefix}… for user ${userId} (scopes: ${apiKey.scopes.join(', ')})`);
+  return { key, apiKey: toSummary(apiKey) };
+}
+
+export async function listApiKeys(userId: string): Promise<ApiKeySummary[]> {
+  const collection = await getApiKeysCollection();
+  const keys = await collection.find<ApiKey>({ user_id: userId }).sort({ created_at: -1 }).toArray();
+  return keys.map(toSummary);
+}
+
+/**
+ * Delete one of the user's keys; false if they have no such key
+ */
+export async function deleteApiKey(userId: string, id: string): Promise<boolean> {
+  const collection = await getApiKeysCollection();
+  const result = await collection.deleteOne({ id, user_id: userId });
+  return result.deletedCount > 0;
+}
+
+/**
+ * The user a key belongs to and what it may do, or null for unknown keys
+ */
+export async function authenticateApiKey(
+  key: string
+): Promise<{ user: User; keyId: string; scopes: ApiKeyScope[] } | null> {
+  if (!key.startsWith(KEY_PREFIX)) {
+    return null;
+  }
+
+  const collection = await getApiKeysCollection();
+  const apiKey = await collection.findOneAndUpdate(
+    { key_hash: hashKey(key) },
+    { $set: { last_used_at: new Date() } },
+    { projection: { id: 1, user_id: 1, scopes: 1 } }
+  );
+  if (!apiKey) {
+    return null;
+  }
+
+  const user = await findUserById(apiKey.user_id);
+  return user ? { user, keyId: apiKey.id, scopes: apiKey.scopes } : null;
+}
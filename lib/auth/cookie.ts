@@ -0,0 +1,14 @@
+// Shared by the proxy and the route handlers, so no database or server-only imports here
+
+export const SESSION_COOKIE = 'afv_session';
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export function sessionCookieOptions(expires: Date) {
+  return {
+    httpOnly: true,
+    sameSite: 'lax' as const,
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires,
+  };
+}
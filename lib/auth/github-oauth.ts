@@ -0,0 +1,111 @@
+import 'server-only';
+import { randomBytes } from 'crypto';
+import { NextResponse, type NextRequest } from 'next/server';
+
+const AUTHORIZE_URL = 'https://github.com/login/oauth/authorize';
+const TOKEN_URL = 'https://github.com/login/oauth/access_token';
+const USER_URL = 'https://api.github.com/user';
+const TIMEOUT_MS = 15000;
+
+export const OAUTH_STATE_COOKIE = 'afv_oauth_state';
+const STATE_TTL_SECONDS = 10 * 60;
+
+export interface GitHubProfile {
+  id: number;
+  login: string;
+  name: string | null;
+  avatar_url: string;
+}
+
+/**
+ * Error Types
+ */
+export class GitHubOAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitHubOAuthError';
+  }
+}
+
+export function isGitHubOAuthConfigured(): boolean {
+  return Boolean(process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET);
+}
+
+// Signing in only needs the profile; connecting also asks for private repositories
+export const GITHUB_SIGN_IN_SCOPE = 'read:user';
+export const GITHUB_CONNECT_SCOPE = 'read:user repo';
+
+export function getGitHubAuthorizeUrl(redirectUri: string, state: string, scope = GITHUB_SIGN_IN_SCOPE): string {
+  const params = new URLSearchParams({
+    client_id: process.env.GITHUB_CLIENT_ID || '',
+    redirect_uri: redirectUri,
+    scope,
+    state,
+    allow_signup: 'true',
+  });
+  return `${AUTHORIZE_URL}?${params}`;
+}
+
+/**
+ * Send the browser to GitHub with a fresh state; it comes back to
+ * /api/auth/github/callback. `mode` tells the callback whether to sign in or
+ * to connect the signed-in user.
+ */
+export function redirectToGitHub(request: NextRequest, mode: 'signin' | 'connect', scope?: string): NextResponse {
+  const state = randomBytes(16).toString('hex');
+  const response = NextResponse.redirect(getGitHubAuthorizeUrl(getGitHubRedirectUri(request), state, scope));
+  response.cookies.set(OAUTH_STATE_COOKIE, `${mode}.${state}`, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: STATE_TTL_SECONDS,
+  });
+  return response;
+}
+
+export function getGitHubRedirectUri(request: NextRequest): string {
+  return new URL('/api/auth/github/callback', request.url).toString();
+}
+
+/**
+ * Trade the callback's code for an access token and read the GitHub profile
+ */
+export async function exchangeGitHubCode(
+  code: string,
+  redirectUri: string
+): Promise<{ profile: GitHubProfile; accessToken: string; scopes: string[] }> {
+  const tokenResponse = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { Accept: 'application/json', 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      client_id: process.env.GITHUB_CLIENT_ID,
+      client_secret: process.env.GITHUB_CLIENT_SECRET,
+      code,
+      redirect_uri: redirectUri,
+    }),
+    signal: AbortSignal.timeout(TIMEOUT_MS),
+  });
+  const token = await tokenResponse.json();
+  if (!tokenResponse.ok || !token.access_token) {
+    throw new GitHubOAuthError(token.error_description || token.error || 'GitHub did not return an access token');
+  }
+
+  const userResponse = await fetch(USER_URL, {
+    headers: {
+      Accept: 'application/vnd.github+json',
+      Authorization: `Bearer ${token.access_token}`,
+      'User-Agent': 'detective-mongo-nextjs/1.0.0',
+    },
+    signal: AbortSignal.timeout(TIMEOUT_MS),
+  });
+  if (!userResponse.ok) {
+    throw new GitHubOAuthError(`GitHub profile request failed with ${userResponse.status}`);
+  }
+
+  return {
+    profile: await userResponse.json(),
+    accessToken: token.access_token,
+    scopes: typeof token.scope === 'string' ? token.scope.split(',').filter(Boolean) : [],
+  };
+}
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Podcast, User } from '@/lib/types';
+import { canModifyPodcast, canViewPodcast, createShareToken, shareCookieName } from './index';
+
+vi.mock('@/lib/mongodb', () => ({
+  getCollection: () => Promise.reject(new Error('no database in tests')),
+}));
+
+const owner = { id: 'owner' } as User;
+const stranger = { id: 'stranger' } as User;
+
+const podcast = (fields: Partial<Podcast> = {}) =>
+  ({ id: 'case-1', owner_id: owner.id, ...fields }) as Pick<
+    Podcast,
+    'id' | 'owner_id' | 'is_private' | 'visibility' | 'shares_revoked_at'
+  >;
+
+const cookiesWith = (values: Record<string, string>) => ({
+  get: (name: string) => (name in values ? { value: values[name] } : undefined),
+});
+
+const inAWeek = () => new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+
+describe('canViewPodcast', () => {
+  beforeEach(() => {
+    vi.stubEnv('AUTH_SECRET', 'test-secret');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('shows public cases to everyone, signed in or not', () => {
+    expect(canViewPodcast(null, podcast({ visibility: 'public' }))).toBe(true);
+    expect(canViewPodcast(stranger, podcast())).toBe(true);
+  });
+
+  it('shows private cases to their owner only', () => {
+    const privateCase = podcast({ visibility: 'private' });
+    expect(canViewPodcast(owner, privateCase)).toBe(true);
+    expect(canViewPodcast(stranger, privateCase)).toBe(false);
+    expect(canViewPodcast(null, privateCase)).toBe(false);
+  });
+
+  it('never makes a private repository public', () => {
+    expect(canViewPodcast(stranger, podcast({ is_private: true, visibility: 'public' }))).toBe(false);
+  });
+
+  it('shows unlisted cases to holders of a live share link for that case', () => {
+    const unlisted = podcast({ visibility: 'unlisted' });
+    const token = createShareToken(unlisted.id, inAWeek());
+
+    expect(canViewPodcast(null, unlisted)).toBe(false);
+    expect(canViewPodcast(null, unlisted, cookiesWith({}))).toBe(false);
+    expect(canViewPodcast(null, unlisted, cookiesWith({ [shareCookieName(unlisted.id)]: token }))).toBe(true);
+  });
+
+  it('refuses share links for another case, forged ones and revoked ones', () => {
+    const unlisted = podcast({ visibility: 'unlisted' });
+    const otherToken = createShareToken('case-2', inAWeek());
+    const token = createShareToken(unlisted.id, inAWeek());
+    const cookieName = shareCookieName(unlisted.id);
+
+    expect(canViewPodcast(null, unlisted, cookiesWith({ [cookieName]: otherToken }))).toBe(false);
+    expect(canViewPodcast(null, unlisted, cookiesWith({ [cookieName]: `${token}x` }))).toBe(false);
+
+    const revoked = podcast({ visibility: 'unlisted', shares_revoked_at: new Date(Date.now() + 1000) });
+    expect(canViewPodcast(null, revoked, cookiesWith({ [cookieName]: token }))).toBe(false);
+  });
+});
+
+describe('canModifyPodcast', () => {
+  it('lets the owner change a case, and no one else', () => {
+    expect(canModifyPodcast(owner, podcast())).toBe(true);
+    expect(canModifyPodcast(stranger, podcast())).toBe(false);
+  });
+
+  it('leaves cases from before accounts open to any signed-in user', () => {
+    expect(canModifyPodcast(stranger, podcast({ owner_id: undefined }))).toBe(true);
+  });
+});
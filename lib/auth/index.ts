@@ -0,0 +1,118 @@
+import 'server-only';
+import { NextResponse, type NextRequest } from 'next/server';
+import type { Podcast, PodcastVisibility, User } from '@/lib/types';
+import { SESSION_COOKIE, sessionCookieOptions } from './cookie';
+import { createSession, getSessionUser, type CookieReader } from './sessions';
+import { hasShareAccess } from './share-links';
+
+export { SESSION_COOKIE } from './cookie';
+export { createSession, deleteSession, getSessionUser, type CookieReader } from './sessions';
+export {
+  EmailTakenError,
+  GitHubAccountTakenError,
+  authenticateWithPassword,
+  connectGitHubAccount,
+  createPasswordUser,
+  disconnectGitHubToken,
+  findUserById,
+  getGitHubToken,
+  toPublicUser,
+  upsertGitHubUser,
+} from './users';
+export { MIN_PASSWORD_LENGTH } from './passwords';
+export {
+  API_KEY_SCOPES,
+  authenticateApiKey,
+  createApiKey,
+  deleteApiKey,
+  isApiKeyScope,
+  listApiKeys,
+  type ApiKeySummary,
+} from './api-keys';
+export {
+  DEFAULT_SHARE_TTL_DAYS,
+  MAX_SHARE_TTL_DAYS,
+  createShareToken,
+  readShareToken,
+  shareCookieName,
+} from './share-links';
+
+const PODCAST_VISIBILITIES: PodcastVisibility[] = ['public', 'unlisted', 'private'];
+
+// Fields canViewPodcast needs, for projections
+export const VISIBILITY_PROJECTION = { id: 1, owner_id: 1, is_private: 1, visibility: 1, shares_revoked_at: 1 };
+
+type VisibilityFields = Pick<Podcast, 'id' | 'owner_id' | 'is_private' | 'visibility' | 'shares_revoked_at'>;
+
+/**
+ * The signed-in user, or a 401 response to return as is
+ */
+export async function requireUser(request: NextRequest): Promise<User | NextResponse> {
+  const user = await getSessionUser(request.cookies);
+  return user ?? NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+}
+
+/**
+ * Owners can change their cases. Cases from before accounts belong to no one
+ * and stay open to any signed-in user.
+ */
+export function canModifyPodcast(user: User, podcast: Pick<Podcast, 'owner_id'>): boolean {
+  return !podcast.owner_id || podcast.owner_id === user.id;
+}
+
+export function isPodcastVisibility(value: unknown): value is PodcastVisibility {
+  return PODCAST_VISIBILITIES.includes(value as PodcastVisibility);
+}
+
+/**
+ * Cases without a setting are public, unless they investigated a private
+ * repository, which can't be public at all
+ */
+export function getPodcastVisibility(podcast: Pick<Podcast, 'is_private' | 'visibility'>): PodcastVisibility {
+  const visibility = podcast.visibility ?? (podcast.is_private ? 'private' : 'public');
+  return podcast.is_private && visibility === 'public' ? 'private' : visibility;
+}
+
+/**
+ * Owners see their cases. Everyone else sees public ones, and unlisted ones
+ * when their cookies hold a share link for it.
+ */
+export function canViewPodcast(user: User | null, podcast: VisibilityFields, cookies?: CookieReader): boolean {
+  if (user !== null && podcast.owner_id === user.id) {
+    return true;
+  }
+
+  switch (getPodcastVisibility(podcast)) {
+    case 'public':
+      return true;
+    case 'unlisted':
+      return cookies !== undefined && hasShareAccess(cookies, podcast);
+    default:
+      return false;
+  }
+}
+
+/**
+ * canViewPodcast for whoever sent the cookies
+ */
+export async function canViewPodcastFrom(cookies: CookieReader, podcast: VisibilityFields): Promise<boolean> {
+  return canViewPodcast(await getSessionUser(cookies), podcast, cookies);
+}
+
+/**
+ * Mongo filter for the cases a user (or an anonymous visitor) may list:
+ * public ones and their own. Matches getPodcastVisibility.
+ */
+export function visiblePodcastsFilter(user: User | null) {
+  const listed = { is_private: { $ne: true }, visibility: { $in: ['public', null] } };
+  return user ? { $or: [listed, { owner_id: user.id }] } : listed;
+}
+
+/**
+ * Start a session for the user and set its cookie on the response
+ */
+export async function signIn<T extends NextResponse>(response: T, user: User): Promise<T> {
+  const { token, expires } = await createSession(user.id);
+  response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions(expires));
+  return response;
+}
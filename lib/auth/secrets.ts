@@ -0,0 +1,81 @@
+import 'server-only';
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const ALGORITHM = 'aes-256-gcm';
+
+/**
+ * Error Types
+ */
+export class SecretStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretStorageError';
+  }
+}
+
+// Third-party tokens are only stored when they can be encrypted
+export function isSecretStorageConfigured(): boolean {
+  return Boolean(process.env.AUTH_SECRET);
+}
+
+function getKey(): Buffer {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new SecretStorageError('AUTH_SECRET is not configured');
+  }
+  return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * AES-256-GCM, stored as "<iv>.<tag>.<ciphertext>" in base64url
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), data].map((part) => part.toString('base64url')).join('.');
+}
+
+export function decryptSecret(stored: string): string {
+  const [iv, tag, data] = stored.split('.').map((part) => Buffer.from(part, 'base64url'));
+  if (!iv || !tag || !data) {
+    throw new SecretStorageError('Malformed secret');
+  }
+
+  try {
+    const decipher = createDecipheriv(ALGORITHM, getKey(), iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+  } catch {
+    // Usually AUTH_SECRET changed since the secret was stored
+    throw new SecretStorageError('Secret could not be decrypted');
+  }
+}
+
+// Separate from the encryption key, so a signature never reveals anything about it
+function getSigningKey(): Buffer {
+  return createHmac('sha256', getKey()).update('signing').digest();
+}
+
+/**
+ * HMAC-SHA256 signed value, as "<value>.<signature>" with the signature in base64url
+ */
+export function signValue(value: string): string {
+  const signature = createHmac('sha256', getSigningKey()).update(value).digest('base64url');
+  return `${value}.${signature}`;
+}
+
+/**
+ * The value of a signed string, or null when the signature doesn't match
+ */
+export function readSignedValue(signed: string): string | null {
+  const separator = signed.lastIndexOf('.');
+  if (separator <= 0) {
+    return null;
+  }
+
+  const value = signed.slice(0, separator);
+  const actual = Buffer.from(signed.slice(separator + 1), 'base64url');
+  const expected = createHmac('sha256', getSigningKey()).update(value).digest();
+  return actual.length === expected.length && timingSafeEqual(actual, expected) ? value : null;
+}
@@ -0,0 +1,72 @@
+import 'server-only';
+import { createHash, randomBytes } from 'crypto';
+import { getCollection } from '@/lib/mongodb';
+import { Session, User } from '@/lib/types';
+import { SESSION_COOKIE, SESSION_TTL_MS } from './cookie';
+import { findUserById } from './users';
+
+let indexesReady: Promise<void> | null = null;
+
+async function getSessionsCollection() {
+  const collection = await getCollection('sessions');
+
+  if (!indexesReady) {
+    indexesReady = (async () => {
+      await collection.createIndex({ token_hash: 1 }, { unique: true });
+      // Mongo deletes sessions once they expire
+      await collection.createIndex({ expires_at: 1 }, { expireAfterSeconds: 0 });
+    })().catch((error) => {
+      indexesReady = null;
+      throw error;
+    });
+  }
+  await indexesReady;
+
+  return collection;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Start a session; the returned token goes in the session cookie
+ */
+export async function createSession(userId: string): Promise<{ token: string; expires: Date }> {
+  const collection = await getSessionsCollection();
+  const token = randomBytes(32).toString('base64url');
+  const session: Session = {
+    token_hash: hashToken(token),
+    user_id: userId,
+    created_at: new Date(),
+    expires_at: new Date(Date.now() + SESSION_TTL_MS),
+  };
+
+  await collection.insertOne({ ...session });
+  return { token, expires: session.expires_at };
+}
+
+export async function deleteSession(token: string): Promise<void> {
+  const collection = await getSessionsCollection();
+  await collection.deleteOne({ token_hash: hashToken(token) });
+}
+
+// request.cookies in route handlers, `await cookies()` in server components and actions
+export interface CookieReader {
+  get(name: string): { value: string } | undefined;
+}
+
+/**
+ * User signed in with the session cookie, if the session is still valid
+ */
+export async function getSessionUser(cookies: CookieReader): Promise<User | null> {
+  const token = cookies.get(SESSION_COOKIE)?.value;
+  if (!token) {
+    return null;
+  }
+
+  const collection = await getSessionsCollection();
+  // The TTL monitor only runs once a minute, so check the expiry here too
+  const session = await collection.findOne<Session>({ token_hash: hashToken(token), expires_at: { $gt: new Date() } });
+  return session ? findUserById(session.user_id) : null;
+}
@@ -0,0 +1,64 @@
+import 'server-only';
+import type { Podcast } from '@/lib/types';
+import { isSecretStorageConfigured, readSignedValue, signValue } from './secrets';
+import type { CookieReader } from './sessions';
+
+export const DEFAULT_SHARE_TTL_DAYS = 7;
+export const MAX_SHARE_TTL_DAYS = 30;
+
+const SHARE_COOKIE_PREFIX = 'afv_share_';
+
+export interface ShareGrant {
+  podcastId: string;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+// Opening a share link stores its token in a cookie for that case
+export function shareCookieName(podcastId: string): string {
+  return `${SHARE_COOKIE_PREFIX}${podcastId}`;
+}
+
+/**
+ * Signed token that lets anyone holding it see an unlisted case until it expires
+ */
+export function createShareToken(podcastId: string, expiresAt: Date): string {
+  const payload = { p: podcastId, i: Date.now(), e: expiresAt.getTime() };
+  return signValue(Buffer.from(JSON.stringify(payload)).toString('base64url'));
+}
+
+/**
+ * What a share token grants, or null when it is forged, malformed or expired
+ */
+export function readShareToken(token: string): ShareGrant | null {
+  if (!isSecretStorageConfigured()) {
+    return null;
+  }
+
+  const value = readSignedValue(token);
+  if (!value) {
+    return null;
+  }
+
+  try {
+    const { p, i, e } = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof p !== 'string' || typeof i !== 'number' || typeof e !== 'number' || e <= Date.now()) {
+      return null;
+    }
+    return { podcastId: p, issuedAt: new Date(i), expiresAt: new Date(e) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The cookies hold a live share link for the case
+ */
+export function hasShareAccess(cookies: CookieReader, podcast: Pick<Podcast, 'id' | 'shares_revoked_at'>): boolean {
+  const token = cookies.get(shareCookieName(podcast.id))?.value;
+  const grant = token ? readShareToken(token) : null;
+  if (!grant || grant.podcastId !== podcast.id) {
+    return false;
+  }
+  return !podcast.shares_revoked_at || grant.issuedAt > new Date(podcast.shares_revoked_at);
+}
@@ -0,0 +1,186 @@
+import 'server-only';
+import { getCollection } from '@/lib/mongodb';
+import { PublicUser, User } from '@/lib/types';
+import { hashPassword, verifyPassword } from './passwords';
+import { decryptSecret, encryptSecret } from './secrets';
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+/**
+ * Error Types
+ */
+export class EmailTakenError extends Error {
+  constructor(email: string) {
+    super(`An account for ${email} already exists`);
+    this.name = 'EmailTakenError';
+  }
+}
+
+export class GitHubAccountTakenError extends Error {
+  constructor(login: string) {
+    super(`GitHub account ${login} is already linked to another user`);
+    this.name = 'GitHubAccountTakenError';
+  }
+}
+
+let indexesReady: Promise<void> | null = null;
+
+async function getUsersCollection() {
+  const collection = await getCollection('users');
+
+  if (!indexesReady) {
+    indexesReady = (async () => {
+      await collection.createIndex({ id: 1 }, { unique: true });
+      await collection.createIndex({ email: 1 }, { unique: true, sparse: true });
+      await collection.createIndex({ github_id: 1 }, { unique: true, sparse: true });
+    })().catch((error) => {
+      indexesReady = null;
+      throw error;
+    });
+  }
+  await indexesReady;
+
+  return collection;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function toPublicUser(user: User): PublicUser {
+  return {
+    id: user.id,
+    name: user.name,
+    ...(user.email && { email: user.email }),
+    ...(user.github_login && { github_login: user.github_login }),
+    ...(user.avatar_url && { avatar_url: user.avatar_url }),
+    private_repo_access: Boolean(user.github_token && user.github_scopes?.includes('repo')),
+  };
+}
+
+export async function findUserById(id: string): Promise<User | null> {
+  const collection = await getUsersCollection();
+  return collection.findOne<User>({ id }, { projection: { _id: 0 } });
+}
+
+export async function createPasswordUser(email: string, password: string, name?: string): Promise<User> {
+  const collection = await getUsersCollection();
+  const normalized = normalizeEmail(email);
+  const user: User = {
+    id: crypto.randomUUID(),
+    name: name?.trim() || normalized.split('@')[0],
+    email: normalized,
+    password_hash: await hashPassword(password),
+    created_at: new Date(),
+    last_login_at: new Date(),
+  };
+
+  try {
+    await collection.insertOne({ ...user });
+  } catch (error) {
+    if ((error as { code?: number }).code === DUPLICATE_KEY_ERROR) {
+      throw new EmailTakenError(normalized);
+    }
+    throw error;
+  }
+  return user;
+}
+
+/**
+ * The account for an email and password, or null if either is wrong
+ */
+export async function authenticateWithPassword(email: string, password: string): Promise<User | null> {
+  const collection = await getUsersCollection();
+  const user = await collection.findOne<User>({ email: normalizeEmail(email) }, { projection: { _id: 0 } });
+  if (!user?.password_hash || !(await verifyPassword(password, user.password_hash))) {
+    return null;
+  }
+
+  await collection.updateOne({ id: user.id }, { $set: { last_login_at: new Date() } });
+  return user;
+}
+
+/**
+ * Find or create the account linked to a GitHub user, refreshing its profile
+ */
+export async function upsertGitHubUser(profile: {
+  id: number;
+  login: string;
+  name?: string | null;
+  avatar_url?: string;
+}): Promise<User> {
+  const collection = await getUsersCollection();
+  const user = await collection.findOneAndUpdate(
+    { github_id: profile.id },
+    {
+      $set: {
+        github_login: profile.login,
+        ...(profile.avatar_url && { avatar_url: profile.avatar_url }),
+        last_login_at: new Date(),
+      },
+      $setOnInsert: {
+        id: crypto.randomUUID(),
+        name: profile.name || profile.login,
+        github_id: profile.id,
+        created_at: new Date(),
+      },
+    },
+    { upsert: true, returnDocument: 'after', projection: { _id: 0 } }
+  );
+
+  return user as unknown as User;
+}
+
+/**
+ * Link a GitHub account to a signed-in user and keep its token (encrypted)
+ * so their private repositories can be investigated
+ */
+export async function connectGitHubAccount(
+  userId: string,
+  profile: { id: number; login: string; avatar_url?: string },
+  token: string,
+  scopes: string[]
+): Promise<void> {
+  const collection = await getUsersCollection();
+
+  const linked = await collection.findOne<User>({ github_id: profile.id }, { projection: { id: 1 } });
+  if (linked && linked.id !== userId) {
+    throw new GitHubAccountTakenError(profile.login);
+  }
+
+  await collection.updateOne(
+    { id: userId },
+    {
+      $set: {
+        github_id: profile.id,
+        github_login: profile.login,
+        ...(profile.avatar_url && { avatar_url: profile.avatar_url }),
+        github_token: encryptSecret(token),
+        github_scopes: scopes,
+      },
+    }
+  );
+}
+
+export async function disconnectGitHubToken(userId: string): Promise<void> {
+  const collection = await getUsersCollection();
+  await collection.updateOne({ id: userId }, { $unset: { github_token: '', github_scopes: '' } });
+}
+
+/**
+ * The user's GitHub token, if they connected GitHub and it can still be decrypted
+ */
+export async function getGitHubToken(userId: string): Promise<string | undefined> {
+  const collection = await getUsersCollection();
+  const user = await collection.findOne<User>({ id: userId }, { projection: { github_token: 1 } });
+  if (!user?.github_token) {
+    return undefined;
+  }
+
+  try {
+    return decryptSecret(user.github_token);
+  } catch (error) {
+    console.warn(`[Auth] Ignoring unreadable GitHub token of user ${userId}:`, error);
+    return undefined;
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  citationsToRecheck,
+  evidenceHref,
+  formatCodeReference,
+  recheckEditedCitations,
+  verifyCodeReferences,
+} from './citations';
+import type { CodeReference, ScriptSegment } from './types';
+
+const cite = (code_reference: CodeReference, text = 'Look at this.'): ScriptSegment => ({
+  speaker: 'narrator',
+  text,
+  code_reference,
+});
+
+// Ten lines, with a trailing newline
+const file = { path: 'src/index.ts', content: `${Array.from({ length: 10 }, (_, i) => `line ${i + 1}`).join('\n')}\n` };
+
+describe('verifyCodeReferences', () => {
+  it('verifies citations inside fetched files and flags the ones past their end', () => {
+    const result = verifyCodeReferences(
+      [
+        cite({ path: './src/index.ts', start_line: 2, end_line: 10 }),
+        cite({ path: 'src/index.ts', start_line: 9, end_line: 11 }),
+        { speaker: 'narrator', text: 'No citation here.' },
+      ],
+      [file]
+    );
+
+    expect(result).toMatchObject({ verified: 1, flagged: 1, dropped: 0 });
+    expect(result.segments.map((segment) => segment.code_reference)).toEqual([
+      { path: 'src/index.ts', start_line: 2, end_line: 10, verified: true },
+      { path: 'src/index.ts', start_line: 9, end_line: 11, verified: false },
+      undefined,
+    ]);
+  });
+
+  it('drops citations of files that were never fetched', () => {
+    const result = verifyCodeReferences([cite({ path: 'src/made-up.ts', start_line: 1, end_line: 2 })], [file]);
+    expect(result).toMatchObject({ verified: 0, flagged: 0, dropped: 1 });
+    expect(result.segments[0].code_reference).toBeUndefined();
+  });
+});
+
+describe('recheckEditedCitations', () => {
+  const previous = [cite({ path: 'src/index.ts', start_line: 1, end_line: 3, verified: true })];
+
+  it('lists only the files of new or changed citations', () => {
+    const edited = [
+      cite({ path: 'src/index.ts', start_line: 1, end_line: 3 }, 'Reworded.'),
+      cite({ path: './lib/db.ts', start_line: 4, end_line: 8 }),
+      cite({ path: 'lib/db.ts', start_line: 20, end_line: 22 }),
+    ];
+    expect(citationsToRecheck(previous, edited)).toEqual(['lib/db.ts']);
+  });
+
+  it('keeps the verdict of unchanged citations and checks the rest', () => {
+    const edited = [
+      cite({ path: 'src/index.ts', start_line: 1, end_line: 3 }),
+      cite({ path: 'src/index.ts', start_line: 5, end_line: 10 }),
+      cite({ path: 'src/index.ts', start_line: 8, end_line: 40 }),
+      cite({ path: 'lib/missing.ts', start_line: 1, end_line: 1 }),
+    ];
+    const files = new Map([
+      ['src/index.ts', file.content],
+      ['lib/missing.ts', null],
+    ]);
+
+    expect(recheckEditedCitations(previous, edited, files).map((segment) => segment.code_reference?.verified)).toEqual([
+      true,
+      true,
+      false,
+      false,
+    ]);
+  });
+
+  it("ignores what the client claims about a citation's verification", () => {
+    const edited = [cite({ path: 'src/index.ts', start_line: 8, end_line: 40, verified: true })];
+    const [segment] = recheckEditedCitations(previous, edited, new Map([['src/index.ts', file.content]]));
+    expect(segment.code_reference).toEqual({ path: 'src/index.ts', start_line: 8, end_line: 40, verified: false });
+  });
+});
+
+describe('evidenceHref', () => {
+  it('links to the cited lines, or to the whole file when they were not verified', () => {
+    const ref = { path: 'src/index.ts', start_line: 2, end_line: 4 };
+    expect(evidenceHref('case-1', ref)).toBe('/case/case-1?file=src%2Findex.ts&lines=2-4');
+    expect(evidenceHref('case-1', { ...ref, verified: false })).toBe('/case/case-1?file=src%2Findex.ts');
+  });
+});
+
+describe('formatCodeReference', () => {
+  it('writes single lines without a range', () => {
+    expect(formatCodeReference({ path: 'a.ts', start_line: 3, end_line: 3 })).toBe('a.ts:3');
+    expect(formatCodeReference({ path: 'a.ts', start_line: 3, end_line: 9 })).toBe('a.ts:3-9');
+  });
+});
@@ -0,0 +1,129 @@
+import type { CodeReference, ScriptSegment } from './types';
+
+export interface CitationCheck {
+  segments: ScriptSegment[];
+  verified: number;
+  flagged: number;
+  dropped: number;
+}
+
+function normalizeCitationPath(path: string): string {
+  return path.trim().replace(/^\.?\/+/, '');
+}
+
+function countLines(content: string): number {
+  return content.replace(/\n$/, '').split('\n').length;
+}
+
+function citationKey(ref: CodeReference): string {
+  return `${normalizeCitationPath(ref.path)}:${ref.start_line}-${ref.end_line}`;
+}
+
+/**
+ * Check every code_reference against the files the script was written from.
+ * Citations of files that weren't fetched are dropped; citations of lines past
+ * the end of a file are kept but marked unverified.
+ */
+export function verifyCodeReferences(
+  segments: ScriptSegment[],
+  files: { path: string; content: string }[]
+): CitationCheck {
+  const lineCounts = new Map(files.map((file) => [file.path, countLines(file.content)]));
+  const result: CitationCheck = { segments: [], verified: 0, flagged: 0, dropped: 0 };
+
+  for (const segment of segments) {
+    const ref = segment.code_reference;
+    if (!ref) {
+      result.segments.push(segment);
+      continue;
+    }
+
+    const path = normalizeCitationPath(ref.path);
+    const lineCount = lineCounts.get(path);
+    if (lineCount === undefined) {
+      result.dropped++;
+      result.segments.push({ ...segment, code_reference: undefined });
+      continue;
+    }
+
+    const verified = ref.end_line <= lineCount;
+    result[verified ? 'verified' : 'flagged']++;
+    result.segments.push({ ...segment, code_reference: { ...ref, path, verified } });
+  }
+
+  return result;
+}
+
+/**
+ * Files whose citations in an edited script are new or changed, and so need checking
+ */
+export function citationsToRecheck(previous: ScriptSegment[], edited: ScriptSegment[]): string[] {
+  const known = new Set(previous.flatMap((segment) => (segment.code_reference ? [citationKey(segment.code_reference)] : [])));
+  const paths = edited
+    .map((segment) => segment.code_reference)
+    .filter((ref): ref is CodeReference => !!ref && !known.has(citationKey(ref)))
+    .map((ref) => normalizeCitationPath(ref.path));
+  return [...new Set(paths)];
+}
+
+/**
+ * Citations of an edited script can't vouch for themselves: unchanged ones
+ * keep the verdict they had, the others are checked against `files` (path to
+ * content, null when it couldn't be read)
+ */
+export function recheckEditedCitations(
+  previous: ScriptSegment[],
+  edited: ScriptSegment[],
+  files: Map<string, string | null>
+): ScriptSegment[] {
+  const verdicts = new Map(
+    previous.flatMap((segment) =>
+      segment.code_reference ? [[citationKey(segment.code_reference), segment.code_reference.verified] as const] : []
+    )
+  );
+
+  return edited.map((segment) => {
+    const ref = segment.code_reference;
+    if (!ref) {
+      return segment;
+    }
+
+    const path = normalizeCitationPath(ref.path);
+    const key = citationKey(ref);
+    const content = files.get(path);
+    const verified = verdicts.has(key)
+      ? verdicts.get(key)
+      : typeof content === 'string' && ref.end_line <= countLines(content);
+
+    // Whatever the client claimed about `verified` is ignored
+    return {
+      ...segment,
+      code_reference: {
+        path,
+        start_line: ref.start_line,
+        end_line: ref.end_line,
+        ...(verified !== undefined && { verified }),
+      },
+    };
+  });
+}
+
+/**
+ * Case file URL that opens the cited code in the evidence locker
+ */
+export function evidenceHref(podcastId: string, ref: CodeReference): string {
+  const params = new URLSearchParams({ file: ref.path });
+  if (ref.verified !== false) {
+    params.set('lines', `${ref.start_line}-${ref.end_line}`);
+  }
+  return `/case/${podcastId}?${params.toString()}`;
+}
+
+/**
+ * "src/app.ts:12-30"
+ */
+export function formatCodeReference(ref: CodeReference): string {
+  return ref.start_line === ref.end_line
+    ? `${ref.path}:${ref.start_line}`
+    : `${ref.path}:${ref.start_line}-${ref.end_line}`;
+}
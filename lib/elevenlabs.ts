@@ -13,6 +13,9 @@ export const VOICE_IDS = {
   // Sports commentary voices
   commentator_1: 'gU0LNdkMOQCOrPrwtbee',
   commentator_2: 'UPZIegnxY8z2Ya7jignw',
+  // Comedy roast voices
+  comic: 'IKne3meq5aSn9XLyUdCD',
+  heckler: 'CYw3kZ02Hs0563khs1Fj',
 };
 
 // Get voice ID based on speaker type
@@ -22,6 +25,8 @@ export function getVoiceIdForSpeaker(speaker: string): string {
   
   if (lowerSpeaker === 'commentator_1') return VOICE_IDS.commentator_1;
   if (lowerSpeaker === 'commentator_2') return VOICE_IDS.commentator_2;
+  if (lowerSpeaker === 'comic') return VOICE_IDS.comic;
+  if (lowerSpeaker === 'heckler') return VOICE_IDS.heckler;
   if (lowerSpeaker === 'detective') return VOICE_IDS.detective;
   if (lowerSpeaker === 'documentary') return VOICE_IDS.documentary;
   if (lowerSpeaker === 'narrator') return VOICE_IDS.narrator;
@@ -48,6 +53,16 @@ interface VoiceSettings {
   use_speaker_boost?: boolean;
 }
 
+/**
+ * Characters ElevenLabs bills for a script: the text of every voiced segment
+ * (sound effect cues aren't spoken)
+ */
+export function countSpeechCharacters(segments: Array<{ speaker?: string; text?: string }>): number {
+  return segments
+    .filter((segment) => !segment.speaker || segment.speaker.toLowerCase() !== 'sound_effect')
+    .reduce((total, segment) => total + (segment.text?.trim() ? segment.text.length : 0), 0);
+}
+
 /**
  * Generate speech from text using ElevenLabs API
  * Returns the audio as a Buffer
@@ -205,6 +220,27 @@ function getEmotionSettings(emotion?: string): Partial<TextToSpeechOptions> {
       similarityBoost: 0.8,
       style: 0.9,
     },
+    // Comedy roast
+    smug: {
+      stability: 0.45,
+      similarityBoost: 0.75,
+      style: 0.7,
+    },
+    deadpan: {
+      stability: 0.8,
+      similarityBoost: 0.8,
+      style: 0.2,
+    },
+    incredulous: {
+      stability: 0.3,
+      similarityBoost: 0.75,
+      style: 0.85,
+    },
+    heckling: {
+      stability: 0.25,
+      similarityBoost: 0.7,
+      style: 0.9,
+    },
   };
 
   return settings[emotion || ''] || {
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { parseSpokenNumber, remapSegmentChecks, withoutSegmentChecks } from './fact-check';
+import type { FactCheckReport, ScriptSegment, SegmentFactCheck } from './types';
+
+const check = (index: number, confidence: number, fields: Partial<SegmentFactCheck> = {}): SegmentFactCheck => ({
+  index,
+  confidence,
+  claims: [],
+  flagged: confidence < 0.5,
+  ...fields,
+});
+
+const report = (segments: SegmentFactCheck[]): FactCheckReport => ({ segments, confidence: 0, rewritten: 0, flagged: 0 });
+
+const line = (text: string, speaker = 'narrator'): ScriptSegment => ({ speaker, text });
+
+describe('withoutSegmentChecks', () => {
+  it('drops the checks of rewritten segments and sums up the rest again', () => {
+    const result = withoutSegmentChecks(
+      report([check(0, 1), check(1, 0.2), check(2, 0.4, { original_text: 'It had 3 stars.' }), check(3, 0.8)]),
+      1,
+      2
+    );
+
+    expect(result).toEqual({
+      segments: [check(0, 1), check(3, 0.8)],
+      confidence: 0.9,
+      rewritten: 0,
+      flagged: 0,
+    });
+  });
+
+  it('is fully confident once no checked segment is left', () => {
+    expect(withoutSegmentChecks(report([check(0, 0.2)]), 0, 1)).toEqual({
+      segments: [],
+      confidence: 1,
+      rewritten: 0,
+      flagged: 0,
+    });
+  });
+});
+
+describe('remapSegmentChecks', () => {
+  const before = [line('Intro.'), line('It has 40 files.'), line('Written in Go.', 'detective')];
+
+  it('follows checks to where their segments moved', () => {
+    const after = [line('A new opening.'), line('Intro.'), line('Written in Go.', 'detective'), line('It has 40 files.')];
+    const result = remapSegmentChecks(report([check(1, 1), check(2, 0.3)]), before, after);
+
+    expect(result.segments).toEqual([check(2, 0.3), check(3, 1)]);
+    expect(result).toMatchObject({ confidence: 0.65, flagged: 1 });
+  });
+
+  it('drops checks of segments that were reworded, reassigned or deleted', () => {
+    const after = [line('Intro.'), line('It has 41 files.'), line('Written in Go.')];
+    expect(remapSegmentChecks(report([check(0, 1), check(1, 1), check(2, 1)]), before, after).segments).toEqual([
+      check(0, 1),
+    ]);
+  });
+
+  it('maps each check to a different segment when the same line repeats', () => {
+    const repeated = [line('Again.'), line('Again.')];
+    expect(remapSegmentChecks(report([check(0, 1), check(1, 0.6)]), repeated, repeated).segments).toEqual([
+      check(0, 1),
+      check(1, 0.6),
+    ]);
+  });
+});
+
+describe('parseSpokenNumber', () => {
+  it('reads digits and spelled-out numbers', () => {
+    expect(parseSpokenNumber('38,912')).toBe(38912);
+    expect(parseSpokenNumber('forty thousand')).toBe(40000);
+    expect(parseSpokenNumber('twenty-three')).toBe(23);
+  });
+});
@@ -0,0 +1,321 @@
+import type { GitHubRepo } from './github/client';
+import type { FileWithContent, RepositoryTree } from './github/fetcher';
+import type { FactCheckReport, FactClaim, PodcastScript, ScriptSegment, SegmentFactCheck } from './types';
+
+/**
+ * Everything the script's claims are checked against
+ */
+export interface RepoFacts {
+  repository: GitHubRepo;
+  tree: RepositoryTree;
+  files: FileWithContent[];
+  contributors: string[];
+  patterns: string[];
+}
+
+// Segments still below this after corrections are flagged for review
+const LOW_CONFIDENCE = 0.5;
+// Dramatic rounding is fine ("forty thousand lines" for 38,912)
+const COUNT_TOLERANCE = 0.15;
+const UNVERIFIABLE_WEIGHT = 0.6;
+
+const NUMBER_WORDS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50,
+  sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+};
+const SCALE_WORDS: Record<string, number> = { hundred: 100, thousand: 1000, million: 1000000 };
+
+const NUMBER_WORD = [...Object.keys(NUMBER_WORDS), ...Object.keys(SCALE_WORDS)].join('|');
+const COUNT_PATTERN = new RegExp(
+  `\\b(\\d[\\d,]*(?:\\.\\d+)?\\s*[km]?|(?:(?:${NUMBER_WORD})(?:[\\s-]+(?:and[\\s-]+)?)?)+)\\s+` +
+    `(lines? of code|lines|files?|stars?|contributors?|dependencies|languages)\\b`,
+  'gi'
+);
+
+const FILE_PATTERN =
+  /\b[\w-]+(?:\/[\w.-]+)*\.(?:tsx?|jsx?|mjs|cjs|py|go|rs|java|rb|php|json|ya?ml|toml|md|css|scss|html|c|cpp|h|swift|kt|vue|svelte)\b/g;
+// Framework names that look like file names
+const NOT_FILES = new Set(['node.js', 'next.js', 'vue.js', 'nuxt.js', 'express.js', 'react.js', 'angular.js', 'three.js', 'd3.js', 'chart.js', 'ember.js']);
+
+const LANGUAGE_EXTENSIONS: Record<string, string[]> = {
+  TypeScript: ['ts', 'tsx'],
+  JavaScript: ['js', 'jsx', 'mjs', 'cjs'],
+  Python: ['py'],
+  Golang: ['go'],
+  Rust: ['rs'],
+  Java: ['java'],
+  Ruby: ['rb'],
+  PHP: ['php'],
+  'C++': ['cpp', 'cc', 'hpp'],
+  'C#': ['cs'],
+  Swift: ['swift'],
+  Kotlin: ['kt'],
+  Scala: ['scala'],
+};
+
+// Display name -> package names that would prove it's a dependency
+const KNOWN_DEPENDENCIES: Record<string, string[]> = {
+  React: ['react'],
+  'Next.js': ['next'],
+  Express: ['express'],
+  Vue: ['vue'],
+  Angular: ['@angular/core'],
+  Svelte: ['svelte'],
+  Mongoose: ['mongoose'],
+  Prisma: ['prisma', '@prisma/client'],
+  Redux: ['redux', '@reduxjs/toolkit'],
+  Tailwind: ['tailwindcss'],
+  Jest: ['jest'],
+  Vitest: ['vitest'],
+  GraphQL: ['graphql'],
+  Django: ['django'],
+  Flask: ['flask'],
+  FastAPI: ['fastapi'],
+  Axios: ['axios'],
+  Lodash: ['lodash'],
+  Webpack: ['webpack'],
+  Vite: ['vite'],
+};
+
+const PATTERN_CLAIMS: { pattern: RegExp; name: string }[] = [
+  { pattern: /\b(docker|containeri[sz]ed|containeri[sz]ation)\b/i, name: 'Containerization' },
+  { pattern: /\b(CI\/CD|continuous integration|github actions)\b/i, name: 'CI/CD Pipeline' },
+  { pattern: /\bmonorepo\b/i, name: 'Monorepo Structure' },
+  { pattern: /\b(test suite|unit tests|test-driven|TDD)\b/i, name: 'Test-Driven Development' },
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * "38,912", "1.2k" or "forty thousand" as a number
+ */
+export function parseSpokenNumber(text: string): number | null {
+  const digits = text.trim().toLowerCase().match(/^(\d[\d,]*(?:\.\d+)?)\s*([km]?)$/);
+  if (digits) {
+    const value = parseFloat(digits[1].replace(/,/g, ''));
+    return value * (digits[2] === 'k' ? 1000 : digits[2] === 'm' ? 1000000 : 1);
+  }
+
+  let total = 0;
+  let current = 0;
+  const words = text.toLowerCase().split(/[\s-]+/).filter((word) => word && word !== 'and');
+  if (words.length === 0) return null;
+
+  for (const word of words) {
+    if (word in NUMBER_WORDS) {
+      current += NUMBER_WORDS[word];
+    } else if (word === 'hundred') {
+      current = (current || 1) * 100;
+    } else if (word in SCALE_WORDS) {
+      total += (current || 1) * SCALE_WORDS[word];
+      current = 0;
+    } else {
+      return null;
+    }
+  }
+  return total + current;
+}
+
+function isClose(claimed: number, actual: number): boolean {
+  return Math.abs(claimed - actual) <= Math.max(1, actual * COUNT_TOLERANCE);
+}
+
+function getDependencies(files: FileWithContent[]): Set<string> | null {
+  const manifests = files.filter((file) => /(^|\/)(package\.json|requirements\.txt|pyproject\.toml|go\.mod)$/.test(file.path));
+  if (manifests.length === 0) return null;
+
+  const dependencies = new Set<string>();
+  for (const manifest of manifests) {
+    if (manifest.path.endsWith('package.json')) {
+      try {
+        const pkg = JSON.parse(manifest.content);
+        for (const field of ['dependencies', 'devDependencies', 'peerDependencies']) {
+          Object.keys(pkg[field] || {}).forEach((name) => dependencies.add(name.toLowerCase()));
+        }
+      } catch {
+        // Not valid JSON; nothing to learn from it
+      }
+    } else {
+      // One requirement or module per line: "django>=4.2", "github.com/gin-gonic/gin v1.9.1"
+      for (const line of manifest.content.split('\n')) {
+        const name = line.trim().match(/^"?([A-Za-z0-9_.\-/@]+)/)?.[1];
+        if (name) dependencies.add(name.toLowerCase().split('/').pop()!);
+      }
+    }
+  }
+  return dependencies;
+}
+
+/**
+ * Find the factual claims of a segment and check each one against the repository
+ */
+export function checkClaims(text: string, facts: RepoFacts): FactClaim[] {
+  const claims: FactClaim[] = [];
+  const { repository, tree, files, contributors, patterns } = facts;
+  const extensions = new Set(tree.codeFiles.map((file) => file.path.split('.').pop()?.toLowerCase() || ''));
+  const allFilesFetched = files.length >= tree.codeFiles.length;
+  const totalLines = files.reduce((sum, file) => sum + (file.analysis?.linesOfCode || 0), 0);
+  const dependencies = getDependencies(files);
+
+  for (const match of text.matchAll(COUNT_PATTERN)) {
+    const claimed = parseSpokenNumber(match[1]);
+    if (claimed === null) continue;
+    const unit = match[2].toLowerCase();
+
+    const judge = (actual: number | null, canContradict = true): FactClaim => {
+      if (actual === null) return { kind: 'count', text: match[0], status: 'unverifiable' };
+      if (isClose(claimed, actual)) return { kind: 'count', text: match[0], status: 'supported' };
+      return canContradict
+        ? { kind: 'count', text: match[0], status: 'contradicted', expected: `${actual.toLocaleString('en-US')} ${match[2]}` }
+        : { kind: 'count', text: match[0], status: 'unverifiable' };
+    };
+
+    if (unit.startsWith('star')) {
+      claims.push({ ...judge(repository.stars), kind: 'stars' });
+    } else if (unit.startsWith('file')) {
+      // Any of the counts the script was told about will do
+      const candidates = [tree.totalFiles, tree.codeFiles.length, files.length];
+      const close = candidates.find((actual) => isClose(claimed, actual));
+      claims.push(judge(close ?? tree.codeFiles.length));
+    } else if (unit.startsWith('line')) {
+      // Only the fetched files were counted; without all of them a mismatch proves nothing
+      claims.push(judge(totalLines, allFilesFetched));
+    } else if (unit.startsWith('contributor')) {
+      // The contributor list is capped, so only too few is provably wrong
+      claims.push(claimed < contributors.length ? judge(contributors.length) : judge(contributors.length, false));
+    } else if (unit === 'dependencies') {
+      claims.push(judge(dependencies ? dependencies.size : null));
+    } else if (unit === 'languages') {
+      claims.push(judge(new Set(files.map((file) => file.path.split('.').pop())).size, false));
+    }
+  }
+
+  for (const match of text.matchAll(FILE_PATTERN)) {
+    const name = match[0];
+    if (NOT_FILES.has(name.toLowerCase())) continue;
+    const found = tree.codeFiles.some((file) => {
+      const path = file.path.toLowerCase();
+      return path === name.toLowerCase() || path.endsWith(`/${name.toLowerCase()}`);
+    });
+    claims.push({ kind: 'file', text: name, status: found ? 'supported' : 'contradicted' });
+  }
+
+  for (const [language, exts] of Object.entries(LANGUAGE_EXTENSIONS)) {
+    // Case-sensitive and whole-word, so "java" in "JavaScript" doesn't count
+    if (!new RegExp(`(^|[^\\w])${escapeRegExp(language)}(?![\\w+#])`).test(text)) continue;
+    const found = repository.language === language || exts.some((ext) => extensions.has(ext));
+    claims.push({ kind: 'language', text: language, status: found ? 'supported' : 'contradicted' });
+  }
+
+  for (const [name, packages] of Object.entries(KNOWN_DEPENDENCIES)) {
+    if (!new RegExp(`\\b${escapeRegExp(name)}(?!\\w)`).test(text)) continue;
+    claims.push({
+      kind: 'dependency',
+      text: name,
+      status: !dependencies ? 'unverifiable' : packages.some((pkg) => dependencies.has(pkg)) ? 'supported' : 'contradicted',
+    });
+  }
+
+  for (const { pattern, name } of PATTERN_CLAIMS) {
+    const match = text.match(pattern);
+    if (!match) continue;
+    // Patterns are detected from the fetched files only, so a miss isn't proof
+    claims.push({ kind: 'pattern', text: match[0], status: patterns.includes(name) ? 'supported' : 'unverifiable' });
+  }
+
+  return claims;
+}
+
+function confidenceOf(claims: FactClaim[]): number {
+  if (claims.length === 0) return 1;
+  const score = claims.reduce(
+    (sum, claim) => sum + (claim.status === 'supported' ? 1 : claim.status === 'unverifiable' ? UNVERIFIABLE_WEIGHT : 0),
+    0
+  );
+  return Math.round((score / claims.length) * 100) / 100;
+}
+
+/**
+ * Check every segment, correct contradicted figures where the real value is
+ * known, and flag segments that are still low confidence
+ */
+export function factCheckScript(script: PodcastScript, facts: RepoFacts): { script: PodcastScript; report: FactCheckReport } {
+  const reports: SegmentFactCheck[] = [];
+
+  const segments = script.segments.map((segment, index) => {
+    let claims = checkClaims(segment.text, facts);
+    if (claims.length === 0) return segment;
+
+    let text = segment.text;
+    for (const claim of claims) {
+      if (claim.status === 'contradicted' && claim.expected) {
+        text = text.replace(claim.text, claim.expected);
+      }
+    }
+    if (text !== segment.text) {
+      claims = checkClaims(text, facts);
+    }
+
+    const confidence = confidenceOf(claims);
+    reports.push({
+      index,
+      confidence,
+      claims,
+      ...(text !== segment.text && { original_text: segment.text }),
+      flagged: confidence < LOW_CONFIDENCE,
+    });
+
+    return text === segment.text ? segment : { ...segment, text };
+  });
+
+  return {
+    script: { ...script, segments },
+    report: summarizeReports(reports),
+  };
+}
+
+/**
+ * Drop the checks of segments that were rewritten since, as they no longer
+ * describe the text
+ */
+export function withoutSegmentChecks(report: FactCheckReport, start: number, count: number): FactCheckReport {
+  return summarizeReports(report.segments.filter((segment) => segment.index < start || segment.index >= start + count));
+}
+
+/**
+ * Follow the checks to where their segments moved after an edit. Checks of
+ * segments whose text changed or that were deleted are dropped.
+ */
+export function remapSegmentChecks(
+  report: FactCheckReport,
+  before: ScriptSegment[],
+  after: ScriptSegment[]
+): FactCheckReport {
+  const taken = new Set<number>();
+  const reports = report.segments.flatMap((check) => {
+    const original = before[check.index];
+    const index = after.findIndex(
+      (segment, i) => !taken.has(i) && original && segment.speaker === original.speaker && segment.text === original.text
+    );
+    if (index === -1) return [];
+    taken.add(index);
+    return [{ ...check, index }];
+  });
+  return summarizeReports(reports.sort((a, b) => a.index - b.index));
+}
+
+function summarizeReports(reports: SegmentFactCheck[]): FactCheckReport {
+  return {
+    segments: reports,
+    confidence:
+      reports.length > 0
+        ? Math.round((reports.reduce((sum, report) => sum + report.confidence, 0) / reports.length) * 100) / 100
+        : 1,
+    rewritten: reports.filter((report) => report.original_text !== undefined).length,
+    flagged: reports.filter((report) => report.flagged).length,
+  };
+}
@@ -1,145 +1,254 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { NarrativeStyle, PodcastScript, ScriptSegment } from './types';
+import { getLlmProvider, LlmJsonError, type LlmCallOptions, type LlmProvider } from './llm';
+import { Podcast, PodcastScript, PromptProvenance, ScriptGeneration, ScriptSegment, StyleDefinition } from './types';
+import { formatSchemaErrors, podcastScriptSchemaFor, segmentRewriteSchemaFor } from './script-schema';
+import { verifyCodeReferences } from './citations';
+import {
+  renderFallbackSegments,
+  renderStylePrompt,
+  sanitizeSegmentForStyle,
+  type StyleTemplateVars,
+} from './styles/registry';
 import { FileWithContent } from './github/fetcher';
 import { GitHubRepo } from './github/client';
+import { selectImportantFiles, type RepoStats } from './github/file-selector';
+import { estimateTokens, formatRepoForAI, formatWithinBudget } from './github/format-for-ai';
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-
-// Voice IDs for different styles
-export const VOICE_IDS = {
-  detective: '8iDUAV5slUpRv30f3cyz', // Main detective voice
-  sports_commentator_1: 'gU0LNdkMOQCOrPrwtbee', // Sports voice 1
-  sports_commentator_2: 'UPZIegnxY8z2Ya7jignw', // Sports voice 2
-  documentary: '8iDUAV5slUpRv30f3cyz', // Documentary narrator
-};
+export interface GeneratedScript {
+  script: PodcastScript;
+  generation: ScriptGeneration;
+  provenance: PromptProvenance;
+}
 
 export async function generatePodcastScript(
   repoData: GitHubRepo,
   files: FileWithContent[],
-  narrativeStyle: NarrativeStyle,
+  style: StyleDefinition,
   context?: {
     selectedFilesSummary?: any;
     statistics?: any;
     patterns?: string[];
     fullRepoContext?: boolean;
+    // Directory the episode is scoped to (e.g. one package of a monorepo)
+    path?: string;
+    signal?: AbortSignal;
+    // Defaults to the provider configured for the environment
+    provider?: LlmProvider;
   }
-): Promise<PodcastScript> {
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+): Promise<GeneratedScript> {
+  const provider = context?.provider ?? getLlmProvider();
 
   // Get style-specific prompt
-  const stylePrompt = getStyleSpecificPrompt(narrativeStyle, repoData, files, context);
-
-  console.log('[Gemini] Generating script with style:', narrativeStyle);
-  console.log(`[Gemini] Prompt length: ${stylePrompt.length} characters`);
-
-  // Truncate prompt if too large (Gemini has token limits)
-  const MAX_PROMPT_LENGTH = 30000; // ~7500 tokens
-  const truncatedPrompt = stylePrompt.length > MAX_PROMPT_LENGTH 
-    ? stylePrompt.substring(0, MAX_PROMPT_LENGTH) + '\n\n[Content truncated for length. Generate script based on available information.]'
-    : stylePrompt;
-  
-  if (truncatedPrompt.length < stylePrompt.length) {
-    console.log(`[Gemini] Prompt truncated from ${stylePrompt.length} to ${truncatedPrompt.length} characters`);
-  }
-  
-  if (!process.env.GEMINI_API_KEY) {
-    console.error('[Gemini] ❌ GEMINI_API_KEY is missing!');
-    throw new Error('GEMINI_API_KEY is not configured');
-  }
-  
-  console.log('[Gemini] Calling Gemini API...');
-  
-  let result;
-  try {
-    // Add timeout for Gemini API call (90 seconds)
-    result = await Promise.race([
-      model.generateContent(truncatedPrompt),
-      new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('Gemini API timeout after 90 seconds')), 90000)
-      )
-    ]);
-  } catch (apiError: any) {
-    console.error('[Gemini] ❌ API call failed:', apiError?.message);
-    throw new Error(`Gemini API error: ${apiError?.message || 'Unknown error'}`);
-  }
-  
-  const response = result.response;
-  const text = response.text();
+  const { prompt, templateVars, provenance } = await buildScriptPrompt(repoData, files, style, provider, context);
 
-  if (!text) {
-    throw new Error('Gemini returned an empty response');
-  }
+  console.log('[Gemini] Generating script with style:', style.id);
+  console.log(
+    `[Gemini] Prompt: ~${provenance.prompt_tokens}/${provenance.token_budget} tokens, ${provenance.chunks.length} code chunks (${provenance.dropped_chunks} left out)`
+  );
+
+  const schema = podcastScriptSchemaFor(style.speakers.map((speaker) => speaker.role));
+  const callOptions: LlmCallOptions = {
+    signal: context?.signal,
+    task: {
+      kind: 'script',
+      style,
+      vars: templateVars,
+      patterns: context?.patterns || [],
+      evidence: provenance.chunks,
+    },
+  };
 
-  // Parse the JSON response
-  const jsonMatch = text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    const previewText = text.length > 200 ? text.substring(0, 200) : text;
-    console.error('[Gemini] Failed to find JSON in response:', previewText);
-    console.log('[Gemini] Using fallback script for repository');
-    // Use fallback script when JSON parsing completely fails
+  console.log(`[Gemini] Calling ${provider.id} provider...`);
+  const first = await requestScript(provider, prompt, schema, callOptions);
+  if (first.success) {
+    console.log(`[Gemini] ✅ Script generated: "${first.script.title}" with ${first.script.segments.length} segments`);
     return {
-      title: `The Case of ${repoData.name}`,
-      narrator_voice: 'detective',
-      dramatic_arc: `Investigating ${repoData.fullName}`,
-      segments: generateFallbackSegments(repoData, files, narrativeStyle),
-      total_duration: 0,
+      script: finalizeScript(first.script, style, files),
+      generation: { status: 'generated', errors: [] },
+      provenance,
     };
   }
 
-  let scriptData;
+  console.warn(`[Gemini] Script failed validation, running repair pass:`, first.errors.slice(0, 5));
+
+  let repairErrors: string[];
   try {
-    scriptData = JSON.parse(jsonMatch[0]);
-  } catch (parseError) {
-    console.error('[Gemini] JSON parse error:', parseError);
-    console.error('[Gemini] Attempted to parse:', jsonMatch[0].substring(0, 500));
-    console.log('[Gemini] Using fallback script due to parse error');
-    // Use fallback script when JSON parsing fails
-    return {
+    const repairPrompt = getRepairPrompt(first.output, first.errors, style);
+    const repaired = await requestScript(provider, repairPrompt, schema, callOptions);
+    if (repaired.success) {
+      console.log(`[Gemini] ✅ Script repaired: "${repaired.script.title}" with ${repaired.script.segments.length} segments`);
+      return {
+        script: finalizeScript(repaired.script, style, files),
+        generation: { status: 'repaired', errors: first.errors },
+        provenance,
+      };
+    }
+    repairErrors = repaired.errors;
+  } catch (repairError: unknown) {
+    if (context?.signal?.aborted) {
+      throw repairError;
+    }
+    repairErrors = [repairError instanceof Error ? repairError.message : 'Repair pass failed'];
+  }
+
+  // Both attempts failed: use the style's canned script, and say so
+  console.warn('[Gemini] Repair pass failed, using the fallback script:', repairErrors.slice(0, 5));
+  return {
+    script: {
       title: `The Case of ${repoData.name}`,
-      narrator_voice: 'detective',
+      narrator_voice: style.narrator_voice,
       dramatic_arc: `Investigating ${repoData.fullName}`,
-      segments: generateFallbackSegments(repoData, files, narrativeStyle),
+      segments: renderFallbackSegments(style, templateVars),
       total_duration: 0,
-    };
-  }
+    },
+    generation: {
+      status: 'fallback',
+      errors: [...first.errors, ...repairErrors.map((error) => `repair pass: ${error}`)],
+    },
+    provenance,
+  };
+}
 
-  console.log(`[Gemini] ✅ Script generated: "${scriptData.title}" with ${scriptData.segments?.length || 0} segments`);
-
-  // Validate and sanitize segments to prevent undefined text errors
-  let validatedSegments = (scriptData.segments || [])
-    .filter((seg: any) => seg && typeof seg === 'object')
-    .map((seg: any) => ({
-      speaker: seg.speaker || 'narrator',
-      text: String(seg.text || '').trim(),
-      emotion: seg.emotion || undefined,
-      sound_effect: seg.sound_effect || undefined,
-      code_reference: seg.code_reference || undefined,
-    }))
-    .filter((seg: any) => seg.text.length > 0); // Remove empty text segments
-
-  if (validatedSegments.length === 0) {
-    console.warn('[Gemini] No valid segments found, generating fallback script');
-    // Generate a fallback script for large/complex repositories
-    validatedSegments = generateFallbackSegments(repoData, files, narrativeStyle);
-    scriptData.title = scriptData.title || `The Case of ${repoData.name}`;
+/**
+ * Ask for a script and validate it. Failures come back with the raw output for the repair pass.
+ */
+async function requestScript(
+  provider: LlmProvider,
+  prompt: string,
+  schema: ReturnType<typeof podcastScriptSchemaFor>,
+  options: LlmCallOptions
+): Promise<{ success: true; script: PodcastScript } | { success: false; errors: string[]; output: string }> {
+  let data: unknown;
+  try {
+    data = await provider.generateJson(prompt, options);
+  } catch (error) {
+    if (error instanceof LlmJsonError) {
+      return { success: false, errors: [error.message], output: error.text };
+    }
+    throw error;
   }
 
-  console.log(`[Gemini] ✅ Validated ${validatedSegments.length} segments`);
+  const result = schema.safeParse(data);
+  return result.success
+    ? { success: true, script: result.data }
+    : { success: false, errors: formatSchemaErrors(result.error), output: JSON.stringify(data, null, 2) };
+}
+
+function getRepairPrompt(output: string, errors: string[], style: StyleDefinition): string {
+  return `The JSON below was meant to be a podcast script but failed validation.
+
+ERRORS:
+${errors.slice(0, 20).map((error) => `- ${error}`).join('\n')}
+
+Return the corrected script as JSON. Keep the content; only fix what the errors point at.
+- "title": non-empty string
+- "narrator_voice": "${style.narrator_voice}"
+- "dramatic_arc": string
+- "segments": non-empty array of { "speaker", "text", "emotion"?, "sound_effect"? }
+- "speaker" must be one of: ${style.speakers.map((speaker) => `"${speaker.role}"`).join(', ')}
+- "text" must be non-empty
+- "code_reference"?: { "path", "start_line", "end_line" } with whole line numbers
+
+JSON:
+${output.substring(0, 20000)}`;
+}
+
+function finalizeScript(script: PodcastScript, style: StyleDefinition, files: FileWithContent[]): PodcastScript {
+  const citations = verifyCodeReferences(
+    script.segments.map((segment) => sanitizeSegmentForStyle(style, segment)),
+    files
+  );
+  if (citations.flagged > 0 || citations.dropped > 0) {
+    console.warn(
+      `[Gemini] Citations: ${citations.verified} verified, ${citations.flagged} flagged, ${citations.dropped} dropped (unknown files)`
+    );
+  }
 
   return {
-    title: scriptData.title || 'Untitled Investigation',
-    narrator_voice: scriptData.narrator_voice || 'detective',
-    dramatic_arc: scriptData.dramatic_arc || '',
-    segments: validatedSegments,
+    title: script.title,
+    narrator_voice: script.narrator_voice || style.narrator_voice,
+    dramatic_arc: script.dramatic_arc || '',
+    segments: citations.segments,
     total_duration: 0,
   };
 }
 
-function generateFallbackSegments(
+type ScriptContext = Parameters<typeof generatePodcastScript>[3];
+
+/**
+ * Style instructions in full, plus as much ranked repository context as the
+ * provider's token budget leaves room for
+ */
+async function buildScriptPrompt(
   repoData: GitHubRepo,
   files: FileWithContent[],
-  style: NarrativeStyle
-): ScriptSegment[] {
+  style: StyleDefinition,
+  provider: LlmProvider,
+  context?: ScriptContext
+): Promise<{ prompt: string; templateVars: StyleTemplateVars; provenance: PromptProvenance }> {
+  const totalSize = files.reduce((sum, f) => sum + (f.size || 0), 0);
+  const repoStats: RepoStats = {
+    totalFiles: files.length,
+    totalSize,
+    languages: context?.statistics?.languages || {},
+    averageFileSize: files.length > 0 ? totalSize / files.length : 0,
+  };
+
+  // Most important files first, categorized so formatRepoForAI can order its chunks
+  const selection = await selectImportantFiles(files, repoStats, { basePath: context?.path });
+  const byPath = new Map(files.map((f) => [f.path, f]));
+  const rankedFiles = selection.files.length > 0
+    ? selection.files.flatMap((selected) => {
+        const file = byPath.get(selected.path);
+        return file ? [{ ...file, category: selected.category }] : [];
+      })
+    : files;
+
+  const formatted = formatRepoForAI(selection, repoData, rankedFiles);
+
+  // The instructions are never cut; the code context gets whatever budget is left
+  const baseVars = getStyleTemplateVars(repoData, rankedFiles, context);
+  const instructionTokens = estimateTokens(renderStylePrompt(style, baseVars));
+  const budgeted = formatWithinBudget(formatted, Math.max(0, provider.promptTokenBudget - instructionTokens));
+
+  const templateVars: StyleTemplateVars = {
+    ...baseVars,
+    repo_info: budgeted.content
+      ? `${baseVars.repo_info}\n\n🧾 EVIDENCE (most important code first, headed by path:start-end):\n${budgeted.content}`
+      : baseVars.repo_info,
+  };
+  const prompt = renderStylePrompt(style, templateVars);
+
+  return {
+    prompt,
+    templateVars,
+    provenance: {
+      provider: provider.id,
+      model: provider.model,
+      token_budget: provider.promptTokenBudget,
+      prompt_tokens: estimateTokens(prompt),
+      summary_included: budgeted.summaryIncluded,
+      chunks: budgeted.chunks.map((chunk) => ({
+        id: chunk.id,
+        path: chunk.path,
+        type: chunk.type,
+        ...(chunk.metadata.name && { name: chunk.metadata.name }),
+        start_line: chunk.metadata.startLine,
+        end_line: chunk.metadata.endLine,
+        tokens: chunk.metadata.tokens,
+      })),
+      dropped_chunks: budgeted.droppedChunks,
+    },
+  };
+}
+
+/**
+ * Values for the {{placeholders}} of a style's templates
+ */
+function getStyleTemplateVars(
+  repoData: GitHubRepo,
+  files: FileWithContent[],
+  context?: ScriptContext
+): StyleTemplateVars {
   const topLanguages = Object.entries(
     files.reduce((acc, f) => {
       const ext = f.path.split('.').pop() || 'unknown';
@@ -149,52 +258,34 @@ function generateFallbackSegments(
   ).sort(([, a], [, b]) => b - a).slice(0, 3).map(([lang]) => lang);
 
   const keyFiles = files.slice(0, 5).map(f => f.path.split('/').pop()).join(', ');
-  
-  if (style === NarrativeStyle.SPORTS) {
-    return [
-      { speaker: 'commentator_1', text: `And HERE WE GO! ${repoData.name} takes the pitch!`, sound_effect: 'crowd_cheering', emotion: 'excited' },
-      { speaker: 'commentator_2', text: `${repoData.stars.toLocaleString()} fans in the stands tonight!`, emotion: 'impressed' },
-      { speaker: 'commentator_1', text: `${files.length} players on the roster. ${repoData.language} leading the attack!`, emotion: 'building' },
-      { speaker: 'commentator_2', text: `Look at that formation! ${topLanguages.join(', ')} in midfield!`, emotion: 'analytical' },
-      { speaker: 'commentator_1', text: `Key players: ${keyFiles}. World class!`, emotion: 'explosive' },
-      { speaker: 'commentator_2', text: `${repoData.description || 'Championship material, this one!'}` },
-      { speaker: 'commentator_1', text: `FULL TIME! ${repoData.name} delivers a stunning performance!`, sound_effect: 'whistle', emotion: 'excited' },
-    ];
-  } else if (style === NarrativeStyle.DOCUMENTARY) {
-    return [
-      { speaker: 'narrator', text: `Here... in the depths of the digital wilderness... we discover something remarkable.`, sound_effect: 'nature_ambience', emotion: 'wonder' },
-      { speaker: 'narrator', text: `${repoData.fullName}. A creature of extraordinary complexity.`, emotion: 'reverent' },
-      { speaker: 'narrator', text: `${repoData.stars.toLocaleString()} observers... drawn to witness its ${files.length} interconnected components.`, emotion: 'curious' },
-      { speaker: 'narrator', text: `The primary species... ${repoData.language}. Coexisting with ${topLanguages.join(' and ')}.`, emotion: 'wonder' },
-      { speaker: 'narrator', text: `${repoData.description || 'A fascinating specimen... of collaborative evolution.'}` },
-      { speaker: 'narrator', text: `And so... ${repoData.name}... continues its remarkable journey. Extraordinary.`, emotion: 'reverent' },
-    ];
-  } else {
-    // TRUE_CRIME default - short, punchy noir style
-    return [
-      { speaker: 'narrator', text: `Rain on the glass. Another case file. ${repoData.fullName}.`, sound_effect: 'rain', emotion: 'world-weary' },
-      { speaker: 'narrator', text: `${repoData.stars.toLocaleString()} stars. ${files.length} files. Too many alibis.`, emotion: 'suspicious' },
-      { speaker: 'narrator', text: `Primary weapon? ${repoData.language}. Accomplices in ${topLanguages.join(', ')}.`, emotion: 'analytical' },
-      { speaker: 'narrator', text: `${repoData.description || 'Motive unclear. But code always talks.'}` },
-      { speaker: 'narrator', text: `Key suspects: ${keyFiles}. Each one hiding something.`, sound_effect: 'keyboard_typing' },
-      { speaker: 'narrator', text: `The verdict? ${repoData.name} walks. For now. But I'll be watching.`, emotion: 'conclusive' },
-    ];
-  }
+
+  return {
+    'repo.name': repoData.name,
+    'repo.NAME': repoData.name.toUpperCase(),
+    'repo.fullName': repoData.fullName,
+    'repo.description': repoData.description || undefined,
+    'repo.language': repoData.language || undefined,
+    'repo.stars': repoData.stars.toLocaleString(),
+    repo_info: getRepoInfo(repoData, files, context),
+    file_count: String(files.length),
+    top_languages: topLanguages.join(', '),
+    key_files: keyFiles,
+  };
 }
 
-function getStyleSpecificPrompt(
-  style: NarrativeStyle,
+function getRepoInfo(
   repoData: GitHubRepo,
   files: FileWithContent[],
-  context?: any
+  context?: ScriptContext
 ): string {
-  const baseRepoInfo = `
+  return `
 📂 REPOSITORY INFORMATION:
 - **Repository**: ${repoData.fullName}
 - **Description**: ${repoData.description || 'No description provided'}
 - **Primary Language**: ${repoData.language}
 - **Stars**: ${repoData.stars}
 - **Files Examined**: ${context?.statistics?.analyzedFiles || files.length} files
+${context?.path ? `- **Scope**: Only the \`${context.path}\` directory. The story is about this package, not the rest of the repository.` : ''}
 ${repoData.topics && repoData.topics.length > 0 ? `- **Topics**: ${repoData.topics.join(', ')}` : ''}
 
 🧬 LANGUAGES:
@@ -219,209 +310,150 @@ ${files.slice(0, 15).map((f, idx) => {
 🎯 DETECTED PATTERNS:
 ${context?.patterns && context.patterns.length > 0 
   ? context.patterns.map((p: string) => `  - ${p}`).join('\n')
-  : '  - Standard codebase structure'}
-
-📝 SAMPLE CODE (for reference):
-${files.slice(0, 2).map(f => `
---- ${f.path} ---
-\`\`\`
-${f.content?.substring(0, 400)}${f.content && f.content.length > 400 ? '...' : ''}
-\`\`\`
-`).join('\n')}`;
-
-  if (style === NarrativeStyle.SPORTS) {
-    return getSportsCommentaryPrompt(repoData, baseRepoInfo);
-  } else if (style === NarrativeStyle.DOCUMENTARY) {
-    return getDocumentaryPrompt(repoData, baseRepoInfo);
-  } else {
-    // TRUE_CRIME is default
-    return getTrueCrimePrompt(repoData, baseRepoInfo);
-  }
+  : '  - Standard codebase structure'}`;
 }
 
-function getTrueCrimePrompt(repoData: GitHubRepo, baseRepoInfo: string): string {
-  return `You are Detective Mongo D. Bane, lead investigator for the Code Crime Unit. The rain hammers the window. Another case file lands on your desk.
-
-${baseRepoInfo}
-
-🎬 CREATE A HARD-BOILED TRUE CRIME PODCAST (STRICTLY 3-4 MINUTES - 400 to 500 words MAX)
-
-🎙️ VOICE DIRECTION (CRITICAL - Write dialogue optimized for this delivery):
-- **Age/Gender**: Male, 45-50 years old
-- **Timbre**: Deep, gravelly, resonant. Heavy vocal fry with raspy, parched texture
-- **Accent**: Subtle New York (Lower East Side/Brooklyn), non-rhotic 'r' sounds
-- **Pace**: Low-tempo, rhythmic, deliberate. Let words hang in the air
-- **Dynamics**: High intimacy, close-mic feel. NO shouting. Authority through gravel and breath control
-- **Emotional Tone**: World-weary, cynical, analytical, stoic
-- **Studio Feel**: High-fidelity, close-mic intimacy capturing every weathered breath
-
-CRITICAL EXECUTION RULES:
-1. **CREDIT CONSERVATION**: Maximum 500 words. ElevenLabs credits burn fast—make every syllable count.
-2. **WRITE FOR THE VOICE**: Short, punchy sentences. Lots of periods. Let the gravel breathe.
-3. **THE NOIR VIBE**: The repo is a "suspect." Functions are "alibis." Classes are "accomplices." Bugs are "bodies."
-4. **INTERROGATE THE TARGET**: Grill the architecture. Find the "motive" behind design choices. Clean operation or messy hit?
-5. **FORMAT**: 
-   - "narrator" = The Detective. Cynical. Gravelly. Low and slow.
-   - "sound_effect" = Sparse. High-impact only.
-
-STRUCTURE:
-1. **THE CRIME SCENE** (30s): Set the atmosphere. The discovery of ${repoData.name}.
-2. **THE AUTOPSY** (1m): Tech stack as the victim's anatomy. Quick, clinical.
-3. **THE GRILLING** (1m): Confront the key files. Point out the shady logic. What's hiding in there?
-4. **THE VERDICT** (55s): Final judgment. Walking free or going to the chair?
-
-📋 REQUIRED JSON FORMAT:
-{
-  "title": "CASE FILE #${repoData.name.toUpperCase()}: The [Gritty Noir Subtitle]",
-  "narrator_voice": "detective",
-  "dramatic_arc": "A high-stakes forensic analysis of ${repoData.fullName}",
-  "segments": [
-    {
-      "speaker": "narrator",
-      "text": "Short. Punchy. Let it breathe.",
-      "emotion": "world-weary|suspicious|analytical|conclusive",
-      "sound_effect": "optional - use sparingly"
-    }
-  ]
-}
+// Segments either side of the rewritten ones, so the new lines still connect
+const REWRITE_CONTEXT_SEGMENTS = 3;
+
+/**
+ * Rewrite `count` segments starting at `start`, keeping each speaker and the
+ * style's voice. Citations stay with the segments they were on, since the
+ * files they point at aren't refetched. Throws if the model's answer still
+ * doesn't fit after a repair pass.
+ */
+export async function regenerateSegments(
+  podcast: Podcast,
+  style: StyleDefinition,
+  start: number,
+  count: number,
+  options?: {
+    guidance?: string;
+    signal?: AbortSignal;
+    provider?: LlmProvider;
+  }
+): Promise<ScriptSegment[]> {
+  const provider = options?.provider ?? getLlmProvider();
+  const segments = podcast.script?.segments || [];
+  const originals = segments.slice(start, start + count);
+  if (originals.length === 0) {
+    throw new Error(`No segments at ${start}`);
+  }
 
-WRITING STYLE EXAMPLES (match this rhythm):
-- "The rain don't stop. Neither do I."
-- "Forty thousand lines of code. Forty thousand alibis."
-- "I've seen cleaner crime scenes. But I've seen worse."
-- "The architecture tells a story. Question is... who's lying?"
+  const schema = segmentRewriteSchemaFor(originals.map((segment) => segment.speaker));
+  const callOptions: LlmCallOptions = {
+    signal: options?.signal,
+    task: { kind: 'rewrite', segments: originals, guidance: options?.guidance },
+  };
+  const prompt = getRewritePrompt(podcast, style, start, originals.length, options?.guidance);
 
-AVAILABLE SOUND EFFECTS: rain, suspenseful_music, dramatic_pause, thunder, keyboard_typing, door_slam, footsteps, static_noise, lighter_flick`;
-}
+  console.log(`[Gemini] Rewriting segments ${start}-${start + originals.length - 1} of ${podcast.id} with ${provider.id}`);
 
-function getSportsCommentaryPrompt(repoData: GitHubRepo, baseRepoInfo: string): string {
-  return `You are TWO legendary football commentators calling the match of the century. This code is about to make history!
-
-${baseRepoInfo}
-
-🎬 CREATE A SPORTS "MATCH OF THE DAY" PODCAST (STRICTLY 3-4 MINUTES - 400 to 500 words MAX)
-
-🎙️ VOICE DIRECTION (CRITICAL - Write dialogue optimized for these deliveries):
-
-**COMMENTATOR 1 (Play-by-Play)**:
-- **Age/Gender**: Male, 55-60 years old
-- **Timbre**: Booming, authoritative, crystal clear
-- **Accent**: British (received pronunciation with hints of Northern warmth)
-- **Pace**: Variable - builds from measured to explosive on big moments
-- **Dynamics**: Stadium-filling projection, dramatic pauses before key calls
-- **Emotional Tone**: Excited, professional, building anticipation
-
-**COMMENTATOR 2 (Color Commentary)**:
-- **Age/Gender**: Male, 45-50 years old  
-- **Timbre**: Warm, enthusiastic, slightly gravelly from years in the booth
-- **Accent**: Subtle Scottish or Irish lilt
-- **Pace**: Quick wit, reactive, punctuates the play-by-play
-- **Dynamics**: Conversational but energetic, laughs easily
-- **Emotional Tone**: Passionate, analytical, loves the beautiful game
-
-CRITICAL EXECUTION RULES:
-1. **CREDIT CONSERVATION**: Maximum 500 words. Keep it tight and exciting.
-2. **RAPID-FIRE EXCHANGES**: Short bursts. Back and forth. Build momentum.
-3. **FOOTBALL METAPHORS**: Code is the pitch. Functions are players. Bugs are own goals.
-4. **FORMAT**: 
-   - "commentator_1" = Play-by-play. The big calls.
-   - "commentator_2" = Color. The analysis and reactions.
-   - "sound_effect" = Crowd reactions. Use for emphasis.
-
-STRUCTURE:
-1. **KICKOFF** (30s): Stadium roar. Introduce ${repoData.name}. The crowd goes wild.
-2. **FIRST HALF** (1m): Attack the architecture. What formation are they playing?
-3. **SECOND HALF** (1m): The key patterns. Brilliant plays or defensive disasters?
-4. **FINAL WHISTLE** (55s): The score. The verdict. A legendary closing call.
-
-📋 REQUIRED JSON FORMAT:
-{
-  "title": "${repoData.name.toUpperCase()} vs THE COMPETITION: [Epic Match Title]",
-  "narrator_voice": "sports",
-  "dramatic_arc": "Championship coverage of ${repoData.fullName}",
-  "segments": [
-    {
-      "speaker": "commentator_1",
-      "text": "And here we GO!",
-      "emotion": "excited|building|explosive",
-      "sound_effect": "optional"
-    },
-    {
-      "speaker": "commentator_2", 
-      "text": "What a setup!",
-      "emotion": "impressed|analytical|passionate"
-    }
-  ]
-}
+  let result = await requestRewrite(provider, prompt, schema, callOptions);
+  if (!result.success) {
+    console.warn('[Gemini] Rewrite failed validation, running repair pass:', result.errors.slice(0, 5));
+    const repairPrompt = `${prompt}
 
-WRITING STYLE EXAMPLES (match this rhythm):
-- C1: "And ${repoData.name} steps onto the pitch!" C2: "Look at that confidence!"
-- C1: "OH! What a piece of architecture!" C2: "Absolutely world class!"
-- C1: "They're building from the back here..." C2: "Solid foundation. I like it."
+Your previous answer was rejected:
+${result.errors.slice(0, 20).map((error) => `- ${error}`).join('\n')}
 
-AVAILABLE SOUND EFFECTS: crowd_cheering, whistle, goal_horn, crowd_gasp, applause, stadium_ambience, vuvuzela`;
+PREVIOUS ANSWER:
+${result.output.substring(0, 10000)}`;
+    result = await requestRewrite(provider, repairPrompt, schema, callOptions);
+  }
+  if (!result.success) {
+    throw new Error(`Rewrite failed validation: ${result.errors.slice(0, 3).join('; ')}`);
+  }
+
+  return result.segments.map((segment, i) =>
+    sanitizeSegmentForStyle(style, {
+      speaker: originals[i].speaker,
+      text: segment.text,
+      ...(segment.emotion && { emotion: segment.emotion }),
+      ...(segment.sound_effect && { sound_effect: segment.sound_effect }),
+      ...(originals[i].code_reference && { code_reference: originals[i].code_reference }),
+    })
+  );
 }
 
-function getDocumentaryPrompt(repoData: GitHubRepo, baseRepoInfo: string): string {
-  return `You are Sir David Attenborough, observing a rare and magnificent digital organism in its natural server habitat.
-
-${baseRepoInfo}
-
-🎬 CREATE A NATURE DOCUMENTARY PODCAST (STRICTLY 3-4 MINUTES - 400 to 500 words MAX)
-
-🎙️ VOICE DIRECTION (CRITICAL - Write dialogue optimized for this delivery):
-- **Age/Gender**: Male, 75-80 years old (but timeless)
-- **Timbre**: Warm, rich, velvet-smooth with gentle gravitas
-- **Accent**: Refined British RP, melodic and measured
-- **Pace**: Slow, contemplative, savoring each observation. Pregnant pauses.
-- **Dynamics**: Hushed intimacy, as if not to disturb the creature. Whispered wonder.
-- **Emotional Tone**: Awe-struck, curious, gently humorous, profoundly respectful
-- **Studio Feel**: ASMR-adjacent. Close-mic warmth. The rustle of nature.
-
-CRITICAL EXECUTION RULES:
-1. **CREDIT CONSERVATION**: Maximum 500 words. Let silence do the work.
-2. **WRITE FOR THE VOICE**: Long, flowing sentences. Observations that breathe. Wonder in every phrase.
-3. **NATURE METAPHORS**: Code is biology. Databases are "nesting grounds." Functions are "apex predators." APIs are "symbiotic relationships." Bugs are "parasites."
-4. **GENTLE HUMOR**: Occasional dry wit. A raised eyebrow at peculiar code.
-5. **FORMAT**: 
-   - "narrator" = The Naturalist. Hushed. Reverent. Curious.
-   - "sound_effect" = Nature ambience. Gentle. Immersive.
-
-STRUCTURE:
-1. **THE DISCOVERY** (30s): First contact with the ${repoData.name} ecosystem. Hushed wonder.
-2. **ECOLOGICAL STUDY** (1m): The habitat. How the stack survives together. The food chain.
-3. **BEHAVIORAL OBSERVATION** (1m): Watch the code in action. Mating rituals of functions. Territorial patterns.
-4. **SURVIVAL PROGNOSIS** (55s): Will this species thrive... or face extinction?
-
-📋 REQUIRED JSON FORMAT:
-{
-  "title": "${repoData.name}: A Digital Wilderness",
-  "narrator_voice": "documentary",
-  "dramatic_arc": "The remarkable survival story of ${repoData.fullName}",
-  "segments": [
-    {
-      "speaker": "narrator",
-      "text": "Here... in the depths of the repository... we find something remarkable.",
-      "emotion": "wonder|curious|reverent|amused",
-      "sound_effect": "optional - nature ambience"
+async function requestRewrite(
+  provider: LlmProvider,
+  prompt: string,
+  schema: ReturnType<typeof segmentRewriteSchemaFor>,
+  options: LlmCallOptions
+): Promise<{ success: true; segments: ScriptSegment[] } | { success: false; errors: string[]; output: string }> {
+  let data: unknown;
+  try {
+    data = await provider.generateJson(prompt, options);
+  } catch (error) {
+    if (error instanceof LlmJsonError) {
+      return { success: false, errors: [error.message], output: error.text };
     }
-  ]
+    throw error;
+  }
+
+  const result = schema.safeParse(data);
+  return result.success
+    ? { success: true, segments: result.data.segments }
+    : { success: false, errors: formatSchemaErrors(result.error), output: JSON.stringify(data, null, 2) };
 }
 
-WRITING STYLE EXAMPLES (match this rhythm):
-- "And here... we observe... a most remarkable creature."
-- "The function... waits. Patient. Hungry for data."
-- "One might wonder... why the developer chose this path. But nature... finds a way."
-- "Extraordinary. Simply... extraordinary."
+function getRewritePrompt(
+  podcast: Podcast,
+  style: StyleDefinition,
+  start: number,
+  count: number,
+  guidance?: string
+): string {
+  const segments = podcast.script?.segments || [];
+  const end = start + count;
+  const labels = new Map(style.speakers.map((speaker) => [speaker.role, speaker.label]));
+  const line = (segment: ScriptSegment, i: number) =>
+    `[${i}] ${labels.get(segment.speaker) || segment.speaker} (${segment.speaker}): ${segment.text}`;
+
+  const before = segments.slice(Math.max(0, start - REWRITE_CONTEXT_SEGMENTS), start);
+  const after = segments.slice(end, end + REWRITE_CONTEXT_SEGMENTS);
+  const voices = style.speakers
+    .filter((speaker) => speaker.direction)
+    .map((speaker) => `- ${speaker.label} (${speaker.role}): ${speaker.direction}`)
+    .join('\n');
+  const keyFiles = [...new Set(podcast.prompt_provenance?.chunks.map((chunk) => chunk.path) || [])].slice(0, 10);
+  const emotions = style.emotions.length > 0 ? `\n- "emotion"?: one of ${style.emotions.join(', ')}` : '';
+  const soundEffects =
+    style.sound_effects.length > 0 ? `\n- "sound_effect"?: one of ${style.sound_effects.join(', ')}` : '';
+
+  return `You are rewriting part of "${podcast.script?.title || podcast.title}", a ${style.name} episode about the ${podcast.repo_name} repository${podcast.path ? ` (the ${podcast.path} directory)` : ''}.
+Style: ${style.description}
+${voices ? `\nVOICES:\n${voices}\n` : ''}
+CASE FILE:
+- Description: ${podcast.repo_metadata?.description || 'No description provided'}
+- Primary Language: ${podcast.repo_metadata?.language || 'Unknown'}
+- Patterns Found: ${podcast.patterns_found?.join(', ') || 'none'}${keyFiles.length > 0 ? `\n- Key Files: ${keyFiles.join(', ')}` : ''}${
+    podcast.analysis_summary?.autopsy_report ? `\n- Summary: ${podcast.analysis_summary.autopsy_report}` : ''
+  }
 
-AVAILABLE SOUND EFFECTS: nature_ambience, birds_chirping, wind, water_flowing, dramatic_strings, gentle_music, rustling_leaves, distant_thunder`;
+${before.length > 0 ? `BEFORE (keep as is):\n${before.map((segment, i) => line(segment, start - before.length + i)).join('\n')}\n\n` : ''}REWRITE:
+${segments.slice(start, end).map((segment, i) => line(segment, start + i)).join('\n')}
+${after.length > 0 ? `\nAFTER (keep as is):\n${after.map((segment, i) => line(segment, end + i)).join('\n')}\n` : ''}
+${guidance ? `DIRECTION FROM THE EDITOR: ${guidance}\n\n` : ''}Write ${count === 1 ? 'a fresh version of the segment' : `fresh versions of the ${count} segments`} under REWRITE. They must follow on from BEFORE and lead into AFTER, keep the facts, and sound like the rest of the episode.
+
+Return JSON: { "segments": [...] } with exactly ${count} item${count === 1 ? '' : 's'}, in order, each:
+- "speaker": the same speaker as the segment it replaces (${segments.slice(start, end).map((segment) => `"${segment.speaker}"`).join(', ')})
+- "text": non-empty${emotions}${soundEffects}`;
 }
+
 export async function generateAutopsyReport(
   repoData: GitHubRepo,
   files: FileWithContent[],
-  patterns: string[]
+  patterns: string[],
+  options?: {
+    path?: string;
+    signal?: AbortSignal;
+    provider?: LlmProvider;
+  }
 ): Promise<string> {
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+  const signal = options?.signal;
+  const provider = options?.provider ?? getLlmProvider();
 
   const prompt = `
     Analyze the following GitHub repository to understand its purpose, main features, and overall architecture.
@@ -429,7 +461,8 @@ export async function generateAutopsyReport(
     This text should summarize what the repository is, its target audience, and its key value proposition.
     Format: A single, well-written paragraph.
 
-    Repository: ${repoData.fullName}
+    Repository: ${repoData.fullName}${options?.path ? `
+    Scope: Only the ${options.path} directory. Describe this package and its role in the repository, not the repository as a whole.` : ''}
     Description: ${repoData.description}
     Languages: ${repoData.language}
     Topics: ${repoData.topics.join(', ')}
@@ -440,9 +473,20 @@ export async function generateAutopsyReport(
   `;
 
   try {
-    const result = await model.generateContent(prompt);
-    return result.response.text();
+    return await provider.generateText(prompt, {
+      signal,
+      task: {
+        kind: 'autopsy',
+        repo: repoData,
+        patterns,
+        files: files.slice(0, 10).map((f) => f.path),
+        path: options?.path,
+      },
+    });
   } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
     console.error('Error generating autopsy report:', error);
     return repoData.description || "Analysis failed to generate report.";
   }
@@ -1,8 +1,12 @@
 import 'server-only';
-import { getOctokit, checkRateLimit, retryWithBackoff, FETCH_CONFIG } from './config';
+import type { Octokit } from '@octokit/rest';
+import { createOctokit, getOctokit, checkRateLimit, retryWithBackoff, normalizeRepoPath, FETCH_CONFIG } from './config';
 import {
   GitHubApiError,
+  isAbortError,
   RateLimitError,
+  PathNotFoundError,
+  RefNotFoundError,
   RepositoryNotFoundError,
   RepositoryAccessDeniedError,
 } from './config';
@@ -63,7 +67,7 @@ interface CacheEntry<T> {
   timestamp: number;
 }
 
-class SimpleCache {
+export class SimpleCache {
   private cache = new Map<string, CacheEntry<unknown>>();
   private readonly TTL = 5 * 60 * 1000; // 5 minutes
 
@@ -94,19 +98,24 @@ class SimpleCache {
   }
 }
 
-const cache = new SimpleCache();
+// Shared by the clients that use the app's own token
+const sharedCache = new SimpleCache();
 
 /**
  * GitHub API Client
  */
 export class GitHubClient {
-  private octokit = getOctokit();
+  // Clients for a user's token get their own cache, so private data never reaches other clients
+  constructor(
+    private octokit: Octokit = getOctokit(),
+    private cache: SimpleCache = sharedCache
+  ) {}
 
   /**
    * Check rate limit and throw error if too low
    */
   private async ensureRateLimit(): Promise<void> {
-    const rateLimit = await checkRateLimit();
+    const rateLimit = await checkRateLimit(this.octokit);
 
     if (!rateLimit.canProceed || rateLimit.remaining < 10) {
       throw new RateLimitError(
@@ -121,7 +130,7 @@ export class GitHubClient {
    */
   async getRepository(owner: string, repo: string): Promise<GitHubRepo> {
     const cacheKey = `repo:${owner}/${repo}`;
-    const cached = cache.get<GitHubRepo>(cacheKey);
+    const cached = this.cache.get<GitHubRepo>(cacheKey);
 
     if (cached) {
       return cached;
@@ -151,7 +160,7 @@ export class GitHubClient {
           topics: data.topics || [],
         };
 
-        cache.set(cacheKey, repoData);
+        this.cache.set(cacheKey, repoData);
         return repoData;
       } catch (error: unknown) {
         if (error && typeof error === 'object' && 'status' in error) {
@@ -185,10 +194,17 @@ export class GitHubClient {
   async getRepoStructure(
     owner: string,
     repo: string,
-    branch?: string
+    branch?: string,
+    options?: {
+      // Only keep files under this directory (e.g. one package of a monorepo)
+      path?: string;
+      signal?: AbortSignal;
+    }
   ): Promise<RepoStructure> {
-    const cacheKey = `structure:${owner}/${repo}:${branch || 'default'}`;
-    const cached = cache.get<RepoStructure>(cacheKey);
+    const path = options?.path ? normalizeRepoPath(options.path) : '';
+    const signal = options?.signal;
+    const cacheKey = `structure:${owner}/${repo}:${branch || 'default'}:${path}`;
+    const cached = this.cache.get<RepoStructure>(cacheKey);
 
     if (cached) {
       return cached;
@@ -208,42 +224,30 @@ export class GitHubClient {
           repo,
           tree_sha: targetBranch,
           recursive: 'true',
+          request: { signal },
         });
 
         // Filter and process files
-        const files: FileNode[] = treeData.tree
-          .filter((node) => node.path && this.shouldIncludeFile(node.path))
-          .map((node) => ({
-            path: node.path!,
-            type: node.type === 'blob' ? 'file' as const : 'dir' as const,
-            size: node.size,
-            sha: node.sha,
-            language: node.path ? this.detectLanguage(node.path) : undefined,
-          }));
-
-        // Calculate statistics
-        const totalSize = files.reduce((sum, file) => sum + (file.size || 0), 0);
-        const languages = this.calculateLanguageDistribution(files);
-
-        // Build root structure
-        const root: FileNode = {
-          path: '/',
-          type: 'dir',
-          size: totalSize,
-        };
+        const structure = buildRepoStructure(
+          treeData.tree
+            .filter((node) => node.path)
+            .map((node) => ({
+              path: node.path!,
+              type: node.type === 'blob' ? 'file' as const : 'dir' as const,
+              size: node.size,
+              sha: node.sha,
+            })),
+          path
+        );
 
-        const structure: RepoStructure = {
-          root,
-          files,
-          totalFiles: files.filter(f => f.type === 'file').length,
-          totalSize,
-          languages,
-        };
+        if (path && structure.files.length === 0) {
+          throw new PathNotFoundError(`${owner}/${repo}`, path);
+        }
 
-        cache.set(cacheKey, structure);
+        this.cache.set(cacheKey, structure);
         return structure;
       } catch (error: unknown) {
-        if (error instanceof GitHubApiError) {
+        if (error instanceof GitHubApiError || isAbortError(error)) {
           throw error;
         }
 
@@ -263,10 +267,11 @@ export class GitHubClient {
     owner: string,
     repo: string,
     path: string,
-    branch?: string
+    branch?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     const cacheKey = `file:${owner}/${repo}:${path}:${branch || 'default'}`;
-    const cached = cache.get<string>(cacheKey);
+    const cached = this.cache.get<string>(cacheKey);
 
     if (cached) {
       return cached;
@@ -276,10 +281,17 @@ export class GitHubClient {
 
     return retryWithBackoff(async () => {
       try {
-        const params: { owner: string; repo: string; path: string; ref?: string } = {
+        const params: {
+          owner: string;
+          repo: string;
+          path: string;
+          ref?: string;
+          request: { signal?: AbortSignal };
+        } = {
           owner,
           repo,
           path,
+          request: { signal },
         };
 
         if (branch) {
@@ -307,10 +319,10 @@ export class GitHubClient {
           );
         }
 
-        cache.set(cacheKey, content);
+        this.cache.set(cacheKey, content);
         return content;
       } catch (error: unknown) {
-        if (error instanceof GitHubApiError) {
+        if (error instanceof GitHubApiError || isAbortError(error)) {
           throw error;
         }
 
@@ -340,7 +352,7 @@ export class GitHubClient {
     branch: string
   ): Promise<BranchInfo> {
     const cacheKey = `branch:${owner}/${repo}:${branch}`;
-    const cached = cache.get<BranchInfo>(cacheKey);
+    const cached = this.cache.get<BranchInfo>(cacheKey);
 
     if (cached) {
       return cached;
@@ -365,7 +377,7 @@ export class GitHubClient {
           protected: data.protected,
         };
 
-        cache.set(cacheKey, branchInfo);
+        this.cache.set(cacheKey, branchInfo);
         return branchInfo;
       } catch (error: unknown) {
         if (error && typeof error === 'object' && 'status' in error) {
@@ -385,6 +397,91 @@ export class GitHubClient {
     });
   }
 
+  /**
+   * Resolve a branch, tag or commit SHA to the immutable SHA of its commit
+   */
+  async resolveCommitSha(owner: string, repo: string, ref: string): Promise<string> {
+    // One lookup for branches, tags and (abbreviated) SHAs alike
+    const cacheKey = `commit-sha:${owner}/${repo}:${ref}`;
+    const cached = this.cache.get<string>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    await this.ensureRateLimit();
+
+    return retryWithBackoff(async () => {
+      try {
+        const { data } = await this.octokit.repos.getCommit({
+          owner,
+          repo,
+          ref,
+        });
+
+        this.cache.set(cacheKey, data.sha);
+        return data.sha;
+      } catch (error: unknown) {
+        if (error && typeof error === 'object' && 'status' in error) {
+          const status = (error as { status: number }).status;
+
+          if (status === 404 || status === 422) {
+            throw new RefNotFoundError(`${owner}/${repo}`, ref);
+          }
+        }
+
+        throw new GitHubApiError(
+          error instanceof Error ? error.message : 'Failed to resolve ref',
+          500,
+          error
+        );
+      }
+    });
+  }
+
+  /**
+   * Stream the gzipped tarball of the repository at a ref. One request for
+   * every file, instead of one per file.
+   */
+  async getTarball(
+    owner: string,
+    repo: string,
+    ref: string,
+    signal?: AbortSignal
+  ): Promise<ReadableStream<Uint8Array>> {
+    await this.ensureRateLimit();
+
+    try {
+      const { data } = await this.octokit.repos.downloadTarballArchive({
+        owner,
+        repo,
+        ref,
+        // Hand back the body unread so it can be extracted as it downloads
+        request: { signal, parseSuccessResponseBody: false },
+      });
+
+      return data as unknown as ReadableStream<Uint8Array>;
+    } catch (error: unknown) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+
+      if (error && typeof error === 'object' && 'status' in error) {
+        const status = (error as { status: number }).status;
+
+        if (status === 404) {
+          throw new RefNotFoundError(`${owner}/${repo}`, ref);
+        }
+      }
+
+      throw new GitHubApiError(
+        error instanceof Error ? error.message : 'Failed to download repository archive',
+        500,
+        error
+      );
+    }
+  }
+
   /**
    * Get recent commits
    */
@@ -395,7 +492,7 @@ export class GitHubClient {
     branch?: string
   ): Promise<GitHubCommit[]> {
     const cacheKey = `commits:${owner}/${repo}:${limit}:${branch || 'default'}`;
-    const cached = cache.get<GitHubCommit[]>(cacheKey);
+    const cached = this.cache.get<GitHubCommit[]>(cacheKey);
 
     if (cached) {
       return cached;
@@ -444,7 +541,7 @@ export class GitHubClient {
           html_url: commit.html_url,
         }));
 
-        cache.set(cacheKey, commits);
+        this.cache.set(cacheKey, commits);
         return commits;
       } catch (error: unknown) {
         if (error instanceof GitHubApiError) {
@@ -465,7 +562,7 @@ export class GitHubClient {
    */
   async getLanguages(owner: string, repo: string): Promise<GitHubLanguages> {
     const cacheKey = `languages:${owner}/${repo}`;
-    const cached = cache.get<GitHubLanguages>(cacheKey);
+    const cached = this.cache.get<GitHubLanguages>(cacheKey);
 
     if (cached) {
       return cached;
@@ -480,7 +577,7 @@ export class GitHubClient {
           repo,
         });
 
-        cache.set(cacheKey, data);
+        this.cache.set(cacheKey, data);
         return data;
       } catch (error: unknown) {
         if (error instanceof GitHubApiError) {
@@ -501,19 +598,18 @@ export class GitHubClient {
    */
   async getContributors(owner: string, repo: string): Promise<string[]> {
     const cacheKey = `contributors:${owner}/${repo}`;
-    const cached = cache.get<string[]>(cacheKey);
+    const cached = this.cache.get<string[]>(cacheKey);
     if (cached) return cached;
 
     try {
-      const octokit = getOctokit();
-      const { data } = await octokit.rest.repos.listContributors({
+      const { data } = await this.octokit.rest.repos.listContributors({
         owner,
         repo,
         per_page: 10,
       });
 
       const contributors = data.map(c => c.login || 'Anonymous');
-      cache.set(cacheKey, contributors);
+      this.cache.set(cacheKey, contributors);
       return contributors;
     } catch (error) {
       console.error('Error fetching contributors:', error);
@@ -522,91 +618,116 @@ export class GitHubClient {
   }
 
   /**
-   * Helper: Check if file should be included
+   * Clear cache
    */
-  private shouldIncludeFile(path: string): boolean {
-    // Check exclude patterns
-    for (const pattern of FETCH_CONFIG.EXCLUDE_PATTERNS) {
-      const regex = new RegExp(pattern.replace('**', '.*').replace('*', '[^/]*'));
-      if (regex.test(path)) {
-        return false;
-      }
-    }
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
 
-    // Check include patterns
-    for (const pattern of FETCH_CONFIG.INCLUDE_PATTERNS) {
-      const regex = new RegExp(pattern.replace('**', '.*').replace('*', '[^/]*'));
-      if (regex.test(path)) {
-        return true;
-      }
+/**
+ * Helper: Check if file should be included
+ */
+function shouldIncludeFile(path: string): boolean {
+  // Check exclude patterns
+  for (const pattern of FETCH_CONFIG.EXCLUDE_PATTERNS) {
+    const regex = new RegExp(pattern.replace('**', '.*').replace('*', '[^/]*'));
+    if (regex.test(path)) {
+      return false;
     }
-
-    return false;
   }
 
-  /**
-   * Helper: Detect language from file extension
-   */
-  private detectLanguage(path: string): string | undefined {
-    const ext = path.substring(path.lastIndexOf('.'));
-    
-    const languageMap: Record<string, string> = {
-      '.js': 'JavaScript',
-      '.jsx': 'JavaScript',
-      '.ts': 'TypeScript',
-      '.tsx': 'TypeScript',
-      '.py': 'Python',
-      '.java': 'Java',
-      '.go': 'Go',
-      '.rs': 'Rust',
-      '.rb': 'Ruby',
-      '.php': 'PHP',
-      '.cpp': 'C++',
-      '.c': 'C',
-      '.h': 'C/C++',
-      '.cs': 'C#',
-      '.swift': 'Swift',
-      '.kt': 'Kotlin',
-      '.scala': 'Scala',
-      '.vue': 'Vue',
-      '.md': 'Markdown',
-      '.json': 'JSON',
-      '.yaml': 'YAML',
-      '.yml': 'YAML',
-    };
-
-    return languageMap[ext];
+  // Check include patterns
+  for (const pattern of FETCH_CONFIG.INCLUDE_PATTERNS) {
+    const regex = new RegExp(pattern.replace('**', '.*').replace('*', '[^/]*'));
+    if (regex.test(path)) {
+      return true;
+    }
   }
 
-  /**
-   * Helper: Calculate language distribution
-   */
-  private calculateLanguageDistribution(files: FileNode[]): Record<string, number> {
-    const languageSizes: Record<string, number> = {};
-    let totalSize = 0;
-
-    for (const file of files) {
-      if (file.type === 'file' && file.language && file.size) {
-        languageSizes[file.language] = (languageSizes[file.language] || 0) + file.size;
-        totalSize += file.size;
-      }
-    }
+  return false;
+}
 
-    // Convert to percentages
-    const distribution: Record<string, number> = {};
-    for (const [lang, size] of Object.entries(languageSizes)) {
-      distribution[lang] = totalSize > 0 ? (size / totalSize) * 100 : 0;
-    }
+/**
+ * Helper: Detect language from file extension
+ */
+function detectLanguage(path: string): string | undefined {
+  const ext = path.substring(path.lastIndexOf('.'));
+
+  const languageMap: Record<string, string> = {
+    '.js': 'JavaScript',
+    '.jsx': 'JavaScript',
+    '.ts': 'TypeScript',
+    '.tsx': 'TypeScript',
+    '.py': 'Python',
+    '.java': 'Java',
+    '.go': 'Go',
+    '.rs': 'Rust',
+    '.rb': 'Ruby',
+    '.php': 'PHP',
+    '.cpp': 'C++',
+    '.c': 'C',
+    '.h': 'C/C++',
+    '.cs': 'C#',
+    '.swift': 'Swift',
+    '.kt': 'Kotlin',
+    '.scala': 'Scala',
+    '.vue': 'Vue',
+    '.md': 'Markdown',
+    '.json': 'JSON',
+    '.yaml': 'YAML',
+    '.yml': 'YAML',
+  };
 
-    return distribution;
+  return languageMap[ext];
+}
+
+/**
+ * Helper: Calculate language distribution
+ */
+function calculateLanguageDistribution(files: FileNode[]): Record<string, number> {
+  const languageSizes: Record<string, number> = {};
+  let totalSize = 0;
+
+  for (const file of files) {
+    if (file.type === 'file' && file.language && file.size) {
+      languageSizes[file.language] = (languageSizes[file.language] || 0) + file.size;
+      totalSize += file.size;
+    }
   }
 
-  /**
-   * Clear cache
-   */
-  clearCache(): void {
-    cache.clear();
+  // Convert to percentages
+  const distribution: Record<string, number> = {};
+  for (const [lang, size] of Object.entries(languageSizes)) {
+    distribution[lang] = totalSize > 0 ? (size / totalSize) * 100 : 0;
   }
+
+  return distribution;
+}
+
+/**
+ * Structure of a repository from the entries of its tree, optionally scoped to
+ * one directory. Used for every source, not just GitHub.
+ */
+export function buildRepoStructure(
+  entries: Array<{ path: string; type: 'file' | 'dir'; size?: number; sha?: string }>,
+  path = ''
+): RepoStructure {
+  const files: FileNode[] = entries
+    .filter((entry) => shouldIncludeFile(entry.path))
+    .filter((entry) => !path || entry.path === path || entry.path.startsWith(`${path}/`))
+    .map((entry) => ({ ...entry, language: detectLanguage(entry.path) }));
+
+  // Calculate statistics
+  const totalSize = files.reduce((sum, file) => sum + (file.size || 0), 0);
+
+  return {
+    root: { path: path || '/', type: 'dir', size: totalSize },
+    files,
+    totalFiles: files.filter(f => f.type === 'file').length,
+    totalSize,
+    languages: calculateLanguageDistribution(files),
+  };
 }
 
 /**
@@ -620,3 +741,11 @@ export function getGitHubClient(): GitHubClient {
   }
   return clientInstance;
 }
+
+/**
+ * Client acting with someone's own GitHub token, e.g. to read their private
+ * repositories. Falls back to the shared client without one.
+ */
+export function createGitHubClient(token?: string): GitHubClient {
+  return token ? new GitHubClient(createOctokit(token), new SimpleCache()) : getGitHubClient();
+}
@@ -1,5 +1,6 @@
 import 'server-only';
 import { Octokit } from '@octokit/rest';
+import type { ParsedGitHubUrl } from './types';
 
 /**
  * GitHub API Configuration
@@ -10,19 +11,23 @@ let octokitInstance: Octokit | null = null;
 
 export function getOctokit(): Octokit {
   if (!octokitInstance) {
-    octokitInstance = new Octokit({
-      auth: process.env.GITHUB_TOKEN,
-      userAgent: 'detective-mongo-nextjs/1.0.0',
-      timeZone: 'UTC',
-      baseUrl: 'https://api.github.com',
-      request: {
-        timeout: 30000, // 30 seconds
-      },
-    });
+    octokitInstance = createOctokit(process.env.GITHUB_TOKEN);
   }
   return octokitInstance;
 }
 
+export function createOctokit(auth?: string): Octokit {
+  return new Octokit({
+    auth,
+    userAgent: 'detective-mongo-nextjs/1.0.0',
+    timeZone: 'UTC',
+    baseUrl: 'https://api.github.com',
+    request: {
+      timeout: 30000, // 30 seconds
+    },
+  });
+}
+
 /**
  * Rate Limit Configuration
  */
@@ -42,8 +47,18 @@ export const RATE_LIMIT_CONFIG = {
  * File Fetch Configuration
  */
 export const FETCH_CONFIG = {
-  // Maximum number of files to analyze
+  // Maximum number of files to analyze when each file is its own request
   MAX_FILES: 100,
+
+  // ...and when they all come from one tarball
+  MAX_ARCHIVE_FILES: 2000,
+
+  // Content kept from a tarball; it is checkpointed in one Mongo document (16MB max)
+  MAX_ARCHIVE_CONTENT_SIZE: 8 * 1024 * 1024,
+
+  // Beyond these a tarball isn't read to the end: every entry is listed, and a small upload can unpack to a lot
+  MAX_ARCHIVE_ENTRIES: 100_000,
+  MAX_ARCHIVE_UNPACKED_SIZE: 1024 * 1024 * 1024,
   
   // Maximum file size to download (bytes) - 1MB
   MAX_FILE_SIZE: 1024 * 1024,
@@ -165,17 +180,33 @@ export class RepositoryAccessDeniedError extends GitHubApiError {
   }
 }
 
+export class RefNotFoundError extends GitHubApiError {
+  constructor(repo: string, ref: string) {
+    super(`Ref not found in ${repo}: ${ref}`, 404);
+    this.name = 'RefNotFoundError';
+  }
+}
+
+export class PathNotFoundError extends GitHubApiError {
+  constructor(repo: string, path: string) {
+    super(`Path not found in ${repo}: ${path}`, 404);
+    this.name = 'PathNotFoundError';
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
 /**
  * Rate Limit Utilities
  */
-export async function checkRateLimit(): Promise<{
+export async function checkRateLimit(octokit: Octokit = getOctokit()): Promise<{
   limit: number;
   remaining: number;
   reset: Date;
   canProceed: boolean;
 }> {
-  const octokit = getOctokit();
-  
   try {
     const { data } = await octokit.rateLimit.get();
     const core = data.resources.core;
@@ -242,7 +273,10 @@ export async function retryWithBackoff<T>(
       // Don't retry on certain errors
       if (
         error instanceof RepositoryNotFoundError ||
-        error instanceof RepositoryAccessDeniedError
+        error instanceof RepositoryAccessDeniedError ||
+        error instanceof RefNotFoundError ||
+        error instanceof PathNotFoundError ||
+        isAbortError(error)
       ) {
         throw error;
       }
@@ -287,6 +321,36 @@ export function isValidGitHubUrl(url: string): boolean {
   return patterns.some(pattern => pattern.test(url));
 }
 
+/**
+ * Extract owner, repo and (for /tree/<ref>/<path> and /blob/<ref>/<path>
+ * URLs) the ref and path. Refs containing slashes can't be told apart from
+ * the path here, so the first segment is always taken as the ref.
+ */
+export function parseGitHubRepoUrl(url: string): ParsedGitHubUrl | null {
+  const match = url.match(
+    /github\.com\/([^\/?#]+)\/([^\/?#]+?)(?:\.git)?(?:\/(?:tree|blob)\/([^\/?#]+)(?:\/([^?#]*))?)?(?:[\/?#]|$)/
+  );
+
+  if (!match) {
+    return null;
+  }
+
+  const [, owner, repo, branch, path] = match;
+  const parsed: ParsedGitHubUrl = { owner, repo };
+  try {
+    if (branch) {
+      parsed.branch = decodeURIComponent(branch);
+    }
+    if (path && normalizeRepoPath(path)) {
+      parsed.path = normalizeRepoPath(decodeURIComponent(path));
+    }
+  } catch {
+    // Malformed escapes, e.g. "%E0%A4%A"
+    return null;
+  }
+  return parsed;
+}
+
 export function normalizeRepoPath(path: string): string {
   return path.replace(/^\/+|\/+$/g, '');
 }
@@ -1,8 +1,10 @@
 import 'server-only';
 import { getGitHubClient } from './client';
 import { getFileSelector, type SelectedFiles, type RepoStats } from './file-selector';
-import type { GitHubRepo, RepoStructure, FileNode } from './client';
-import { GitHubApiError } from './config';
+import type { GitHubClient, GitHubRepo, RepoStructure, FileNode } from './client';
+import { FETCH_CONFIG, GitHubApiError, isAbortError } from './config';
+import { HostedSource } from '@/lib/sources/hosted';
+import type { RepositorySource } from '@/lib/sources/source';
 
 /**
  * Complete repository analysis result
@@ -36,13 +38,55 @@ export interface AnalysisStatistics {
   errors: string[];
 }
 
+/**
+ * Code files of a repository, listed but not yet downloaded
+ */
+export interface RepositoryTree {
+  // Branch, tag or commit SHA the tree was read at
+  ref: string;
+  // Directory the tree is scoped to, if any
+  path?: string;
+  codeFiles: FileNode[];
+  totalFiles: number;
+  totalSize: number;
+}
+
+/**
+ * A fetched file with its line count and TODO/FIXME-style comments
+ */
+function analyzeFetchedFile(file: FileNode, content: string): FileWithContent {
+  const lines = content.split('\n');
+  const interestingComments: string[] = [];
+
+  // Find TODO/FIXME/BUG/HACK comments
+  lines.forEach((line, idx) => {
+    const match = line.match(/(TODO|FIXME|BUG|HACK|XXX):\s*(.+)/i);
+    if (match) {
+      interestingComments.push(`Line ${idx + 1}: ${match[0].trim()}`);
+    }
+  });
+
+  return {
+    ...file,
+    content,
+    category: 'standard',
+    analysis: {
+      linesOfCode: lines.length,
+      hasInterestingComments: interestingComments.length > 0,
+      complexity: Math.min(lines.length / 100, 10), // Simple complexity score
+      interestingComments: interestingComments.slice(0, 3),
+    },
+  };
+}
+
 /**
  * Enhanced GitHub Fetcher
  */
 export class GitHubFetcher {
-  private client = getGitHubClient();
   private selector = getFileSelector();
 
+  constructor(private client: GitHubClient = getGitHubClient()) {}
+
   /**
    * Fetch and analyze a complete repository
    */
@@ -51,6 +95,7 @@ export class GitHubFetcher {
     repo: string,
     options?: {
       branch?: string;
+      path?: string;
       maxFiles?: number;
       includeContent?: boolean;
     }
@@ -68,7 +113,8 @@ export class GitHubFetcher {
       const structure = await this.client.getRepoStructure(
         owner,
         repo,
-        options?.branch || repository.defaultBranch
+        options?.branch || repository.defaultBranch,
+        { path: options?.path }
       );
 
       // Step 3: Get recent commits and languages for context
@@ -95,7 +141,9 @@ export class GitHubFetcher {
 
       // Step 5: Select important files
       console.log(`[Fetcher] Selecting important files from ${structure.files.length} total files...`);
-      const selectedFiles = await this.selector.selectFiles(structure.files, repoStats);
+      const selectedFiles = await this.selector.selectFiles(structure.files, repoStats, {
+        basePath: options?.path,
+      });
       console.log(`[Fetcher] Selected ${selectedFiles.summary.selectedFiles} files`);
 
       // Step 6: Fetch content for selected files (if requested)
@@ -317,25 +365,26 @@ export class GitHubFetcher {
 
   /**
    * Fetch entire repository (simplified version - reads ALL files)
+   * at the commit the given branch, tag or SHA points to
    */
   async fetchFullRepository(
     owner: string,
     repo: string,
     options?: {
       branch?: string;
+      path?: string;
       maxFiles?: number;
       maxFileSize?: number;
+      signal?: AbortSignal;
     }
   ): Promise<{
     repository: GitHubRepo;
+    commitSha: string;
     allFiles: FileNode[];
     filesWithContent: FileWithContent[];
     statistics: AnalysisStatistics;
   }> {
     const startTime = Date.now();
-    const maxFiles = options?.maxFiles || 100;
-    const maxFileSize = options?.maxFileSize || 100 * 1024; // 100KB per file
-    const errors: string[] = [];
 
     console.log(`[Fetcher] Starting FULL repository scan: ${owner}/${repo}`);
 
@@ -343,14 +392,56 @@ export class GitHubFetcher {
     const repository = await this.client.getRepository(owner, repo);
     console.log(`[Fetcher] Repository: ${repository.fullName} (${repository.language})`);
 
-    // Get complete file structure
-    const structure = await this.client.getRepoStructure(
+    // Pin every read to one commit so the files can't change mid-scan
+    const commitSha = await this.client.resolveCommitSha(
       owner,
       repo,
       options?.branch || repository.defaultBranch
     );
+    console.log(`[Fetcher] Reading ${options?.branch || repository.defaultBranch} at ${commitSha}`);
+
+    const source = new HostedSource('github', owner, repo, this.client);
+    const tree = await this.fetchRepositoryTree(source, {
+      ref: commitSha,
+      path: options?.path,
+      signal: options?.signal,
+    });
 
-    console.log(`[Fetcher] Found ${structure.totalFiles} total files`);
+    const { filesWithContent, statistics } = await this.fetchTreeContents(source, tree, options);
+
+    return {
+      repository,
+      commitSha,
+      allFiles: tree.codeFiles,
+      filesWithContent,
+      statistics: {
+        ...statistics,
+        processingTime: Date.now() - startTime,
+      },
+    };
+  }
+
+  /**
+   * List the code files of a repository without downloading their content
+   */
+  async fetchRepositoryTree(
+    source: RepositorySource,
+    options: {
+      // Branch, tag or commit SHA; sources without commits ignore it
+      ref: string;
+      path?: string;
+      signal?: AbortSignal;
+    }
+  ): Promise<RepositoryTree> {
+    options.signal?.throwIfAborted();
+
+    // Get complete file structure
+    const structure = await source.getStructure(options.ref, {
+      path: options.path,
+      signal: options.signal,
+    });
+
+    console.log(`[Fetcher] Found ${structure.totalFiles} total files in ${source.name}${options.path ? ` under ${options.path}` : ''}`);
 
     // Filter files: only code files, exclude build/node_modules/etc
     const codeFiles = structure.files.filter(file => {
@@ -391,61 +482,46 @@ export class GitHubFetcher {
 
     console.log(`[Fetcher] Filtered to ${codeFiles.length} code files`);
 
-    // Limit files if needed
-    const filesToFetch = codeFiles.slice(0, maxFiles);
-    console.log(`[Fetcher] Fetching content for ${filesToFetch.length} files...`);
-
-    // Fetch file contents
-    const filesWithContent: FileWithContent[] = [];
-    let totalSize = 0;
-
-    for (const file of filesToFetch) {
-      if (!file.size || file.size > maxFileSize) {
-        console.log(`[Fetcher] Skipping ${file.path} (size: ${file.size || 'unknown'})`);
-        continue;
-      }
-
-      try {
-        const content = await this.client.getFileContent(
-          owner,
-          repo,
-          file.path,
-          options?.branch || repository.defaultBranch
-        );
-
-        // Analyze file
-        const lines = content.split('\n');
-        const interestingComments: string[] = [];
-        
-        // Find TODO/FIXME/BUG/HACK comments
-        lines.forEach((line, idx) => {
-          const match = line.match(/(TODO|FIXME|BUG|HACK|XXX):\s*(.+)/i);
-          if (match) {
-            interestingComments.push(`Line ${idx + 1}: ${match[0].trim()}`);
-          }
-        });
+    return {
+      ref: options.ref,
+      ...(options.path && { path: options.path }),
+      codeFiles,
+      totalFiles: structure.totalFiles,
+      totalSize: structure.totalSize,
+    };
+  }
 
-        filesWithContent.push({
-          ...file,
-          content,
-          category: 'standard',
-          analysis: {
-            linesOfCode: lines.length,
-            hasInterestingComments: interestingComments.length > 0,
-            complexity: Math.min(lines.length / 100, 10), // Simple complexity score
-            interestingComments: interestingComments.slice(0, 3),
-          },
-        });
+  /**
+   * Download and analyze the content of the code files in a repository tree,
+   * all at once (e.g. from GitHub's tarball) if the source can
+   */
+  async fetchTreeContents(
+    source: RepositorySource,
+    tree: RepositoryTree,
+    options?: {
+      maxFiles?: number;
+      maxFileSize?: number;
+      signal?: AbortSignal;
+    }
+  ): Promise<{
+    filesWithContent: FileWithContent[];
+    statistics: AnalysisStatistics;
+  }> {
+    const startTime = Date.now();
+    const errors: string[] = [];
 
-        totalSize += file.size;
-        
-        if (filesWithContent.length % 10 === 0) {
-          console.log(`[Fetcher] Progress: ${filesWithContent.length}/${filesToFetch.length} files fetched`);
-        }
-      } catch (error) {
-        errors.push(`Failed to fetch ${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        console.error(`[Fetcher] Error fetching ${file.path}:`, error);
+    let filesWithContent: FileWithContent[];
+    try {
+      filesWithContent = await this.fetchAllContents(source, tree, options);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
       }
+      // e.g. the contents API still answers when GitHub's archive can't be had
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      errors.push(`Failed to read all files at once: ${message}`);
+      console.warn(`[Fetcher] Reading ${source.name} at once failed, fetching files one by one:`, error);
+      filesWithContent = await this.fetchContentsFileByFile(source, tree, options, errors);
     }
 
     // Calculate language statistics
@@ -460,14 +536,12 @@ export class GitHubFetcher {
     console.log(`[Fetcher] ✅ Complete! Fetched ${filesWithContent.length} files in ${processingTime}ms`);
 
     return {
-      repository,
-      allFiles: codeFiles,
       filesWithContent,
       statistics: {
-        totalFiles: structure.totalFiles,
+        totalFiles: tree.totalFiles,
         analyzedFiles: filesWithContent.length,
-        totalSize: structure.totalSize,
-        analyzedSize: totalSize,
+        totalSize: tree.totalSize,
+        analyzedSize: filesWithContent.reduce((sum, file) => sum + (file.size || 0), 0),
         languages,
         processingTime,
         errors,
@@ -475,6 +549,99 @@ export class GitHubFetcher {
     };
   }
 
+  /**
+   * Read all of the tree's files at its ref, keeping only the listed code
+   * files while they stream in
+   */
+  private async fetchAllContents(
+    source: RepositorySource,
+    tree: RepositoryTree,
+    options?: {
+      maxFiles?: number;
+      maxFileSize?: number;
+      signal?: AbortSignal;
+    }
+  ): Promise<FileWithContent[]> {
+    const maxFiles = options?.maxFiles || FETCH_CONFIG.MAX_ARCHIVE_FILES;
+    const maxFileSize = options?.maxFileSize || 100 * 1024; // 100KB per file
+    const codeFiles = new Map(tree.codeFiles.map(file => [file.path, file]));
+    let keptFiles = 0;
+    let keptSize = 0;
+
+    const files = await source.readFiles(
+      tree.ref,
+      (path, size) => {
+        if (!codeFiles.has(path) || size === 0 || size > maxFileSize) {
+          return false;
+        }
+        if (keptFiles >= maxFiles || keptSize + size > FETCH_CONFIG.MAX_ARCHIVE_CONTENT_SIZE) {
+          return false;
+        }
+        keptFiles++;
+        keptSize += size;
+        return true;
+      },
+      options?.signal
+    );
+
+    console.log(`[Fetcher] ${source.name} held ${files.length} files, kept ${keptFiles} code files (${keptSize} bytes)`);
+
+    return files.flatMap(({ path, content }) =>
+      content === undefined ? [] : [analyzeFetchedFile(codeFiles.get(path)!, content)]
+    );
+  }
+
+  /**
+   * One request per file, for when the source can't hand them over at once
+   */
+  private async fetchContentsFileByFile(
+    source: RepositorySource,
+    tree: RepositoryTree,
+    options: {
+      maxFiles?: number;
+      maxFileSize?: number;
+      signal?: AbortSignal;
+    } | undefined,
+    errors: string[]
+  ): Promise<FileWithContent[]> {
+    const maxFiles = options?.maxFiles || FETCH_CONFIG.MAX_FILES;
+    const maxFileSize = options?.maxFileSize || 100 * 1024; // 100KB per file
+
+    // Limit files if needed
+    const filesToFetch = tree.codeFiles.slice(0, maxFiles);
+    console.log(`[Fetcher] Fetching content for ${filesToFetch.length} files...`);
+
+    // Fetch file contents
+    const filesWithContent: FileWithContent[] = [];
+
+    for (const file of filesToFetch) {
+      options?.signal?.throwIfAborted();
+
+      if (!file.size || file.size > maxFileSize) {
+        console.log(`[Fetcher] Skipping ${file.path} (size: ${file.size || 'unknown'})`);
+        continue;
+      }
+
+      try {
+        const content = await source.readFile(file.path, tree.ref, options?.signal);
+
+        filesWithContent.push(analyzeFetchedFile(file, content));
+
+        if (filesWithContent.length % 10 === 0) {
+          console.log(`[Fetcher] Progress: ${filesWithContent.length}/${filesToFetch.length} files fetched`);
+        }
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        errors.push(`Failed to fetch ${file.path}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        console.error(`[Fetcher] Error fetching ${file.path}:`, error);
+      }
+    }
+
+    return filesWithContent;
+  }
+
   /**
    * Get repository metadata only (no files)
    */
@@ -488,7 +655,11 @@ export class GitHubFetcher {
  */
 let fetcherInstance: GitHubFetcher | null = null;
 
-export function getGitHubFetcher(): GitHubFetcher {
+export function getGitHubFetcher(client?: GitHubClient): GitHubFetcher {
+  // Fetchers for a user's client aren't shared
+  if (client) {
+    return new GitHubFetcher(client);
+  }
   if (!fetcherInstance) {
     fetcherInstance = new GitHubFetcher();
   }
@@ -503,6 +674,7 @@ export async function analyzeRepository(
   repo: string,
   options?: {
     branch?: string;
+    path?: string;
     includeContent?: boolean;
   }
 ): Promise<CompleteRepoAnalysis> {
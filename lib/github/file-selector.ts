@@ -1,5 +1,6 @@
 import 'server-only';
 import type { FileNode } from './client';
+import { normalizeRepoPath } from './config';
 import type { GitHubCommit } from './types';
 
 /**
@@ -128,19 +129,32 @@ export class FileSelector {
    */
   async selectFiles(
     files: FileNode[],
-    repoStats: RepoStats
+    repoStats: RepoStats,
+    options?: {
+      // Directory to focus on; files are scored as if it were the repository root
+      basePath?: string;
+    }
   ): Promise<SelectedFiles> {
+    const basePath = options?.basePath ? normalizeRepoPath(options.basePath) : '';
+
     // Filter out excluded files
     const validFiles = files.filter(file => 
       file.type === 'file' && 
+      (!basePath || file.path.startsWith(`${basePath}/`)) &&
       !this.shouldExclude(file.path) &&
       (file.size || 0) <= FILE_SELECTION_CONFIG.MAX_FILE_SIZE
     );
 
     // Score all files
-    const scoredFiles = validFiles.map(file => 
-      this.scoreFile(file, repoStats)
-    );
+    const scoredFiles = validFiles.map(file => {
+      if (!basePath) {
+        return this.scoreFile(file, repoStats);
+      }
+
+      // So packages/ui/package.json ranks like a root package.json
+      const relativePath = file.path.slice(basePath.length + 1);
+      return { ...this.scoreFile({ ...file, path: relativePath }, repoStats), path: file.path };
+    });
 
     // Sort by score (highest first)
     scoredFiles.sort((a, b) => b.score - a.score);
@@ -489,8 +503,9 @@ export function getFileSelector(): FileSelector {
  */
 export async function selectImportantFiles(
   files: FileNode[],
-  repoStats: RepoStats
+  repoStats: RepoStats,
+  options?: { basePath?: string }
 ): Promise<SelectedFiles> {
   const selector = getFileSelector();
-  return selector.selectFiles(files, repoStats);
+  return selector.selectFiles(files, repoStats, options);
 }
@@ -671,7 +671,7 @@ function isConfigFile(path: string): boolean {
 /**
  * Estimate token count (rough approximation)
  */
-function estimateTokens(text: string): number {
+export function estimateTokens(text: string): number {
   // Rough estimate: ~4 characters per token for code
   return Math.ceil(text.length / 4);
 }
@@ -770,6 +770,91 @@ function formatBytes(bytes: number): string {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
 
+/**
+ * Repository context cut to a token budget
+ */
+export interface BudgetedContext {
+  content: string;
+  // Chunks included, in prompt order
+  chunks: CodeChunk[];
+  summaryIncluded: boolean;
+  droppedChunks: number;
+  tokens: number;
+}
+
+const CHUNK_PRIORITY: Record<CodeChunk['type'], number> = {
+  'config': 5,
+  'component': 4,
+  'hook': 4,
+  'function': 3,
+  'class': 3,
+  'type': 2,
+  'import': 1,
+  'comment': 1,
+};
+
+/**
+ * Summary plus the highest-priority code chunks that fit in a token budget.
+ * Chunks keep the order of their files (most important first) within a priority.
+ */
+export function formatWithinBudget(formattedRepo: FormattedRepo, tokenBudget: number): BudgetedContext {
+  let content = '';
+  let tokens = 0;
+
+  const summary = formattedRepo.summary + '\n\n---\n\n';
+  const summaryIncluded = estimateTokens(summary) <= tokenBudget * 0.25;
+  if (summaryIncluded) {
+    content += summary;
+    tokens += estimateTokens(summary);
+  }
+
+  const rankedChunks = formattedRepo.codeChunks
+    .map((chunk, index) => ({ chunk, index }))
+    .sort((a, b) => {
+      const priority = (chunk: CodeChunk) =>
+        CHUNK_PRIORITY[chunk.type] * 2 + (chunk.metadata.exportType && chunk.metadata.exportType !== 'none' ? 1 : 0);
+      return priority(b.chunk) - priority(a.chunk) || a.index - b.index;
+    })
+    .map(({ chunk }) => chunk);
+
+  // No single chunk may take more than a quarter of the budget
+  const maxChunkTokens = tokenBudget / 4;
+  const chunks: CodeChunk[] = [];
+  let sectionStarted = false;
+
+  for (const chunk of rankedChunks) {
+    // Skip duplicates and chunks nested in one already included (e.g. a method of a class)
+    const covered = chunks.some(
+      (included) =>
+        included.id === chunk.id ||
+        (included.path === chunk.path &&
+          included.metadata.startLine <= chunk.metadata.startLine &&
+          included.metadata.endLine >= chunk.metadata.endLine)
+    );
+    if (covered) continue;
+
+    const cost = chunk.metadata.tokens + 20; // Account for markdown
+    if (chunk.metadata.tokens > maxChunkTokens || tokens + cost > tokenBudget) continue;
+
+    if (!sectionStarted) {
+      content += '# Key Code Sections\n\n';
+      sectionStarted = true;
+    }
+    content += `### ${chunk.path}:${chunk.metadata.startLine}-${chunk.metadata.endLine} - ${chunk.type}${chunk.metadata.name ? ` (${chunk.metadata.name})` : ''}\n`;
+    content += `\`\`\`${chunk.metadata.language}\n${chunk.content}\n\`\`\`\n\n`;
+    tokens += cost;
+    chunks.push(chunk);
+  }
+
+  return {
+    content,
+    chunks,
+    summaryIncluded,
+    droppedChunks: rankedChunks.length - chunks.length,
+    tokens,
+  };
+}
+
 /**
  * Get formatted content optimized for specific AI models
  */
@@ -791,34 +876,7 @@ export function formatForModel(
   }
 
   // Truncate if needed, keeping summary and critical sections
-  let truncated = formattedRepo.summary + '\n\n---\n\n';
-  truncated += '# Key Code Sections\n\n';
-
-  // Add most important chunks
-  const sortedChunks = [...formattedRepo.codeChunks].sort((a, b) => {
-    const priority: Record<string, number> = {
-      'config': 5,
-      'component': 4,
-      'hook': 4,
-      'function': 3,
-      'class': 3,
-      'type': 2,
-      'import': 1,
-      'comment': 1,
-    };
-    return (priority[b.type] || 0) - (priority[a.type] || 0);
-  });
-
-  let currentTokens = estimateTokens(truncated);
-  for (const chunk of sortedChunks) {
-    if (currentTokens + chunk.metadata.tokens > limit * 0.9) break;
-    
-    truncated += `### ${chunk.path} - ${chunk.type}${chunk.metadata.name ? ` (${chunk.metadata.name})` : ''}\n`;
-    truncated += `\`\`\`${chunk.metadata.language}\n${chunk.content}\n\`\`\`\n\n`;
-    currentTokens += chunk.metadata.tokens + 20; // Account for markdown
-  }
-
-  return truncated;
+  return formatWithinBudget(formattedRepo, limit * 0.9).content;
 }
 
 // Export singleton functions
@@ -827,6 +885,7 @@ export function getFormatter() {
     formatRepoForAI,
     createRepoSummary,
     formatForModel,
+    formatWithinBudget,
     extractSemanticChunks,
   };
 }
@@ -0,0 +1,88 @@
+import { gzipSync } from 'zlib';
+import { afterEach, describe, expect, it } from 'vitest';
+import { RepositorySourceError } from '@/lib/sources/source';
+import { FETCH_CONFIG } from './config';
+import { extractTarball, stripPathComponents } from './tarball';
+
+// Minimal ustar writer: a header block per entry, content padded to 512 bytes, two empty blocks
+function tar(entries: { path: string; content?: string | Buffer; type?: string }[]): Buffer {
+  const blocks = entries.flatMap(({ path, content = '', type = '0' }) => {
+    const data = Buffer.from(content);
+    const header = Buffer.alloc(512);
+    header.write(path, 0, 100, 'utf8');
+    header.write(data.length.toString(8).padStart(11, '0'), 124, 12, 'ascii');
+    header.write(type, 156, 1, 'ascii');
+    header.write('ustar', 257, 'ascii');
+    return [header, data, Buffer.alloc((512 - (data.length % 512)) % 512)];
+  });
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+const stream = (data: Buffer) => new Blob([new Uint8Array(gzipSync(data))]).stream();
+
+const limits = { ...FETCH_CONFIG };
+
+describe('extractTarball', () => {
+  afterEach(() => {
+    Object.assign(FETCH_CONFIG, limits);
+  });
+
+  it('lists every file and keeps the content of the wanted ones only', async () => {
+    const archive = tar([
+      { path: 'acme-api-1a2b3c/', type: '5' },
+      { path: 'acme-api-1a2b3c/src/index.ts', content: 'export const answer = 42;\n' },
+      { path: 'acme-api-1a2b3c/README.md', content: '# acme' },
+    ]);
+
+    const files = await extractTarball(stream(archive), {
+      keep: (path) => path.endsWith('.ts'),
+      stripComponents: 1,
+    });
+
+    expect(files).toEqual([
+      { path: 'src/index.ts', size: 26, content: 'export const answer = 42;\n' },
+      { path: 'README.md', size: 6 },
+    ]);
+  });
+
+  it('takes long names from PAX headers', async () => {
+    const longPath = `repo/${'nested/'.repeat(20)}deep.ts`;
+    const record = `path=${longPath}\n`;
+    // The length prefix counts itself
+    const length = `${record.length + 4} `.length + record.length;
+    const archive = tar([
+      { path: 'repo/PaxHeader', type: 'x', content: `${length} ${record}` },
+      { path: 'repo/truncated', content: 'deep' },
+    ]);
+
+    const files = await extractTarball(stream(archive), { keep: () => true, stripComponents: 1 });
+    expect(files).toEqual([{ path: longPath.slice('repo/'.length), size: 4, content: 'deep' }]);
+  });
+
+  it('lists binary files without content', async () => {
+    const archive = tar([{ path: 'logo.png', content: Buffer.from([0x89, 0x50, 0x00, 0x47]) }]);
+    expect(await extractTarball(stream(archive), { keep: () => true })).toEqual([{ path: 'logo.png', size: 4 }]);
+  });
+
+  it('refuses archives with too many entries', async () => {
+    FETCH_CONFIG.MAX_ARCHIVE_ENTRIES = 3;
+    const archive = tar(Array.from({ length: 4 }, (_, i) => ({ path: `file-${i}.txt`, content: 'x' })));
+
+    await expect(extractTarball(stream(archive), { keep: () => false })).rejects.toThrow(RepositorySourceError);
+  });
+
+  it('refuses archives that unpack to too many bytes', async () => {
+    FETCH_CONFIG.MAX_ARCHIVE_UNPACKED_SIZE = 64 * 1024;
+    const archive = tar([{ path: 'zeros.txt', content: Buffer.alloc(128 * 1024, 'a') }]);
+
+    await expect(extractTarball(stream(archive), { keep: () => false })).rejects.toThrow(RepositorySourceError);
+  });
+});
+
+describe('stripPathComponents', () => {
+  it('drops leading directories', () => {
+    expect(stripPathComponents('owner-repo-sha/src/index.ts', 1)).toBe('src/index.ts');
+    expect(stripPathComponents('owner-repo-sha/', 1)).toBe('');
+    expect(stripPathComponents('src/index.ts', 0)).toBe('src/index.ts');
+  });
+});
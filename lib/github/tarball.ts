@@ -0,0 +1,221 @@
+import 'server-only';
+import { RepositorySourceError } from '@/lib/sources/source';
+import { FETCH_CONFIG } from './config';
+
+/**
+ * Streaming reader for gzipped tarballs, such as the ones GitHub serves for a
+ * commit. Only the entries the caller wants are held in memory, the rest are
+ * skipped as they stream past.
+ */
+
+const BLOCK_SIZE = 512;
+
+export interface ArchiveFile {
+  // Path inside the repository, after stripComponents
+  path: string;
+  size: number;
+  // Only set for files the filter kept
+  content?: string;
+}
+
+export interface ExtractOptions {
+  // Decides from the header alone whether to keep a file's content
+  keep: (path: string, size: number) => boolean;
+  // Leading directories to drop from every path, like tar's --strip-components
+  stripComponents?: number;
+  signal?: AbortSignal;
+}
+
+interface EntryHeader {
+  path: string;
+  size: number;
+  type: string;
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const end = block.indexOf(0, offset);
+  return block.toString('utf8', offset, end === -1 || end > offset + length ? offset + length : end);
+}
+
+function readSize(block: Buffer): number {
+  // Sizes over 8GB use GNU base-256; nothing we keep is that large, but skipping must stay in sync
+  if (block[124] & 0x80) {
+    let size = 0;
+    for (let i = 125; i < 136; i++) {
+      size = size * 256 + block[i];
+    }
+    return size;
+  }
+  return parseInt(readString(block, 124, 12).trim() || '0', 8);
+}
+
+function parseHeader(block: Buffer): EntryHeader {
+  const name = readString(block, 0, 100);
+  const isUstar = block.toString('ascii', 257, 262) === 'ustar';
+  const prefix = isUstar ? readString(block, 345, 155) : '';
+  return {
+    path: prefix ? `${prefix}/${name}` : name,
+    size: readSize(block),
+    type: String.fromCharCode(block[156] || 0x30),
+  };
+}
+
+// PAX records: "<length> <key>=<value>\n"
+function parsePaxRecords(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = parseInt(data.toString('ascii', offset, space), 10);
+    if (space === -1 || !length) {
+      break;
+    }
+    const record = data.toString('utf8', space + 1, offset + length - 1);
+    const equals = record.indexOf('=');
+    records[record.slice(0, equals)] = record.slice(equals + 1);
+    offset += length;
+  }
+
+  return records;
+}
+
+// With 1: "owner-repo-<sha>/src/index.ts" -> "src/index.ts"
+export function stripPathComponents(path: string, count: number): string {
+  return path.split('/').slice(count).join('/');
+}
+
+/**
+ * Tar parser fed one chunk at a time
+ */
+class TarExtractor {
+  readonly files: ArchiveFile[] = [];
+
+  private header = Buffer.alloc(0);
+  // The entry being read, once its header is complete
+  private entry: (EntryHeader & { remaining: number; parts: Buffer[] | null }) | null = null;
+  private padding = 0;
+  // Overrides for the next entry from PAX or GNU long-name headers
+  private nextPath: string | null = null;
+  private nextSize: number | null = null;
+  private entryCount = 0;
+  private unpackedSize = 0;
+
+  constructor(
+    private keep: ExtractOptions['keep'],
+    private stripComponents: number
+  ) {}
+
+  write(chunk: Buffer): void {
+    this.unpackedSize += chunk.length;
+    if (this.unpackedSize > FETCH_CONFIG.MAX_ARCHIVE_UNPACKED_SIZE) {
+      throw new RepositorySourceError(
+        `Archive unpacks to more than ${FETCH_CONFIG.MAX_ARCHIVE_UNPACKED_SIZE / 1024 / 1024}MB`
+      );
+    }
+
+    while (chunk.length > 0) {
+      if (this.entry) {
+        const take = Math.min(this.entry.remaining, chunk.length);
+        this.entry.parts?.push(Buffer.from(chunk.subarray(0, take)));
+        this.entry.remaining -= take;
+        chunk = chunk.subarray(take);
+        if (this.entry.remaining === 0) {
+          this.finishEntry();
+        }
+      } else if (this.padding > 0) {
+        const skip = Math.min(this.padding, chunk.length);
+        this.padding -= skip;
+        chunk = chunk.subarray(skip);
+      } else {
+        const take = Math.min(BLOCK_SIZE - this.header.length, chunk.length);
+        this.header = Buffer.concat([this.header, chunk.subarray(0, take)]);
+        chunk = chunk.subarray(take);
+        if (this.header.length === BLOCK_SIZE) {
+          // All-zero blocks mark the end of the archive
+          if (this.header.some((byte) => byte !== 0)) {
+            this.startEntry(this.header);
+          }
+          this.header = Buffer.alloc(0);
+        }
+      }
+    }
+  }
+
+  private startEntry(block: Buffer): void {
+    if (++this.entryCount > FETCH_CONFIG.MAX_ARCHIVE_ENTRIES) {
+      throw new RepositorySourceError(`Archive has more than ${FETCH_CONFIG.MAX_ARCHIVE_ENTRIES} entries`);
+    }
+
+    const parsed = parseHeader(block);
+    const isMeta = parsed.type === 'x' || parsed.type === 'g' || parsed.type === 'L';
+    const isFile = parsed.type === '0' || parsed.type === '7';
+    const path = isMeta ? parsed.path : this.nextPath ?? parsed.path;
+    const size = isMeta ? parsed.size : this.nextSize ?? parsed.size;
+    if (!isMeta) {
+      this.nextPath = null;
+      this.nextSize = null;
+    }
+
+    const stripped = stripPathComponents(path, this.stripComponents);
+    const wanted = parsed.type === 'x' || parsed.type === 'L' || (isFile && !!stripped && this.keep(stripped, size));
+    this.entry = { path, size, type: parsed.type, remaining: size, parts: wanted ? [] : null };
+    this.padding = (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (size === 0) {
+      this.finishEntry();
+    }
+  }
+
+  private finishEntry(): void {
+    const entry = this.entry;
+    if (!entry) {
+      return;
+    }
+    this.entry = null;
+    const data = entry.parts ? Buffer.concat(entry.parts) : null;
+
+    if (entry.type === 'x' && data) {
+      const records = parsePaxRecords(data);
+      this.nextPath = records.path ?? this.nextPath;
+      this.nextSize = records.size ? Number(records.size) : this.nextSize;
+    } else if (entry.type === 'L' && data) {
+      this.nextPath = readString(data, 0, data.length);
+    } else if (entry.type === '0' || entry.type === '7') {
+      // Binary files that slipped through the filter are listed without content
+      const content = data && !data.includes(0) ? data.toString('utf8') : undefined;
+      const path = stripPathComponents(entry.path, this.stripComponents);
+      if (path) {
+        this.files.push({ path, size: entry.size, ...(content !== undefined && { content }) });
+      }
+    }
+  }
+}
+
+/**
+ * List every file of a gzipped tarball, with the content of those `keep` accepts.
+ * Throws RepositorySourceError for archives with too many entries or bytes.
+ */
+export async function extractTarball(
+  gzipped: ReadableStream<Uint8Array>,
+  { keep, stripComponents = 0, signal }: ExtractOptions
+): Promise<ArchiveFile[]> {
+  const extractor = new TarExtractor(keep, stripComponents);
+  const gunzip = new DecompressionStream('gzip') as TransformStream<Uint8Array, Uint8Array>;
+  const reader = gzipped.pipeThrough(gunzip).getReader();
+
+  try {
+    while (true) {
+      signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      extractor.write(Buffer.from(value.buffer, value.byteOffset, value.byteLength));
+    }
+  } finally {
+    // Stops the download when extraction ends early
+    await reader.cancel().catch(() => {});
+  }
+
+  return extractor.files;
+}
@@ -0,0 +1,13 @@
+import 'server-only';
+import { getGitHubToken } from '@/lib/auth';
+import { createGitHubClient, type GitHubClient } from './client';
+
+/**
+ * Client for a user's connected GitHub account, which can read their private
+ * repositories. Users without one (and cases without an owner) share the
+ * app's client.
+ */
+export async function getGitHubClientForUser(userId?: string): Promise<GitHubClient> {
+  const token = userId ? await getGitHubToken(userId) : undefined;
+  return createGitHubClient(token);
+}
@@ -0,0 +1,148 @@
+import 'server-only';
+import { createHash } from 'crypto';
+import { getCollection } from '@/lib/mongodb';
+import type { FileWithContent } from '@/lib/github/fetcher';
+import { AnalysisCacheEntry, LlmProviderId, Podcast, StyleDefinition, StyleId } from '@/lib/types';
+
+let indexesReady: Promise<void> | null = null;
+
+async function getCacheCollection() {
+  const collection = await getCollection('analysis_cache');
+
+  if (!indexesReady) {
+    indexesReady = collection
+      .createIndex({ key: 1, narrative_style: 1 }, { unique: true })
+      .then(() => undefined)
+      .catch((error) => {
+        indexesReady = null;
+        throw error;
+      });
+  }
+  await indexesReady;
+
+  return collection;
+}
+
+// Where the repository lives, so "acme/api" on GitHub and on a GitLab instance don't share entries
+function sourceScope(source: Podcast['source']): string {
+  switch (source?.kind) {
+    case 'gitlab':
+    case 'bitbucket':
+      return `${source.kind}:${source.base_url.replace(/^https?:\/\//, '')}/`;
+    case 'local':
+    case 'upload':
+      return `${source.kind}:`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Cache key of a repository snapshot, optionally scoped to one directory.
+ * Episodes written by other providers than Gemini are kept apart.
+ */
+export function analysisCacheKey(
+  podcast: Pick<Podcast, 'repo_name' | 'path' | 'source'>,
+  commitSha: string,
+  llmProvider: LlmProviderId = 'gemini'
+): string {
+  const { repo_name, path, source } = podcast;
+  return `${sourceScope(source)}${repo_name.toLowerCase()}@${commitSha}${path ? `:${path}` : ''}${llmProvider !== 'gemini' ? `#${llmProvider}` : ''}`;
+}
+
+/**
+ * Digest of everything in a style that shapes its scripts, so a style that
+ * changed (a custom one recreated under its id, a built-in one in a new
+ * release) doesn't get the scripts written for its old content
+ */
+export function styleDigest(style: StyleDefinition): string {
+  const { id, name, description, narrator_voice, prompt_template, title_template, arc_template } = style;
+  const { speakers, emotions, sound_effects, word_budget, fallback_segments } = style;
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        id,
+        name,
+        description,
+        narrator_voice,
+        prompt_template,
+        title_template,
+        arc_template,
+        speakers,
+        emotions,
+        sound_effects,
+        word_budget,
+        fallback_segments,
+      ])
+    )
+    .digest('hex');
+}
+
+/**
+ * Per-file content digests plus one digest over all of them
+ */
+export function digestFiles(files: FileWithContent[]): Pick<AnalysisCacheEntry, 'files' | 'content_digest'> {
+  const digests = files
+    .map((file) => ({
+      path: file.path,
+      digest: createHash('sha256').update(file.content).digest('hex'),
+    }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const combined = createHash('sha256');
+  for (const { path, digest } of digests) {
+    combined.update(`${path}\0${digest}\n`);
+  }
+
+  return { files: digests, content_digest: combined.digest('hex') };
+}
+
+/**
+ * Find the analysis of a snapshot in a given style, or in any style if none
+ * matches exactly (its evidence can still be reused for a new script).
+ */
+export async function findCachedAnalysis(
+  key: string,
+  style: StyleDefinition
+): Promise<{ entry: AnalysisCacheEntry; exact: boolean } | null> {
+  const collection = await getCacheCollection();
+
+  const exact = await collection.findOne<AnalysisCacheEntry>({
+    key,
+    narrative_style: style.id,
+    style_digest: styleDigest(style),
+  });
+  if (exact) {
+    return { entry: exact, exact: true };
+  }
+
+  const other = await collection.findOne<AnalysisCacheEntry>({ key }, { sort: { updated_at: -1 } });
+  return other ? { entry: other, exact: false } : null;
+}
+
+/**
+ * Store (or replace) the analysis of a snapshot in one style
+ */
+export async function saveCachedAnalysis(
+  entry: Omit<AnalysisCacheEntry, 'created_at' | 'updated_at'>
+): Promise<void> {
+  const collection = await getCacheCollection();
+  const now = new Date();
+
+  await collection.updateOne(
+    { key: entry.key, narrative_style: entry.narrative_style },
+    {
+      $set: { ...entry, updated_at: now },
+      $setOnInsert: { created_at: now },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Forget every cached analysis written in a style, e.g. after the style was deleted
+ */
+export async function purgeCachedAnalyses(narrativeStyle: StyleId): Promise<void> {
+  const collection = await getCacheCollection();
+  await collection.deleteMany({ narrative_style: narrativeStyle });
+}
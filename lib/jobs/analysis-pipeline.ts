@@ -0,0 +1,360 @@
+import 'server-only';
+import { getCollection } from '@/lib/mongodb';
+import { getGitHubFetcher, type AnalysisStatistics, type FileWithContent, type RepositoryTree } from '@/lib/github/fetcher';
+import { getRepositorySource, type RepositorySnapshot } from '@/lib/sources';
+import { generatePodcastScript, analyzeCodePatterns, generateAutopsyReport, type GeneratedScript } from '@/lib/gemini';
+import { AnalysisJob, AnalysisStatus, AnalysisStep, FactCheckReport, NarrativeStyle, Podcast, PodcastScript } from '@/lib/types';
+import { factCheckScript } from '@/lib/fact-check';
+import { getLlmProvider } from '@/lib/llm';
+import { requireStyle } from '@/lib/styles/registry';
+import { meterLlmProvider } from '@/lib/usage';
+import { PIPELINE_AUTHOR, recordScriptVersion } from '@/lib/script-versions';
+import { analysisCacheKey, digestFiles, findCachedAnalysis, saveCachedAnalysis, styleDigest } from './analysis-cache';
+import { JobDeadlineError, loadCheckpoints, saveCheckpoint } from './queue';
+
+/**
+ * Outputs of each pipeline step, as stored in the checkpoints
+ */
+interface StepOutputs {
+  metadata: RepositorySnapshot;
+  tree: RepositoryTree;
+  content: { filesWithContent: FileWithContent[]; statistics: AnalysisStatistics };
+  patterns: string[];
+  autopsy: string;
+  script: GeneratedScript;
+  factcheck: { script: PodcastScript; report: FactCheckReport };
+}
+
+export interface PipelineContext {
+  job: AnalysisJob;
+  workerId: string;
+  // Aborted when the investigation is cancelled
+  signal: AbortSignal;
+  // Throws if the worker no longer owns the job
+  assertLease: () => void;
+  // Epoch ms by which the job must hand back control (JobDeadlineError)
+  deadline?: number;
+}
+
+// Rejects with `message` after `ms`, or with JobDeadlineError if the job's deadline comes first
+async function withTimeout<T>(promise: Promise<T>, ms: number, message: string, ctx: PipelineContext): Promise<T> {
+  const left = (ctx.deadline ?? Infinity) - Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(left < ms ? new JobDeadlineError(ctx.job.id) : new Error(message)),
+          Math.max(0, Math.min(ms, left))
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Run the analysis pipeline for a job, skipping steps that already have a checkpoint
+ */
+export async function runAnalysisPipeline(ctx: PipelineContext): Promise<void> {
+  const { job, workerId, signal } = ctx;
+  const collection = await getCollection('podcasts');
+  const podcast = await collection.findOne<Podcast>({ id: job.podcast_id });
+
+  if (!podcast) {
+    throw new Error(`Podcast ${job.podcast_id} no longer exists`);
+  }
+
+  const narrativeStyle = podcast.narrative_style || NarrativeStyle.TRUE_CRIME;
+  const style = await requireStyle(narrativeStyle);
+  // Tokens are billed to the case and its owner
+  const provider = meterLlmProvider(getLlmProvider(podcast.llm_provider), { podcastId: podcast.id, userId: podcast.owner_id });
+  // GitHub, a directory on the server or an uploaded archive. On GitHub the
+  // owner's own token, if connected, so private repositories can be read.
+  const source = await getRepositorySource(podcast, podcast.owner_id);
+  const fetcher = getGitHubFetcher();
+
+  const checkpoints = (await loadCheckpoints(job.id)) as Partial<StepOutputs>;
+  const resumed = Object.keys(checkpoints).length > 0;
+
+  console.log(
+    `[Pipeline] ${resumed ? 'Resuming' : 'Starting'} ${source.name}${podcast.path ? `/${podcast.path}` : ''} for podcast ${podcast.id} with ${provider.id} (attempt ${job.attempts}/${job.max_attempts})`
+  );
+
+  // Check for required environment variables
+  if (source.kind === 'github' && !process.env.GITHUB_TOKEN) {
+    console.warn('[Pipeline] GITHUB_TOKEN is missing. Rate limits will be strict.');
+  }
+  if (provider.id === 'gemini' && !process.env.GEMINI_API_KEY) {
+    console.error('[Pipeline] GEMINI_API_KEY is missing. Script generation will fail.');
+  }
+
+  const updatePodcast = async (update: Record<string, unknown>) => {
+    signal.throwIfAborted();
+    ctx.assertLease();
+    // Never overwrite a cancellation that raced with this update
+    await collection.updateOne(
+      { id: podcast.id, status: { $ne: AnalysisStatus.CANCELLED } },
+      { $set: update }
+    );
+  };
+
+  async function step<K extends AnalysisStep>(name: K, run: () => Promise<StepOutputs[K]>): Promise<StepOutputs[K]> {
+    const existing = checkpoints[name];
+    if (existing !== undefined) {
+      console.log(`[Pipeline] Step "${name}" restored from checkpoint`);
+      return existing as StepOutputs[K];
+    }
+
+    // Not worth starting a step that can't finish in this run
+    if (ctx.deadline !== undefined && Date.now() >= ctx.deadline) {
+      throw new JobDeadlineError(job.id);
+    }
+
+    const output = await run();
+    signal.throwIfAborted();
+    ctx.assertLease();
+    await saveCheckpoint(job.id, workerId, name, output);
+    return output;
+  }
+
+  // Step 1: Fetch repository metadata
+  const { repository, contributors, commitSha } = await step('metadata', async () => {
+    console.log('[Pipeline] Step 1: Fetching metadata...');
+    await updatePodcast({
+      status: AnalysisStatus.ANALYZING,
+      progress: 5,
+      progress_message: '🔍 Opening the case file...',
+    });
+
+    // Pin the investigation to one commit so the episode describes a fixed snapshot
+    const { repository, contributors, commitSha } = await withTimeout(
+      source.getSnapshot(podcast.ref, signal),
+      60000,
+      'Timeout fetching repository metadata. Please check if the repository exists and is public, or connect GitHub to investigate private repositories.',
+      ctx
+    );
+    console.log(`[Pipeline] Pinned ${podcast.ref || repository.defaultBranch} to ${commitSha}`);
+
+    await updatePodcast({
+      commit_sha: commitSha,
+      // Before any evidence is stored: private repositories make private cases
+      is_private: repository.isPrivate,
+      progress: 15,
+      progress_message: '📂 Searching crime scene for evidence...',
+      repo_metadata: {
+        name: repository.name,
+        description: repository.description,
+        language: repository.language,
+        stars: repository.stars,
+        size: repository.size,
+        topics: repository.topics,
+      },
+      contributors,
+    });
+
+    return { repository, contributors, commitSha };
+  });
+
+  const cacheKey = analysisCacheKey(podcast, commitSha, provider.id);
+  const cached = podcast.force_refresh ? null : await findCachedAnalysis(cacheKey, style);
+
+  // Same snapshot, same style: the case has already been solved
+  if (cached?.exact) {
+    console.log(`[Pipeline] Reusing cached analysis of ${cacheKey} (${narrativeStyle})`);
+    const version = await recordScriptVersion(podcast.id, cached.entry.script, 'generated', { author: PIPELINE_AUTHOR });
+    await updatePodcast({
+      script: cached.entry.script,
+      script_version: version.version,
+      script_generation: cached.entry.script_generation,
+      prompt_provenance: cached.entry.prompt_provenance,
+      fact_check: cached.entry.fact_check,
+      patterns_found: cached.entry.patterns_found,
+      cache_hit: 'full',
+      status: AnalysisStatus.COMPLETED,
+      progress: 100,
+      progress_message: '✅ Case closed! This snapshot was already investigated.',
+      completed_at: new Date(),
+      analysis_summary: cached.entry.analysis_summary,
+    });
+    return;
+  }
+
+  // Step 2: Read ENTIRE repository structure
+  const tree = await step('tree', async () => {
+    console.log('[Pipeline] Step 2: Fetching repository tree...');
+    await updatePodcast({
+      status: AnalysisStatus.ANALYZING,
+      progress: 25,
+      progress_message: '🗂️ Cataloging all evidence files...',
+    });
+
+    return withTimeout(
+      fetcher.fetchRepositoryTree(source, { ref: commitSha, path: podcast.path, signal }),
+      30000,
+      'Timeout fetching repository structure. The repository might be too large.',
+      ctx
+    );
+  });
+
+  // Step 3: Read the evidence files
+  const { filesWithContent, statistics } = await step('content', async () => {
+    console.log(`[Pipeline] Step 3: Fetching content for ${tree.codeFiles.length} files...`);
+    await updatePodcast({
+      status: AnalysisStatus.ANALYZING,
+      progress: 40,
+      progress_message: `📄 Reading ${tree.codeFiles.length} files from the scene...`,
+    });
+
+    return withTimeout(
+      fetcher.fetchTreeContents(source, tree, { signal }),
+      60000,
+      'Timeout fetching repository files. The repository might be too large.',
+      ctx
+    );
+  });
+
+  // Evidence gathered for another style is only reused if every file still reads the same
+  const fileDigests = digestFiles(filesWithContent);
+  const evidence = cached && cached.entry.content_digest === fileDigests.content_digest ? cached.entry : null;
+  if (evidence) {
+    console.log(`[Pipeline] Reusing cached evidence of ${cacheKey} from the ${evidence.narrative_style} case`);
+  }
+
+  // Step 4: Analyze code patterns
+  const patterns = await step('patterns', async () => {
+    console.log('[Pipeline] Step 4: Analyzing patterns...');
+    await updatePodcast({
+      status: AnalysisStatus.ANALYZING,
+      progress: 55,
+      progress_message: '🔬 Analyzing code patterns and forensic evidence...',
+    });
+
+    const patterns = evidence ? evidence.patterns_found : await analyzeCodePatterns(filesWithContent);
+    console.log(`[Pipeline] Patterns found: ${patterns.join(', ')}`);
+
+    await updatePodcast({
+      patterns_found: patterns,
+      progress: 65,
+      progress_message: `🎯 Found ${patterns.length} suspicious patterns at the crime scene...`,
+    });
+
+    return patterns;
+  });
+
+  // Step 5: Generate Autopsy Report
+  const autopsyReport = await step('autopsy', async () => {
+    console.log('[Pipeline] Step 5: Generating autopsy report...');
+    if (evidence?.analysis_summary.autopsy_report) {
+      return evidence.analysis_summary.autopsy_report;
+    }
+    return withTimeout(
+      generateAutopsyReport(repository, filesWithContent, patterns, { path: podcast.path, signal, provider }),
+      60000,
+      `Timeout writing the autopsy report with ${provider.id}`,
+      ctx
+    );
+  });
+
+  // Step 6: Generate crime investigation story
+  const { script: draft, generation, provenance } = await step('script', async () => {
+    console.log('[Pipeline] Step 6: Generating script...');
+    await updatePodcast({
+      status: AnalysisStatus.GENERATING_SCRIPT,
+      progress: 75,
+      progress_message: '🎙️ Detective crafting the investigation narrative...',
+    });
+
+    try {
+      const generated = await withTimeout(
+        generatePodcastScript(repository, filesWithContent, style, {
+          statistics,
+          patterns,
+          fullRepoContext: true,
+          path: podcast.path,
+          signal,
+          provider,
+        }),
+        // Leaves room for the repair pass
+        120000,
+        `Timeout generating script with ${provider.id}`,
+        ctx
+      );
+      console.log(`[Pipeline] Script ${generated.generation.status}`);
+      return generated;
+    } catch (geminiError: unknown) {
+      signal.throwIfAborted();
+      if (geminiError instanceof JobDeadlineError) {
+        throw geminiError;
+      }
+      const message = geminiError instanceof Error ? geminiError.message : 'Unknown Gemini error';
+      console.error('[Pipeline] ❌ Gemini script generation failed:', message);
+      throw new Error(`Script generation failed: ${message}`);
+    }
+  });
+
+  // Step 7: Check the script's claims against the evidence
+  const { script, report: factCheck } = await step('factcheck', async () => {
+    console.log('[Pipeline] Step 7: Fact-checking script...');
+    const checked = factCheckScript(draft, { repository, tree, files: filesWithContent, contributors, patterns });
+    console.log(
+      `[Pipeline] Fact check: confidence ${checked.report.confidence}, ${checked.report.rewritten} segment(s) corrected, ${checked.report.flagged} flagged`
+    );
+    return checked;
+  });
+
+  const version = await recordScriptVersion(podcast.id, script, 'generated', { author: PIPELINE_AUTHOR });
+  await updatePodcast({
+    script,
+    script_version: version.version,
+    script_generation: generation,
+    fact_check: factCheck,
+    prompt_provenance: provenance,
+    progress: 90,
+    progress_message: '📝 Crime story written, case file ready...',
+  });
+
+  const analysisSummary = {
+    total_files: statistics.totalFiles,
+    analyzed_files: statistics.analyzedFiles,
+    total_size: statistics.totalSize,
+    languages: statistics.languages,
+    processing_time_ms: statistics.processingTime,
+    autopsy_report: autopsyReport,
+  };
+
+  // A canned fallback script is never worth reusing
+  if (generation.status !== 'fallback') {
+    try {
+      await saveCachedAnalysis({
+        key: cacheKey,
+        narrative_style: narrativeStyle,
+        style_digest: styleDigest(style),
+        ...fileDigests,
+        patterns_found: patterns,
+        analysis_summary: analysisSummary,
+        script,
+        script_generation: generation,
+        prompt_provenance: provenance,
+        fact_check: factCheck,
+      });
+    } catch (cacheError) {
+      // A missed cache write only costs the next submission a full run
+      console.warn(`[Pipeline] Failed to cache analysis of ${cacheKey}:`, cacheError);
+    }
+  }
+
+  // Mark as completed
+  await updatePodcast({
+    status: AnalysisStatus.COMPLETED,
+    progress: 100,
+    progress_message: '✅ Case closed! Investigation complete.',
+    completed_at: new Date(),
+    analysis_summary: analysisSummary,
+    ...(evidence && { cache_hit: 'evidence' }),
+  });
+
+  console.log(`[Pipeline] Analysis completed successfully for podcast ${podcast.id}`);
+}
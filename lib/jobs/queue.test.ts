@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { JobStatus } from '@/lib/types';
+import { LeaseLostError, completeJob, saveCheckpoint } from './queue';
+
+interface FakeJob {
+  id: string;
+  status: JobStatus;
+  lease_owner: string;
+  lease_expires_at: Date;
+  completed_steps: string[];
+}
+
+const db = vi.hoisted(() => ({
+  job: null as FakeJob | null,
+  checkpoints: [] as { job_id: string; step: string; data: unknown }[],
+}));
+
+// Just enough of the two collections for saveCheckpoint and completeJob: jobs match on id, lease owner, status and expiry
+vi.mock('@/lib/mongodb', () => ({
+  getCollection: async (name: string) => ({
+    createIndex: async () => undefined,
+    updateOne: async (filter: Record<string, unknown>, update: Record<string, Record<string, unknown>>) => {
+      if (name === 'job_checkpoints') {
+        db.checkpoints.push(update.$set as (typeof db.checkpoints)[number]);
+        return { matchedCount: 1 };
+      }
+
+      const job = db.job;
+      const expiry = filter.lease_expires_at as { $gt: Date } | undefined;
+      const matched =
+        job !== null &&
+        job.id === filter.id &&
+        job.lease_owner === filter.lease_owner &&
+        (!filter.status || job.status === filter.status) &&
+        (!expiry || job.lease_expires_at > expiry.$gt);
+      if (matched && update.$addToSet) {
+        job.completed_steps.push(update.$addToSet.completed_steps as string);
+      }
+      if (matched && update.$set?.status) {
+        job.status = update.$set.status as JobStatus;
+      }
+      return { matchedCount: matched ? 1 : 0 };
+    },
+    deleteMany: async (filter: { job_id: string }) => {
+      db.checkpoints = db.checkpoints.filter((checkpoint) => checkpoint.job_id !== filter.job_id);
+    },
+  }),
+}));
+
+beforeEach(() => {
+  db.job = {
+    id: 'job-1',
+    status: JobStatus.RUNNING,
+    lease_owner: 'worker-a',
+    lease_expires_at: new Date(Date.now() + 60_000),
+    completed_steps: [],
+  };
+  db.checkpoints = [];
+});
+
+describe('saveCheckpoint', () => {
+
+  it('stores the step for the worker holding the lease', async () => {
+    await saveCheckpoint('job-1', 'worker-a', 'tree', { files: 3 });
+
+    expect(db.checkpoints).toEqual([expect.objectContaining({ job_id: 'job-1', step: 'tree', data: { files: 3 } })]);
+    expect(db.job?.completed_steps).toEqual(['tree']);
+  });
+
+  it('writes nothing for a worker that lost the lease to another', async () => {
+    await expect(saveCheckpoint('job-1', 'worker-b', 'tree', { files: 3 })).rejects.toBeInstanceOf(LeaseLostError);
+
+    expect(db.checkpoints).toEqual([]);
+    expect(db.job?.completed_steps).toEqual([]);
+  });
+
+  it('writes nothing once the lease has expired', async () => {
+    db.job!.lease_expires_at = new Date(Date.now() - 1000);
+
+    await expect(saveCheckpoint('job-1', 'worker-a', 'tree', { files: 3 })).rejects.toBeInstanceOf(LeaseLostError);
+    expect(db.checkpoints).toEqual([]);
+  });
+});
+
+describe('completeJob', () => {
+  it('completes the job and drops its checkpoints for the lease holder', async () => {
+    await saveCheckpoint('job-1', 'worker-a', 'tree', { files: 3 });
+
+    await completeJob('job-1', 'worker-a');
+
+    expect(db.job?.status).toBe(JobStatus.COMPLETED);
+    expect(db.checkpoints).toEqual([]);
+  });
+
+  it('leaves a job taken over by another worker untouched', async () => {
+    await saveCheckpoint('job-1', 'worker-a', 'tree', { files: 3 });
+    db.job!.lease_owner = 'worker-b';
+
+    await expect(completeJob('job-1', 'worker-a')).rejects.toBeInstanceOf(LeaseLostError);
+    expect(db.job?.status).toBe(JobStatus.RUNNING);
+    expect(db.checkpoints).toHaveLength(1);
+  });
+
+  it('does not complete a cancelled job', async () => {
+    db.job!.status = JobStatus.CANCELLED;
+
+    await expect(completeJob('job-1', 'worker-a')).rejects.toBeInstanceOf(LeaseLostError);
+    expect(db.job?.status).toBe(JobStatus.CANCELLED);
+  });
+});
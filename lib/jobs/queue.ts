@@ -0,0 +1,399 @@
+import 'server-only';
+import { getCollection } from '@/lib/mongodb';
+import { AnalysisJob, AnalysisStatus, AnalysisStep, JobStatus } from '@/lib/types';
+
+/**
+ * Job Queue Configuration
+ */
+export const JOB_CONFIG = {
+  // How long a claimed job stays owned without a heartbeat
+  LEASE_DURATION_MS: 90 * 1000,
+
+  // How often a running job renews its lease
+  HEARTBEAT_INTERVAL_MS: 20 * 1000,
+
+  // Attempts before a job is marked as failed for good
+  MAX_ATTEMPTS: 3,
+
+  // Delay before a failed attempt is retried (doubles per attempt)
+  RETRY_DELAY_MS: 15 * 1000,
+
+  // Serverless runs (maxDuration 300s) stop claiming jobs after the claim budget,
+  // and the running job hands back control once the run budget is spent. The gap
+  // is longer than any single step, so a job claimed late still makes progress.
+  CLAIM_BUDGET_MS: 120 * 1000,
+  RUN_BUDGET_MS: 270 * 1000,
+
+  // How often the long-running worker loop looks for new work
+  POLL_INTERVAL_MS: 5 * 1000,
+};
+
+/**
+ * Error Types
+ */
+export class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lease lost for job ${jobId}`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+// The run a job was claimed in is about to end; the next one resumes it from its checkpoints
+export class JobDeadlineError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} ran out of time in this run`);
+    this.name = 'JobDeadlineError';
+  }
+}
+
+export class JobCancelledError extends LeaseLostError {
+  constructor(jobId: string) {
+    super(jobId);
+    this.message = `Job ${jobId} was cancelled`;
+    this.name = 'JobCancelledError';
+  }
+}
+
+let indexesReady: Promise<void> | null = null;
+
+async function getJobsCollection() {
+  const collection = await getCollection('jobs');
+
+  if (!indexesReady) {
+    indexesReady = (async () => {
+      await collection.createIndex({ id: 1 }, { unique: true });
+      await collection.createIndex({ podcast_id: 1 }, { unique: true });
+      await collection.createIndex({ status: 1, run_after: 1 });
+      await collection.createIndex({ status: 1, lease_expires_at: 1 });
+
+      const checkpoints = await getCollection('job_checkpoints');
+      await checkpoints.createIndex({ job_id: 1, step: 1 }, { unique: true });
+    })().catch((error) => {
+      indexesReady = null;
+      throw error;
+    });
+  }
+  await indexesReady;
+
+  return collection;
+}
+
+/**
+ * Queue an analysis job for a podcast (no-op if one already exists)
+ */
+export async function enqueueAnalysisJob(podcastId: string): Promise<void> {
+  const collection = await getJobsCollection();
+  const now = new Date();
+
+  await collection.updateOne(
+    { podcast_id: podcastId },
+    {
+      $setOnInsert: {
+        id: crypto.randomUUID(),
+        podcast_id: podcastId,
+        status: JobStatus.QUEUED,
+        attempts: 0,
+        max_attempts: JOB_CONFIG.MAX_ATTEMPTS,
+        completed_steps: [],
+        run_after: now,
+        created_at: now,
+        updated_at: now,
+      },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Make sure every pending podcast has a job, e.g. ones created before a crash
+ */
+export async function enqueuePendingPodcasts(): Promise<number> {
+  const podcasts = await getCollection('podcasts');
+  const pending = await podcasts
+    .find({ status: AnalysisStatus.PENDING }, { projection: { id: 1 } })
+    .limit(50)
+    .toArray();
+
+  for (const podcast of pending) {
+    await enqueueAnalysisJob(podcast.id);
+  }
+
+  return pending.length;
+}
+
+/**
+ * Claim the next runnable job. Running jobs whose lease expired are reclaimed.
+ */
+export async function claimNextJob(workerId: string): Promise<AnalysisJob | null> {
+  const collection = await getJobsCollection();
+  const now = new Date();
+
+  const job = await collection.findOneAndUpdate(
+    {
+      $or: [
+        { status: JobStatus.QUEUED, run_after: { $lte: now } },
+        { status: JobStatus.RUNNING, lease_expires_at: { $lt: now } },
+      ],
+      $expr: { $lt: ['$attempts', '$max_attempts'] },
+    },
+    {
+      $set: {
+        status: JobStatus.RUNNING,
+        lease_owner: workerId,
+        lease_expires_at: new Date(now.getTime() + JOB_CONFIG.LEASE_DURATION_MS),
+        heartbeat_at: now,
+        updated_at: now,
+      },
+      $inc: { attempts: 1 },
+    },
+    { sort: { run_after: 1 }, returnDocument: 'after', includeResultMetadata: false }
+  );
+
+  return job as AnalysisJob | null;
+}
+
+/**
+ * Extend the lease of a job. Throws if another worker has taken it over
+ * or the job was cancelled.
+ */
+export async function heartbeatJob(jobId: string, workerId: string): Promise<void> {
+  const collection = await getJobsCollection();
+  const now = new Date();
+
+  const result = await collection.updateOne(
+    { id: jobId, lease_owner: workerId, status: JobStatus.RUNNING },
+    {
+      $set: {
+        lease_expires_at: new Date(now.getTime() + JOB_CONFIG.LEASE_DURATION_MS),
+        heartbeat_at: now,
+        updated_at: now,
+      },
+    }
+  );
+
+  if (result.matchedCount === 0) {
+    const job = await collection.findOne({ id: jobId }, { projection: { status: 1 } });
+    if (job?.status === JobStatus.CANCELLED) {
+      throw new JobCancelledError(jobId);
+    }
+    throw new LeaseLostError(jobId);
+  }
+}
+
+/**
+ * Persist the output of a completed step so a later attempt can resume after it.
+ * Only the worker holding an unexpired lease writes, so a worker whose lease
+ * ran out can't overwrite the progress of the one that took over.
+ */
+export async function saveCheckpoint<T>(
+  jobId: string,
+  workerId: string,
+  step: AnalysisStep,
+  data: T
+): Promise<void> {
+  const collection = await getJobsCollection();
+  const owned = await collection.updateOne(
+    { id: jobId, lease_owner: workerId, lease_expires_at: { $gt: new Date() } },
+    { $set: { updated_at: new Date() } }
+  );
+
+  if (owned.matchedCount === 0) {
+    throw new LeaseLostError(jobId);
+  }
+
+  const checkpoints = await getCollection('job_checkpoints');
+  await checkpoints.updateOne(
+    { job_id: jobId, step },
+    { $set: { job_id: jobId, step, data, created_at: new Date() } },
+    { upsert: true }
+  );
+
+  const result = await collection.updateOne(
+    { id: jobId, lease_owner: workerId },
+    {
+      $addToSet: { completed_steps: step },
+      $set: { updated_at: new Date() },
+    }
+  );
+
+  if (result.matchedCount === 0) {
+    throw new LeaseLostError(jobId);
+  }
+}
+
+/**
+ * Load the outputs of all steps a job has already completed
+ */
+export async function loadCheckpoints(jobId: string): Promise<Partial<Record<AnalysisStep, unknown>>> {
+  const checkpoints = await getCollection('job_checkpoints');
+  const docs = await checkpoints.find({ job_id: jobId }).toArray();
+
+  return Object.fromEntries(docs.map((doc) => [doc.step, doc.data]));
+}
+
+/**
+ * Mark a job as done and drop its checkpoints
+ */
+export async function completeJob(jobId: string, workerId: string): Promise<void> {
+  const collection = await getJobsCollection();
+  const now = new Date();
+
+  const result = await collection.updateOne(
+    { id: jobId, lease_owner: workerId, status: JobStatus.RUNNING },
+    {
+      $set: { status: JobStatus.COMPLETED, completed_at: now, updated_at: now },
+      $unset: { lease_owner: '', lease_expires_at: '' },
+    }
+  );
+
+  // Whoever holds the job now owns its checkpoints too
+  if (result.matchedCount === 0) {
+    throw new LeaseLostError(jobId);
+  }
+
+  const checkpoints = await getCollection('job_checkpoints');
+  await checkpoints.deleteMany({ job_id: jobId });
+}
+
+/**
+ * Put a job that ran out of time back in the queue, to continue right away
+ * in the next run. The interrupted run still counts as an attempt.
+ */
+export async function yieldJob(jobId: string, workerId: string): Promise<void> {
+  const collection = await getJobsCollection();
+  const now = new Date();
+
+  await collection.updateOne(
+    { id: jobId, lease_owner: workerId, status: JobStatus.RUNNING },
+    {
+      $set: { status: JobStatus.QUEUED, run_after: now, updated_at: now },
+      $unset: { lease_owner: '', lease_expires_at: '' },
+    }
+  );
+}
+
+/**
+ * Stop a queued or running job. Returns false if there was nothing to cancel.
+ */
+export async function cancelAnalysisJob(podcastId: string): Promise<boolean> {
+  const collection = await getJobsCollection();
+  const now = new Date();
+
+  const result = await collection.updateOne(
+    { podcast_id: podcastId, status: { $in: [JobStatus.QUEUED, JobStatus.RUNNING] } },
+    {
+      $set: { status: JobStatus.CANCELLED, completed_at: now, updated_at: now },
+      $unset: { lease_owner: '', lease_expires_at: '' },
+    }
+  );
+
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Queue a finished job again with a fresh attempt budget. Checkpoints of the
+ * steps it already completed are kept, so the retry resumes after them.
+ */
+export async function requeueAnalysisJob(podcastId: string): Promise<void> {
+  const collection = await getJobsCollection();
+  const now = new Date();
+
+  await collection.updateOne(
+    { podcast_id: podcastId },
+    {
+      $set: {
+        status: JobStatus.QUEUED,
+        attempts: 0,
+        run_after: now,
+        updated_at: now,
+      },
+      $unset: { lease_owner: '', lease_expires_at: '', last_error: '', completed_at: '' },
+      $setOnInsert: {
+        id: crypto.randomUUID(),
+        podcast_id: podcastId,
+        max_attempts: JOB_CONFIG.MAX_ATTEMPTS,
+        completed_steps: [],
+        created_at: now,
+      },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * Record a failed attempt. Returns true if the job will be retried.
+ */
+export async function failJob(
+  job: AnalysisJob,
+  workerId: string,
+  errorMessage: string,
+  options?: { retryable?: boolean }
+): Promise<boolean> {
+  const collection = await getJobsCollection();
+  const now = new Date();
+  const willRetry = options?.retryable !== false && job.attempts < job.max_attempts;
+
+  if (willRetry) {
+    const delay = JOB_CONFIG.RETRY_DELAY_MS * Math.pow(2, job.attempts - 1);
+    await collection.updateOne(
+      { id: job.id, lease_owner: workerId },
+      {
+        $set: {
+          status: JobStatus.QUEUED,
+          run_after: new Date(now.getTime() + delay),
+          last_error: errorMessage,
+          updated_at: now,
+        },
+        $unset: { lease_owner: '', lease_expires_at: '' },
+      }
+    );
+  } else {
+    await collection.updateOne(
+      { id: job.id, lease_owner: workerId },
+      {
+        $set: {
+          status: JobStatus.FAILED,
+          last_error: errorMessage,
+          completed_at: now,
+          updated_at: now,
+        },
+        $unset: { lease_owner: '', lease_expires_at: '' },
+      }
+    );
+  }
+
+  return willRetry;
+}
+
+/**
+ * Fail jobs whose worker died on their last allowed attempt
+ */
+export async function failExhaustedJobs(): Promise<string[]> {
+  const collection = await getJobsCollection();
+  const now = new Date();
+
+  const exhausted = await collection
+    .find<AnalysisJob>({
+      status: JobStatus.RUNNING,
+      lease_expires_at: { $lt: now },
+      $expr: { $gte: ['$attempts', '$max_attempts'] },
+    })
+    .toArray();
+
+  for (const job of exhausted) {
+    await collection.updateOne(
+      { id: job.id, status: JobStatus.RUNNING },
+      {
+        $set: {
+          status: JobStatus.FAILED,
+          last_error: job.last_error || 'Worker stopped responding',
+          completed_at: now,
+          updated_at: now,
+        },
+        $unset: { lease_owner: '', lease_expires_at: '' },
+      }
+    );
+  }
+
+  return exhausted.map((job) => job.podcast_id);
+}
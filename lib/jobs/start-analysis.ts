@@ -0,0 +1,251 @@
+import 'server-only';
+import { basename } from 'path';
+import { waitUntil } from '@vercel/functions';
+import { getCollection } from '@/lib/mongodb';
+import { isPodcastVisibility } from '@/lib/auth';
+import { checkQuota } from '@/lib/usage';
+import { normalizeRepoPath } from '@/lib/github/config';
+import { getDefaultLlmProviderId, isLlmProviderId } from '@/lib/llm';
+import { getStyle } from '@/lib/styles/registry';
+import { AnalysisStatus, NarrativeStyle, Podcast, PodcastSource, RepoAnalyzeRequest, User } from '@/lib/types';
+import { RepositorySourceError, parseRepositoryUrl } from '@/lib/sources';
+import { resolveLocalSourcePath } from '@/lib/sources/local';
+import { archiveBaseName, type SourceArchive } from '@/lib/sources/upload';
+import { JOB_CONFIG, enqueueAnalysisJob } from './queue';
+import { runWorker } from './worker';
+
+// Investigations one user can have queued or running at once, unless MAX_CONCURRENT_ANALYSES says otherwise
+const DEFAULT_MAX_CONCURRENT_ANALYSES = 3;
+
+const IN_FLIGHT_STATUSES = [
+  AnalysisStatus.PENDING,
+  AnalysisStatus.ANALYZING,
+  AnalysisStatus.GENERATING_SCRIPT,
+  AnalysisStatus.RETRYING,
+];
+
+/**
+ * Error Types
+ */
+export class AnalysisRequestError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'AnalysisRequestError';
+  }
+}
+
+function getMaxConcurrentAnalyses(): number {
+  const limit = Number(process.env.MAX_CONCURRENT_ANALYSES);
+  return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_MAX_CONCURRENT_ANALYSES;
+}
+
+/**
+ * Throws AnalysisRequestError (429) when the user already has as many
+ * investigations queued or running as they may
+ */
+export async function assertAnalysisSlot(userId: string): Promise<void> {
+  const collection = await getCollection('podcasts');
+  const limit = getMaxConcurrentAnalyses();
+  const inFlight = await collection.countDocuments(
+    { owner_id: userId, status: { $in: IN_FLIGHT_STATUSES } },
+    { limit }
+  );
+
+  if (inFlight >= limit) {
+    throw new AnalysisRequestError(
+      `You already have ${inFlight} investigations underway. Wait for one to finish or cancel it.`,
+      429
+    );
+  }
+}
+
+// What a case investigates, before the request's own ref and path
+interface AnalysisTarget {
+  repo_url: string;
+  // "owner/repo" (a GitLab owner can be "group/subgroup"), "local/<directory>" or "upload/<archive name>"
+  repo_name: string;
+  // Unset for github.com
+  source?: PodcastSource;
+  ref?: string;
+  path?: string;
+}
+
+async function resolveTarget(request: RepoAnalyzeRequest, upload?: SourceArchive): Promise<AnalysisTarget> {
+  if (upload) {
+    return {
+      repo_url: `upload:${upload.file_name}`,
+      repo_name: `upload/${archiveBaseName(upload.file_name)}`,
+      source: { kind: 'upload', archive_id: upload.id, file_name: upload.file_name },
+    };
+  }
+
+  if (request.local_path !== undefined) {
+    if (typeof request.local_path !== 'string') {
+      throw new AnalysisRequestError('local_path must be an absolute directory path');
+    }
+    try {
+      const directory = await resolveLocalSourcePath(request.local_path);
+      return {
+        repo_url: `file://${directory}`,
+        repo_name: `local/${basename(directory)}`,
+        source: { kind: 'local', local_path: directory },
+      };
+    } catch (error) {
+      throw error instanceof RepositorySourceError ? new AnalysisRequestError(error.message, error.status) : error;
+    }
+  }
+
+  if (!request.repo_url) {
+    throw new AnalysisRequestError('repo_url is required');
+  }
+
+  // Parse the repository URL (optionally pinned and scoped with /tree/<ref>/<path> or the host's equivalent)
+  const parsed = parseRepositoryUrl(request.repo_url);
+  if (!parsed) {
+    throw new AnalysisRequestError('Invalid repository URL. Use a GitHub, GitLab or Bitbucket URL.');
+  }
+
+  return {
+    repo_url: request.repo_url,
+    repo_name: `${parsed.owner}/${parsed.repo}`,
+    ...(parsed.host !== 'github' && parsed.baseUrl && { source: { kind: parsed.host, base_url: parsed.baseUrl } }),
+    ref: parsed.branch,
+    path: parsed.path,
+  };
+}
+
+export interface StartedAnalysis {
+  id: string;
+  status: AnalysisStatus;
+  // Joined an identical investigation that was already underway
+  deduplicated: boolean;
+}
+
+/**
+ * Open a case for the user and queue its investigation: of a GitHub, GitLab
+ * or Bitbucket repository, a directory on the server (local_path) or an
+ * uploaded archive.
+ * Throws AnalysisRequestError for requests that can't be started.
+ */
+export async function startAnalysis(
+  user: User,
+  request: RepoAnalyzeRequest,
+  upload?: SourceArchive
+): Promise<StartedAnalysis> {
+  const { narrative_style = NarrativeStyle.TRUE_CRIME, force = false } = request;
+  const target = await resolveTarget(request, upload);
+  const { repo_url, repo_name } = target;
+  const repo = repo_name.split('/').pop();
+  // Directories and uploads are snapshots already: no refs, and nobody else's business
+  const fromFiles = target.source?.kind === 'local' || target.source?.kind === 'upload';
+
+  // Built-in style or the id of a custom style from /api/styles
+  if (typeof narrative_style !== 'string' || !(await getStyle(narrative_style))) {
+    throw new AnalysisRequestError(`Unknown narrative_style: ${narrative_style}`);
+  }
+
+  // An explicit ref in the request wins over one in the URL
+  if (request.ref !== undefined && (typeof request.ref !== 'string' || !request.ref.trim())) {
+    throw new AnalysisRequestError('ref must be a non-empty branch, tag or commit SHA');
+  }
+  if (request.ref !== undefined && fromFiles) {
+    throw new AnalysisRequestError('ref only applies to GitHub, GitLab and Bitbucket repositories');
+  }
+  const ref: string | undefined = request.ref?.trim() || target.ref;
+
+  // Same for the directory to focus on, e.g. packages/ui in a monorepo
+  if (request.path !== undefined && typeof request.path !== 'string') {
+    throw new AnalysisRequestError('path must be a directory inside the repository');
+  }
+  const path: string | undefined = normalizeRepoPath(request.path || '') || target.path;
+  if (path && path.split('/').includes('..')) {
+    throw new AnalysisRequestError('path must be a directory inside the repository');
+  }
+
+  // LLM that writes the episode, e.g. "offline" for CI runs without API keys
+  if (request.llm_provider !== undefined && !isLlmProviderId(request.llm_provider)) {
+    throw new AnalysisRequestError(`Unknown llm_provider: ${request.llm_provider}`);
+  }
+  const llmProvider = request.llm_provider ?? getDefaultLlmProviderId();
+
+  // Who can see the case; private repositories never make public ones
+  if (request.visibility !== undefined && !isPodcastVisibility(request.visibility)) {
+    throw new AnalysisRequestError('visibility must be one of public, unlisted, private');
+  }
+
+  const collection = await getCollection('podcasts');
+
+  // Join an identical investigation of yours that is already underway instead of starting another.
+  // force bypasses this and the analysis cache; every upload is a case of its own.
+  if (!force && !upload) {
+    const inFlight = await collection.findOne<Podcast>(
+      {
+        owner_id: user.id,
+        repo_name,
+        source: target.source ?? null,
+        ref: ref ?? null,
+        path: path ?? null,
+        narrative_style,
+        llm_provider: llmProvider,
+        status: { $in: IN_FLIGHT_STATUSES },
+      },
+      { sort: { created_at: -1 }, projection: { id: 1, status: 1 } }
+    );
+
+    if (inFlight) {
+      console.log(`[Analyze] Joining in-flight analysis of ${repo_name} (ID: ${inFlight.id})`);
+      return { id: inFlight.id, status: inFlight.status, deduplicated: true };
+    }
+  }
+
+  // Nor does anyone get to queue a pile of repository crawls at once
+  await assertAnalysisSlot(user.id);
+
+  // Nothing new starts once the user's token quota is spent
+  const quota = await checkQuota(user.id, 'llm_tokens');
+  if (!quota.allowed) {
+    throw new AnalysisRequestError(quota.message || 'Quota exceeded', 429);
+  }
+
+  // Create initial podcast document
+  const podcast: Podcast = {
+    id: crypto.randomUUID(),
+    repo_url,
+    repo_name,
+    ...(target.source && { source: target.source }),
+    ...(ref && { ref }),
+    ...(path && { path }),
+    title: path ? `The Case of ${repo}/${path}` : `The Case of ${repo}`,
+    narrative_style,
+    llm_provider: llmProvider,
+    owner_id: user.id,
+    // Code from the server or an upload is never public
+    ...(fromFiles && { is_private: true }),
+    visibility: request.visibility ?? (fromFiles ? 'private' : 'public'),
+    status: AnalysisStatus.PENDING,
+    progress: 0,
+    progress_message: 'Starting analysis...',
+    patterns_found: [],
+    duration: 0,
+    created_at: new Date(),
+    ...(force && { force_refresh: true }),
+  };
+
+  // Save to database
+  await collection.insertOne(podcast);
+
+  // Queue the investigation - the job survives function recycles and crashes
+  await enqueueAnalysisJob(podcast.id);
+  console.log(`[Analyze] Queued analysis for ${repo_name}${path ? `/${path}` : ''}${ref ? `@${ref}` : ''} (ID: ${podcast.id})`);
+
+  // Drain the queue while this function is still alive. Anything left over
+  // is resumed from its last checkpoint by the next worker run.
+  const start = Date.now();
+  waitUntil(
+    runWorker({ deadline: start + JOB_CONFIG.CLAIM_BUDGET_MS, jobDeadline: start + JOB_CONFIG.RUN_BUDGET_MS })
+      .then((processed) => console.log(`[Analyze] Worker processed ${processed} job(s)`))
+      .catch((err) => console.error(`[Analyze] ❌ Worker run failed:`, err))
+  );
+
+  return { id: podcast.id, status: podcast.status, deduplicated: false };
+}
@@ -0,0 +1,213 @@
+import 'server-only';
+import { getCollection } from '@/lib/mongodb';
+import {
+  PathNotFoundError,
+  RefNotFoundError,
+  RepositoryAccessDeniedError,
+  RepositoryNotFoundError,
+} from '@/lib/github/config';
+import { RepositorySourceError } from '@/lib/sources';
+import { purgeStaleArchives } from '@/lib/sources/upload';
+import { StyleNotFoundError } from '@/lib/styles/registry';
+import { AnalysisJob, AnalysisStatus } from '@/lib/types';
+import { runAnalysisPipeline } from './analysis-pipeline';
+import {
+  JOB_CONFIG,
+  JobCancelledError,
+  JobDeadlineError,
+  LeaseLostError,
+  claimNextJob,
+  completeJob,
+  enqueuePendingPodcasts,
+  failExhaustedJobs,
+  failJob,
+  heartbeatJob,
+  yieldJob,
+} from './queue';
+
+const workerId = `worker-${crypto.randomUUID()}`;
+
+// Abort controllers of the jobs running in this process, keyed by podcast id
+const activeJobs = new Map<string, AbortController>();
+
+/**
+ * Abort the in-flight GitHub and Gemini calls of a job running in this
+ * process. Jobs running elsewhere notice the cancellation on their next heartbeat.
+ */
+export function abortActiveJob(podcastId: string): boolean {
+  const controller = activeJobs.get(podcastId);
+  if (!controller) {
+    return false;
+  }
+
+  controller.abort(new DOMException('Investigation cancelled', 'AbortError'));
+  return true;
+}
+
+/**
+ * Process queued jobs until the queue is empty or the deadline is near.
+ * Returns the number of jobs that were processed.
+ */
+export async function runWorker(options?: {
+  // Epoch ms after which no new job is claimed
+  deadline?: number;
+  // Epoch ms by which a running job hands back control; its next run resumes from the checkpoints
+  jobDeadline?: number;
+  maxJobs?: number;
+}): Promise<number> {
+  const maxJobs = options?.maxJobs ?? Infinity;
+  let processed = 0;
+
+  await enqueuePendingPodcasts();
+  await markExhaustedPodcastsFailed();
+  await purgeStaleArchives().catch((error) => console.error('[Worker] Failed to purge stale archives:', error));
+
+  while (processed < maxJobs) {
+    if (options?.deadline && Date.now() > options.deadline) {
+      console.log('[Worker] Deadline reached, leaving remaining jobs for the next run');
+      break;
+    }
+
+    const job = await claimNextJob(workerId);
+    if (!job) {
+      break;
+    }
+
+    await processJob(job, options?.jobDeadline);
+    processed++;
+  }
+
+  return processed;
+}
+
+async function processJob(job: AnalysisJob, deadline?: number): Promise<void> {
+  console.log(`[Worker] ${workerId} claimed job ${job.id} for podcast ${job.podcast_id}`);
+
+  const controller = new AbortController();
+  activeJobs.set(job.podcast_id, controller);
+
+  let leaseLost = false;
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job.id, workerId).catch((error) => {
+      if (error instanceof JobCancelledError) {
+        controller.abort(new DOMException('Investigation cancelled', 'AbortError'));
+      } else if (error instanceof LeaseLostError) {
+        leaseLost = true;
+      }
+      console.error(`[Worker] Heartbeat failed for job ${job.id}:`, error);
+    });
+  }, JOB_CONFIG.HEARTBEAT_INTERVAL_MS);
+
+  try {
+    await runAnalysisPipeline({
+      job,
+      workerId,
+      signal: controller.signal,
+      assertLease: () => {
+        if (leaseLost) {
+          throw new LeaseLostError(job.id);
+        }
+      },
+      deadline,
+    });
+    await completeJob(job.id, workerId);
+    console.log(`[Worker] ✅ Completed job ${job.id}`);
+  } catch (error: unknown) {
+    if (error instanceof JobDeadlineError) {
+      // Stops whatever the timed-out step still had in flight
+      controller.abort(error);
+      await yieldJob(job.id, workerId);
+      console.log(`[Worker] ⏸️ Job ${job.id} ran out of time, requeued to resume in the next run`);
+      return;
+    }
+
+    if (controller.signal.aborted) {
+      console.log(`[Worker] 🛑 Job ${job.id} was cancelled`);
+      return;
+    }
+
+    if (error instanceof LeaseLostError) {
+      console.warn(`[Worker] Abandoning job ${job.id}: ${error.message}`);
+      return;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+    console.error(`[Worker] ❌ Job ${job.id} failed:`, error);
+
+    const retryable = !(
+      error instanceof RepositoryNotFoundError ||
+      error instanceof RepositoryAccessDeniedError ||
+      error instanceof RefNotFoundError ||
+      error instanceof PathNotFoundError ||
+      error instanceof RepositorySourceError ||
+      error instanceof StyleNotFoundError
+    );
+    const willRetry = await failJob(job, workerId, errorMessage, { retryable });
+    const collection = await getCollection('podcasts');
+
+    if (willRetry) {
+      await collection.updateOne(
+        { id: job.podcast_id },
+        {
+          $set: {
+            progress_message: `⚠️ Setback in the investigation, retrying (attempt ${job.attempts + 1} of ${job.max_attempts})...`,
+          },
+        }
+      );
+    } else {
+      await markPodcastFailed(job.podcast_id, errorMessage);
+    }
+  } finally {
+    clearInterval(heartbeat);
+    activeJobs.delete(job.podcast_id);
+  }
+}
+
+async function markPodcastFailed(podcastId: string, errorMessage: string): Promise<void> {
+  const collection = await getCollection('podcasts');
+  await collection.updateOne(
+    { id: podcastId, status: { $ne: AnalysisStatus.CANCELLED } },
+    {
+      $set: {
+        status: AnalysisStatus.FAILED,
+        error_message: errorMessage,
+        progress_message: `❌ Investigation failed: ${errorMessage.substring(0, 100)}`,
+      },
+    }
+  );
+}
+
+async function markExhaustedPodcastsFailed(): Promise<void> {
+  const podcastIds = await failExhaustedJobs();
+  for (const podcastId of podcastIds) {
+    await markPodcastFailed(podcastId, 'The investigation was interrupted too many times');
+  }
+}
+
+declare global {
+  var _jobWorkerLoop: NodeJS.Timeout | undefined;
+}
+
+/**
+ * Poll the queue forever. Meant for long-running servers; serverless
+ * deployments drain the queue with runWorker() instead.
+ */
+export function startWorkerLoop(): void {
+  if (global._jobWorkerLoop) {
+    return;
+  }
+
+  let running = false;
+  global._jobWorkerLoop = setInterval(() => {
+    if (running) return;
+    running = true;
+
+    runWorker()
+      .catch((error) => console.error('[Worker] Loop iteration failed:', error))
+      .finally(() => {
+        running = false;
+      });
+  }, JOB_CONFIG.POLL_INTERVAL_MS);
+
+  console.log(`[Worker] ${workerId} polling for jobs every ${JOB_CONFIG.POLL_INTERVAL_MS}ms`);
+}
@@ -0,0 +1,105 @@
+import 'server-only';
+import { GoogleGenerativeAI, type GenerativeModel, type UsageMetadata } from '@google/generative-ai';
+import { parseJsonResponse, type LlmCallOptions, type LlmProvider, type LlmUsage } from './provider';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+const TIMEOUT_MS = 90000;
+
+// Prompt budgets well under the context windows, to keep latency and cost predictable
+const PROMPT_TOKEN_BUDGETS: Record<string, number> = {
+  'gemini-2.5-flash': 32000,
+  'gemini-2.5-pro': 64000,
+};
+const DEFAULT_PROMPT_TOKEN_BUDGET = 16000;
+
+/**
+ * Google Gemini. The model can be changed with GEMINI_MODEL.
+ */
+export class GeminiProvider implements LlmProvider {
+  readonly id = 'gemini' as const;
+  readonly model: string;
+  readonly promptTokenBudget: number;
+  private genAI: GoogleGenerativeAI;
+
+  constructor(apiKey = process.env.GEMINI_API_KEY, model = process.env.GEMINI_MODEL || DEFAULT_MODEL) {
+    this.genAI = new GoogleGenerativeAI(apiKey || '');
+    this.model = model;
+    this.promptTokenBudget = PROMPT_TOKEN_BUDGETS[model] ?? DEFAULT_PROMPT_TOKEN_BUDGET;
+  }
+
+  async generateText(prompt: string, options?: LlmCallOptions): Promise<string> {
+    return this.generate(this.getModel(false), prompt, options);
+  }
+
+  async generateJson(prompt: string, options?: LlmCallOptions): Promise<unknown> {
+    // JSON mode: the response is the object and nothing else
+    return parseJsonResponse(await this.generate(this.getModel(true), prompt, options));
+  }
+
+  async *stream(prompt: string, options?: LlmCallOptions): AsyncIterable<string> {
+    this.assertConfigured();
+    const result = await this.getModel(false).generateContentStream(prompt, { signal: options?.signal });
+    for await (const chunk of result.stream) {
+      const text = chunk.text();
+      if (text) {
+        yield text;
+      }
+    }
+    const { usageMetadata } = await result.response;
+    options?.onUsage?.(toUsage(usageMetadata));
+  }
+
+  private getModel(json: boolean): GenerativeModel {
+    return this.genAI.getGenerativeModel({
+      model: this.model,
+      ...(json && { generationConfig: { responseMimeType: 'application/json' } }),
+    });
+  }
+
+  private assertConfigured(): void {
+    if (!process.env.GEMINI_API_KEY) {
+      console.error('[Gemini] ❌ GEMINI_API_KEY is missing!');
+      throw new Error('GEMINI_API_KEY is not configured');
+    }
+  }
+
+  private async generate(model: GenerativeModel, prompt: string, options?: LlmCallOptions): Promise<string> {
+    this.assertConfigured();
+    const signal = options?.signal;
+
+    let result;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      result = await Promise.race([
+        model.generateContent(prompt, { signal }),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Gemini API timeout after ${TIMEOUT_MS / 1000} seconds`)), TIMEOUT_MS);
+        }),
+      ]);
+    } catch (apiError: unknown) {
+      if (signal?.aborted) {
+        throw apiError;
+      }
+      const message = apiError instanceof Error ? apiError.message : 'Unknown error';
+      console.error('[Gemini] ❌ API call failed:', message);
+      throw new Error(`Gemini API error: ${message}`);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    options?.onUsage?.(toUsage(result.response.usageMetadata));
+
+    const text = result.response.text();
+    if (!text) {
+      throw new Error('Gemini returned an empty response');
+    }
+    return text;
+  }
+}
+
+function toUsage(metadata?: UsageMetadata): LlmUsage {
+  return {
+    input_tokens: metadata?.promptTokenCount ?? 0,
+    output_tokens: metadata?.candidatesTokenCount ?? 0,
+  };
+}
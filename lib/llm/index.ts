@@ -0,0 +1,35 @@
+import 'server-only';
+import type { LlmProviderId } from '@/lib/types';
+import { GeminiProvider } from './gemini';
+import { OfflineProvider } from './offline';
+import type { LlmProvider } from './provider';
+
+export { LlmJsonError, type LlmCallOptions, type LlmProvider, type LlmTask, type LlmUsage } from './provider';
+
+export const LLM_PROVIDER_IDS: readonly LlmProviderId[] = ['gemini', 'offline'];
+
+export function isLlmProviderId(value: unknown): value is LlmProviderId {
+  return typeof value === 'string' && (LLM_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Provider used when a request doesn't pick one: LLM_PROVIDER, or Gemini
+ */
+export function getDefaultLlmProviderId(): LlmProviderId {
+  const configured = process.env.LLM_PROVIDER;
+  if (configured && !isLlmProviderId(configured)) {
+    console.warn(`[LLM] Unknown LLM_PROVIDER "${configured}", using gemini`);
+  }
+  return isLlmProviderId(configured) ? configured : 'gemini';
+}
+
+const providers = new Map<LlmProviderId, LlmProvider>();
+
+export function getLlmProvider(id: LlmProviderId = getDefaultLlmProviderId()): LlmProvider {
+  let provider = providers.get(id);
+  if (!provider) {
+    provider = id === 'offline' ? new OfflineProvider() : new GeminiProvider();
+    providers.set(id, provider);
+  }
+  return provider;
+}
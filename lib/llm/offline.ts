@@ -0,0 +1,95 @@
+import 'server-only';
+import { renderFallbackSegments, renderTemplate } from '@/lib/styles/registry';
+import type { PodcastScript, ScriptSegment } from '@/lib/types';
+import type { LlmCallOptions, LlmProvider, LlmTask } from './provider';
+
+/**
+ * Deterministic provider that needs no API key or network: it ignores the
+ * prompt and writes from the repository facts of the task. Meant for CI and
+ * air-gapped machines, so the same input always gives the same episode.
+ */
+export class OfflineProvider implements LlmProvider {
+  readonly id = 'offline' as const;
+  readonly model = 'template';
+  // Prompts are ignored, but the budget still decides which chunks are recorded as provenance
+  readonly promptTokenBudget = 8000;
+
+  async generateText(prompt: string, options?: LlmCallOptions): Promise<string> {
+    options?.signal?.throwIfAborted();
+    const task = options?.task;
+
+    switch (task?.kind) {
+      case 'script':
+        return JSON.stringify(buildScript(task));
+      case 'autopsy':
+        return buildAutopsy(task);
+      case 'chat':
+        return buildChatReply(task);
+      case 'rewrite':
+        // Without a model there is nothing to rewrite with: the segments come back as they were
+        return JSON.stringify({ segments: task.segments });
+      default:
+        throw new Error('The offline provider can only answer script, autopsy, chat and rewrite tasks');
+    }
+  }
+
+  async generateJson(prompt: string, options?: LlmCallOptions): Promise<unknown> {
+    return JSON.parse(await this.generateText(prompt, options));
+  }
+
+  async *stream(prompt: string, options?: LlmCallOptions): AsyncIterable<string> {
+    const text = await this.generateText(prompt, options);
+    for (const word of text.split(/(?<=\s)/)) {
+      yield word;
+    }
+  }
+}
+
+function buildScript(task: Extract<LlmTask, { kind: 'script' }>): PodcastScript {
+  const { style, vars, patterns, evidence: chunks } = task;
+  const [opening, ...rest] = renderFallbackSegments(style, vars);
+
+  // One line of evidence per detected pattern, then per top code excerpt, passed around the cast
+  const exhibits: Omit<ScriptSegment, 'speaker'>[] = [
+    ...patterns.slice(0, 3).map((pattern) => ({ text: `${pattern}.` })),
+    ...chunks.slice(0, 3).map((chunk) => ({
+      text: `${chunk.name ? `${chunk.name}, a ${chunk.type}` : `A ${chunk.type}`} in ${chunk.path}.`,
+      code_reference: { path: chunk.path, start_line: chunk.start_line, end_line: chunk.end_line },
+    })),
+  ];
+  const evidence = exhibits.map((exhibit, i) => ({
+    ...exhibit,
+    speaker: style.speakers[i % style.speakers.length].role,
+    text: `Exhibit ${i + 1}: ${exhibit.text}`,
+  }));
+
+  return {
+    title: `${style.name}: ${vars['repo.fullName']}`,
+    narrator_voice: style.narrator_voice,
+    dramatic_arc: renderTemplate(style.arc_template, vars),
+    segments: [opening, ...evidence, ...rest].filter(Boolean),
+    total_duration: 0,
+  };
+}
+
+function buildAutopsy(task: Extract<LlmTask, { kind: 'autopsy' }>): string {
+  const { repo, patterns, files, path } = task;
+  const subject = path ? `The ${path} package of ${repo.fullName}` : repo.fullName;
+
+  return [
+    `${subject} is a ${repo.language || 'multi-language'} project${repo.description ? `: ${repo.description}` : '.'}`,
+    patterns.length > 0 ? `It shows ${patterns.join(', ')}.` : '',
+    files.length > 0 ? `Key files include ${files.slice(0, 5).join(', ')}.` : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
+
+function buildChatReply(task: Extract<LlmTask, { kind: 'chat' }>): string {
+  const { podcast } = task;
+  const patterns = podcast.patterns_found?.length ? podcast.patterns_found.join(', ') : 'nothing out of the ordinary';
+
+  return `Running without a model, so all I have is the case file on ${podcast.repo_name}. Patterns on record: ${patterns}.${
+    podcast.analysis_summary?.autopsy_report ? ` ${podcast.analysis_summary.autopsy_report}` : ''
+  }`;
+}
@@ -0,0 +1,60 @@
+import 'server-only';
+import type { GitHubRepo } from '@/lib/github/client';
+import type { StyleTemplateVars } from '@/lib/styles/registry';
+import type { LlmProviderId, Podcast, PromptChunk, ScriptSegment, StyleDefinition } from '@/lib/types';
+
+/**
+ * What a prompt is for. Providers that can't read prompts (the offline one)
+ * answer from these facts instead.
+ */
+export type LlmTask =
+  | { kind: 'script'; style: StyleDefinition; vars: StyleTemplateVars; patterns: string[]; evidence: PromptChunk[] }
+  | { kind: 'autopsy'; repo: GitHubRepo; patterns: string[]; files: string[]; path?: string }
+  | { kind: 'chat'; podcast: Podcast; message: string }
+  | { kind: 'rewrite'; segments: ScriptSegment[]; guidance?: string };
+
+// Tokens billed for one call
+export interface LlmUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface LlmCallOptions {
+  signal?: AbortSignal;
+  task?: LlmTask;
+  // Called once the call is done, by providers that bill for tokens
+  onUsage?: (usage: LlmUsage) => void;
+}
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly model: string;
+  // Tokens a prompt may use, instructions included
+  readonly promptTokenBudget: number;
+  generateText(prompt: string, options?: LlmCallOptions): Promise<string>;
+  // Parsed JSON response. Throws LlmJsonError (carrying the raw text) if it isn't JSON.
+  generateJson(prompt: string, options?: LlmCallOptions): Promise<unknown>;
+  stream(prompt: string, options?: LlmCallOptions): AsyncIterable<string>;
+}
+
+/**
+ * Error Types
+ */
+export class LlmJsonError extends Error {
+  constructor(message: string, public readonly text: string) {
+    super(message);
+    this.name = 'LlmJsonError';
+  }
+}
+
+/**
+ * Parse a JSON response, tolerating a markdown code fence around it
+ */
+export function parseJsonResponse(text: string): unknown {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    throw new LlmJsonError(`invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`, text);
+  }
+}
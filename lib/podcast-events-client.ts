@@ -0,0 +1,61 @@
+import { AnalysisProgressEvent, AudioProgressEvent, AudioSegmentEvent } from './types';
+
+export interface PodcastEventHandlers {
+  onProgress?: (event: AnalysisProgressEvent) => void;
+  onAudio?: (event: AudioProgressEvent) => void;
+  onSegment?: (event: AudioSegmentEvent) => void;
+}
+
+/**
+ * Subscribe to /api/podcasts/[id]/events. When the browser or the server
+ * can't stream (no EventSource, no change streams, connection refused),
+ * `startPolling` is called instead and its cleanup is used from then on.
+ *
+ * Returns a function that stops the subscription.
+ */
+export function subscribeToPodcastEvents(
+  podcastId: string,
+  handlers: PodcastEventHandlers,
+  startPolling: () => () => void
+): () => void {
+  if (typeof window === 'undefined' || typeof EventSource === 'undefined') {
+    return startPolling();
+  }
+
+  const source = new EventSource(`/api/podcasts/${podcastId}/events`);
+  let stopPolling: (() => void) | null = null;
+  let received = false;
+
+  const fallBack = () => {
+    source.close();
+    if (!stopPolling) {
+      console.warn('[Events] Live updates unavailable, falling back to polling');
+      stopPolling = startPolling();
+    }
+  };
+
+  const listen = <T>(event: string, handler?: (data: T) => void) => {
+    source.addEventListener(event, (message) => {
+      received = true;
+      handler?.(JSON.parse((message as MessageEvent<string>).data));
+    });
+  };
+
+  listen('progress', handlers.onProgress);
+  listen('audio', handlers.onAudio);
+  listen('segment', handlers.onSegment);
+  source.addEventListener('unavailable', fallBack);
+
+  source.onerror = () => {
+    // EventSource retries dropped connections by itself; only give up when
+    // the stream never worked or the browser stopped retrying.
+    if (!received || source.readyState === EventSource.CLOSED) {
+      fallBack();
+    }
+  };
+
+  return () => {
+    source.close();
+    stopPolling?.();
+  };
+}
@@ -0,0 +1,164 @@
+import 'server-only';
+import type { ChangeStream, Document } from 'mongodb';
+import { getCollection } from './mongodb';
+import { AnalysisProgressEvent, AudioProgressEvent, AudioSegmentEvent } from './types';
+
+const KEEP_ALIVE_INTERVAL_MS = 15 * 1000;
+
+/**
+ * Analysis progress as reported by the status endpoint and the event stream
+ */
+export function toAnalysisProgress(podcast: Document): AnalysisProgressEvent {
+  return {
+    id: podcast.id,
+    status: podcast.status,
+    progress: podcast.progress,
+    message: podcast.progress_message,
+  };
+}
+
+/**
+ * Audio generation progress as reported by the audio-status endpoint and the event stream
+ */
+export function toAudioProgress(podcast: Document): AudioProgressEvent {
+  return {
+    status: podcast.audio_status || 'pending',
+    progress: podcast.audio_progress || 0,
+    message: podcast.audio_message || 'Waiting to start...',
+    currentSegment: podcast.audio_current_segment,
+    totalSegments: podcast.audio_total_segments,
+    audioUrl: podcast.audio_url,
+  };
+}
+
+/**
+ * Stream a podcast's progress as Server-Sent Events, backed by a MongoDB
+ * change stream. Emits:
+ *  - `progress`: analysis status, progress and message
+ *  - `audio`: audio generation status
+ *  - `segment`: each time a new audio segment starts recording
+ *  - `unavailable`: change streams are not supported (e.g. standalone server);
+ *    the stream closes and clients should fall back to polling
+ *
+ * Returns null if the podcast does not exist.
+ */
+export async function streamPodcastEvents(
+  podcastId: string,
+  signal: AbortSignal
+): Promise<ReadableStream<Uint8Array> | null> {
+  const collection = await getCollection('podcasts');
+  const podcast = await collection.findOne({ id: podcastId }, { projection: { audio_data: 0 } });
+
+  if (!podcast) {
+    return null;
+  }
+
+  const encoder = new TextEncoder();
+  let changeStream: ChangeStream | null = null;
+  let keepAlive: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  const cleanup = () => {
+    closed = true;
+    if (keepAlive) clearInterval(keepAlive);
+    changeStream?.close().catch(() => {});
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const send = (event: string, data: unknown) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      const close = () => {
+        if (closed) return;
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      // Only emit what actually changed since the last document
+      let lastProgress = '';
+      let lastAudio = '';
+      let lastSegment: number | undefined;
+
+      const push = (doc: Document) => {
+        const progress = toAnalysisProgress(doc);
+        const serializedProgress = JSON.stringify(progress);
+        if (serializedProgress !== lastProgress) {
+          lastProgress = serializedProgress;
+          send('progress', progress);
+        }
+
+        const audio = toAudioProgress(doc);
+        const serializedAudio = JSON.stringify(audio);
+        if (serializedAudio !== lastAudio) {
+          lastAudio = serializedAudio;
+          send('audio', audio);
+        }
+
+        if (audio.currentSegment !== undefined && audio.currentSegment !== lastSegment) {
+          lastSegment = audio.currentSegment;
+          const segment: AudioSegmentEvent = {
+            index: audio.currentSegment,
+            total: audio.totalSegments || 0,
+            message: audio.message,
+          };
+          send('segment', segment);
+        }
+      };
+
+      const fallBack = (error: unknown) => {
+        console.warn(`[Events] Change stream unavailable for ${podcastId}:`, error);
+        send('unavailable', { message: 'Live updates are not available, poll the status endpoints instead' });
+        close();
+      };
+
+      push(podcast);
+
+      try {
+        changeStream = collection.watch(
+          [
+            {
+              $match: {
+                operationType: { $in: ['update', 'replace'] },
+                'fullDocument.id': podcastId,
+              },
+            },
+            // Audio is stored inline as base64, never ship it through the stream
+            { $project: { 'fullDocument.audio_data': 0 } },
+          ],
+          { fullDocument: 'updateLookup' }
+        );
+
+        changeStream.on('change', (change) => {
+          if ('fullDocument' in change && change.fullDocument) {
+            push(change.fullDocument);
+          }
+        });
+        changeStream.on('error', fallBack);
+      } catch (error) {
+        fallBack(error);
+        return;
+      }
+
+      keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_MS);
+      signal.addEventListener('abort', close);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+}
@@ -0,0 +1,85 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { rateLimit } from './rate-limit';
+
+// Mongo is unreachable, so buckets are counted in memory with the same math
+vi.mock('@/lib/mongodb', () => ({
+  getCollection: () => Promise.reject(new Error('no database in tests')),
+}));
+
+const request = (headers: Record<string, string> = {}) => new NextRequest('http://localhost/api/analyze', { headers });
+
+describe('rateLimit', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('allows a full bucket back to back, then refuses until a token is back', async () => {
+    // audio: 3 requests, one more every 5 minutes
+    const subject = { userId: 'burst', request: request() };
+    const results = [];
+    for (let i = 0; i < 4; i++) {
+      results.push(await rateLimit('audio', subject));
+    }
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true, false]);
+    expect(results[2].remaining).toBe(0);
+    expect(results[3].retryAfter).toBe(300);
+
+    vi.advanceTimersByTime(150_000);
+    expect(await rateLimit('audio', subject)).toMatchObject({ allowed: false, retryAfter: 150 });
+
+    vi.advanceTimersByTime(150_000);
+    expect(await rateLimit('audio', subject)).toMatchObject({ allowed: true, remaining: 0, retryAfter: 0 });
+  });
+
+  it('never refills past the capacity', async () => {
+    const subject = { userId: 'idle', request: request() };
+    await rateLimit('chat', subject);
+
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+    expect(await rateLimit('chat', subject)).toMatchObject({ allowed: true, remaining: 9 });
+  });
+
+  it('keeps separate buckets per route and per caller', async () => {
+    const subject = { userId: 'separate', request: request() };
+    for (let i = 0; i < 3; i++) {
+      await rateLimit('audio', subject);
+    }
+
+    expect((await rateLimit('audio', subject)).allowed).toBe(false);
+    expect((await rateLimit('chat', subject)).allowed).toBe(true);
+    expect((await rateLimit('audio', { userId: 'someone-else', request: request() })).allowed).toBe(true);
+  });
+
+  it('keeps buckets that are still refilling when full ones are swept out', async () => {
+    const limited = { userId: 'still-limited', request: request() };
+    for (let i = 0; i < 3; i++) {
+      await rateLimit('audio', limited);
+    }
+    await rateLimit('chat', { userId: 'refilled', request: request() });
+
+    // chat is full again after 10 seconds, audio needs 15 minutes
+    vi.advanceTimersByTime(2 * 60 * 1000);
+    await rateLimit('chat', { userId: 'sweeper', request: request() });
+
+    expect((await rateLimit('audio', limited)).allowed).toBe(false);
+  });
+
+  it('counts anonymous callers by the last proxy hop, not the address they claim', async () => {
+    for (let i = 0; i < 3; i++) {
+      const spoofed = request({ 'x-forwarded-for': `203.0.113.${i}, 198.51.100.7` });
+      expect((await rateLimit('register', { request: spoofed })).allowed).toBe(true);
+    }
+
+    const result = await rateLimit('register', { request: request({ 'x-forwarded-for': '203.0.113.99, 198.51.100.7' }) });
+    expect(result.allowed).toBe(false);
+  });
+});
@@ -0,0 +1,212 @@
+import 'server-only';
+import { ipAddress } from '@vercel/functions';
+import { NextRequest, NextResponse } from 'next/server';
+import { getCollection } from '@/lib/mongodb';
+
+// Routes with their own bucket per caller
+export type RateLimitedRoute = 'analyze' | 'audio' | 'chat' | 'rewrite' | 'login' | 'register';
+
+interface TokenBucket {
+  // Requests that can be made back to back
+  capacity: number;
+  // Requests regained per minute
+  refillPerMinute: number;
+}
+
+export const RATE_LIMITS: Record<RateLimitedRoute, TokenBucket> = {
+  analyze: { capacity: 5, refillPerMinute: 0.5 },
+  audio: { capacity: 3, refillPerMinute: 0.2 },
+  chat: { capacity: 10, refillPerMinute: 6 },
+  rewrite: { capacity: 10, refillPerMinute: 2 },
+  login: { capacity: 10, refillPerMinute: 1 },
+  register: { capacity: 3, refillPerMinute: 0.1 },
+};
+
+// Who a bucket belongs to; the most specific one available wins
+export interface RateLimitSubject {
+  apiKeyId?: string;
+  userId?: string;
+  request: NextRequest;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the next request is allowed, 0 when allowed now
+  retryAfter: number;
+}
+
+interface BucketState {
+  tokens: number;
+  updated_at: Date;
+  // When the bucket is full again, and so no different from no bucket at all
+  expires_at: Date;
+}
+
+// Used while Mongo is unreachable, so limits hold per instance at least
+const memoryBuckets = new Map<string, BucketState>();
+
+// Full buckets are swept out at most this often; past the cap the least recently used go first
+const MEMORY_SWEEP_INTERVAL_MS = 60 * 1000;
+const MAX_MEMORY_BUCKETS = 10_000;
+let lastMemorySweep = 0;
+
+let indexesReady: Promise<void> | null = null;
+
+async function getRateLimitsCollection() {
+  const collection = await getCollection('rate_limits');
+
+  if (!indexesReady) {
+    indexesReady = (async () => {
+      await collection.createIndex({ key: 1 }, { unique: true });
+      // Buckets are dropped once they would be full again
+      await collection.createIndex({ expires_at: 1 }, { expireAfterSeconds: 0 });
+    })().catch((error) => {
+      indexesReady = null;
+      throw error;
+    });
+  }
+  await indexesReady;
+
+  return collection;
+}
+
+// Vercel sets x-real-ip itself. Behind other proxies only the last x-forwarded-for
+// hop was added by one; the entries before it are whatever the client sent.
+function getClientIp(request: NextRequest): string {
+  const lastHop = request.headers.get('x-forwarded-for')?.split(',').pop()?.trim();
+  return ipAddress(request) || lastHop || 'unknown';
+}
+
+function toBucketKey(route: RateLimitedRoute, { apiKeyId, userId, request }: RateLimitSubject): string {
+  if (apiKeyId) {
+    return `${route}:key:${apiKeyId}`;
+  }
+  if (userId) {
+    return `${route}:user:${userId}`;
+  }
+  return `${route}:ip:${getClientIp(request)}`;
+}
+
+function toResult(bucket: TokenBucket, tokens: number, allowed: boolean): RateLimitResult {
+  const perMs = bucket.refillPerMinute / 60_000;
+  return {
+    allowed,
+    remaining: Math.floor(tokens),
+    retryAfter: allowed ? 0 : Math.ceil((1 - tokens) / perMs / 1000),
+  };
+}
+
+async function takeFromMongo(key: string, bucket: TokenBucket, now: Date): Promise<RateLimitResult> {
+  const collection = await getRateLimitsCollection();
+  const perMs = bucket.refillPerMinute / 60_000;
+  const fullAfterMs = bucket.capacity / perMs;
+
+  // Refill for the time since the last request, then take a token if there is one.
+  // A single pipeline update keeps concurrent requests from spending the same token.
+  const update = [
+    {
+      $set: {
+        tokens: {
+          $min: [
+            bucket.capacity,
+            {
+              $add: [
+                { $ifNull: ['$tokens', bucket.capacity] },
+                { $multiply: [{ $subtract: [now, { $ifNull: ['$updated_at', now] }] }, perMs] },
+              ],
+            },
+          ],
+        },
+      },
+    },
+    { $set: { allowed: { $gte: ['$tokens', 1] } } },
+    {
+      $set: {
+        tokens: { $cond: ['$allowed', { $subtract: ['$tokens', 1] }, '$tokens'] },
+        updated_at: now,
+        expires_at: new Date(now.getTime() + fullAfterMs),
+      },
+    },
+  ];
+
+  const run = () =>
+    collection.findOneAndUpdate({ key }, update, { upsert: true, returnDocument: 'after' });
+
+  // Two first requests can race on the upsert; the loser retries against the winner's bucket
+  const state = await run().catch((error) => (error?.code === 11000 ? run() : Promise.reject(error)));
+  if (!state) {
+    throw new Error(`Rate limit bucket ${key} was not written`);
+  }
+  return toResult(bucket, state.tokens, state.allowed);
+}
+
+function sweepMemoryBuckets(now: Date): void {
+  if (now.getTime() - lastMemorySweep >= MEMORY_SWEEP_INTERVAL_MS) {
+    lastMemorySweep = now.getTime();
+    for (const [key, state] of memoryBuckets) {
+      if (state.expires_at <= now) {
+        memoryBuckets.delete(key);
+      }
+    }
+  }
+
+  // Maps iterate in insertion order, and every request re-inserts its bucket
+  for (const key of memoryBuckets.keys()) {
+    if (memoryBuckets.size <= MAX_MEMORY_BUCKETS) {
+      break;
+    }
+    memoryBuckets.delete(key);
+  }
+}
+
+function takeFromMemory(key: string, bucket: TokenBucket, now: Date): RateLimitResult {
+  const perMs = bucket.refillPerMinute / 60_000;
+  const state = memoryBuckets.get(key);
+  const refilled = state
+    ? Math.min(bucket.capacity, state.tokens + (now.getTime() - state.updated_at.getTime()) * perMs)
+    : bucket.capacity;
+
+  const allowed = refilled >= 1;
+  const tokens = allowed ? refilled - 1 : refilled;
+  const fullAfterMs = (bucket.capacity - tokens) / perMs;
+  memoryBuckets.delete(key);
+  memoryBuckets.set(key, { tokens, updated_at: now, expires_at: new Date(now.getTime() + fullAfterMs) });
+  sweepMemoryBuckets(now);
+  return toResult(bucket, tokens, allowed);
+}
+
+/**
+ * Take one request from the caller's bucket for the route
+ */
+export async function rateLimit(route: RateLimitedRoute, subject: RateLimitSubject): Promise<RateLimitResult> {
+  const bucket = RATE_LIMITS[route];
+  const key = toBucketKey(route, subject);
+  const now = new Date();
+
+  try {
+    return await takeFromMongo(key, bucket, now);
+  } catch (error) {
+    console.warn(`[RateLimit] Falling back to memory for ${key}:`, error instanceof Error ? error.message : error);
+    return takeFromMemory(key, bucket, now);
+  }
+}
+
+/**
+ * 429 for a request over its limit, or null to let it through
+ */
+export async function enforceRateLimit(
+  route: RateLimitedRoute,
+  subject: RateLimitSubject
+): Promise<NextResponse | null> {
+  const result = await rateLimit(route, subject);
+  if (result.allowed) {
+    return null;
+  }
+
+  console.warn(`[RateLimit] Rejected ${toBucketKey(route, subject)} (retry in ${result.retryAfter}s)`);
+  return NextResponse.json(
+    { error: `Too many requests. Try again in ${result.retryAfter} seconds.`, retry_after: result.retryAfter },
+    { status: 429, headers: { 'Retry-After': String(result.retryAfter) } }
+  );
+}
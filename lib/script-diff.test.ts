@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { diffSegments } from './script-diff';
+import type { ScriptSegment } from './types';
+
+const line = (text: string, fields: Partial<ScriptSegment> = {}): ScriptSegment => ({ speaker: 'narrator', text, ...fields });
+
+const kinds = (before: ScriptSegment[], after: ScriptSegment[]) =>
+  diffSegments(before, after).map((row) => [row.kind, row.before?.index ?? null, row.after?.index ?? null]);
+
+describe('diffSegments', () => {
+  it('lines up identical scripts segment by segment', () => {
+    const script = [line('One'), line('Two')];
+    expect(kinds(script, script)).toEqual([
+      ['same', 0, 0],
+      ['same', 1, 1],
+    ]);
+  });
+
+  it('reports inserted and deleted segments where they happened', () => {
+    expect(kinds([line('One'), line('Three')], [line('One'), line('Two'), line('Three')])).toEqual([
+      ['same', 0, 0],
+      ['added', null, 1],
+      ['same', 1, 2],
+    ]);
+    expect(kinds([line('One'), line('Two'), line('Three')], [line('One'), line('Three')])).toEqual([
+      ['same', 0, 0],
+      ['removed', 1, null],
+      ['same', 2, 1],
+    ]);
+  });
+
+  it('pairs a removal and an addition at the same spot as a change', () => {
+    const rows = diffSegments([line('One'), line('Two'), line('Three')], [line('One'), line('2'), line('Three')]);
+    expect(rows[1]).toEqual({
+      kind: 'changed',
+      before: { index: 1, segment: line('Two') },
+      after: { index: 1, segment: line('2') },
+    });
+  });
+
+  it('counts a new emotion, sound effect or speaker as a change', () => {
+    expect(kinds([line('One')], [line('One', { emotion: 'dramatic' })])).toEqual([['changed', 0, 0]]);
+    expect(kinds([line('One')], [line('One', { sound_effect: 'thunder' })])).toEqual([['changed', 0, 0]]);
+    expect(kinds([line('One')], [line('One', { speaker: 'detective' })])).toEqual([['changed', 0, 0]]);
+  });
+
+  it('keeps the leftovers of uneven runs as plain additions or removals', () => {
+    expect(kinds([line('A'), line('B')], [line('X'), line('Y'), line('Z')])).toEqual([
+      ['changed', 0, 0],
+      ['changed', 1, 1],
+      ['added', null, 2],
+    ]);
+    expect(kinds([line('A')], [])).toEqual([['removed', 0, null]]);
+  });
+});
@@ -0,0 +1,64 @@
+import type { ScriptSegment } from './types';
+
+export interface SegmentDiffRow {
+  kind: 'same' | 'changed' | 'removed' | 'added';
+  before?: { index: number; segment: ScriptSegment };
+  after?: { index: number; segment: ScriptSegment };
+}
+
+const segmentKey = (segment: ScriptSegment) =>
+  [segment.speaker, segment.text, segment.emotion || '', segment.sound_effect || ''].join('\0');
+
+/**
+ * Line up two versions of a script segment by segment (longest common
+ * subsequence). Runs of removed and added segments at the same spot are
+ * paired up as changes.
+ */
+export function diffSegments(before: ScriptSegment[], after: ScriptSegment[]): SegmentDiffRow[] {
+  const a = before.map(segmentKey);
+  const b = after.map(segmentKey);
+
+  // lengths[i][j]: LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const rows: SegmentDiffRow[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const i = removed[k];
+      const j = added[k];
+      rows.push({
+        kind: i !== undefined && j !== undefined ? 'changed' : i !== undefined ? 'removed' : 'added',
+        ...(i !== undefined && { before: { index: i, segment: before[i] } }),
+        ...(j !== undefined && { after: { index: j, segment: after[j] } }),
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ kind: 'same', before: { index: i, segment: before[i] }, after: { index: j, segment: after[j] } });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      removed.push(i++);
+    } else {
+      added.push(j++);
+    }
+  }
+  flush();
+
+  return rows;
+}
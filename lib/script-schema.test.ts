@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CodeReferenceSchema,
+  editedScriptSchemaFor,
+  formatSchemaErrors,
+  PodcastScriptSchema,
+  segmentRewriteSchemaFor,
+} from './script-schema';
+import type { StyleDefinition } from './types';
+
+const style = {
+  speakers: [
+    { role: 'narrator', label: 'Narrator' },
+    { role: 'heckler', label: 'Heckler', emotions: ['heckling'] },
+  ],
+  emotions: ['dramatic', 'serious'],
+  sound_effects: ['thunder'],
+} as unknown as StyleDefinition;
+
+const script = (segments: Record<string, unknown>[]) => ({ title: 'The Case of acme/api', segments });
+
+describe('PodcastScriptSchema', () => {
+  it('trims text and requires a title and at least one segment', () => {
+    const parsed = PodcastScriptSchema.parse(script([{ speaker: ' narrator ', text: ' It was a dark night. ' }]));
+    expect(parsed.segments[0]).toMatchObject({ speaker: 'narrator', text: 'It was a dark night.' });
+
+    const result = PodcastScriptSchema.safeParse({ title: ' ', segments: [] });
+    expect(result.success).toBe(false);
+    expect(formatSchemaErrors(result.error!)).toEqual([
+      'title: title is required',
+      'segments: the script needs at least one segment',
+    ]);
+  });
+});
+
+describe('CodeReferenceSchema', () => {
+  it('ends a reference on its start line at the earliest', () => {
+    expect(CodeReferenceSchema.parse({ path: 'lib/a.ts', start_line: 12 }).end_line).toBe(12);
+    expect(CodeReferenceSchema.parse({ path: 'lib/a.ts', start_line: 12, end_line: 3 }).end_line).toBe(12);
+    expect(CodeReferenceSchema.safeParse({ path: 'lib/a.ts', start_line: 0 }).success).toBe(false);
+  });
+});
+
+describe('editedScriptSchemaFor', () => {
+  const schema = editedScriptSchemaFor(style);
+
+  it("accepts the style's speakers with the emotions and sound effects they can voice", () => {
+    const result = schema.safeParse(
+      script([
+        { speaker: 'narrator', text: 'The logs were wiped.', emotion: 'dramatic', sound_effect: 'thunder' },
+        { speaker: 'heckler', text: 'Of course they were.', emotion: 'heckling' },
+      ])
+    );
+    expect(result.success).toBe(true);
+  });
+
+  it('refuses other speakers, emotions and sound effects', () => {
+    const result = schema.safeParse(
+      script([
+        { speaker: 'detective', text: 'Who did it?' },
+        { speaker: 'heckler', text: 'Not me.', emotion: 'dramatic' },
+        { speaker: 'narrator', text: 'Silence.', sound_effect: 'applause' },
+      ])
+    );
+    expect(result.success).toBe(false);
+    expect(formatSchemaErrors(result.error!)).toEqual([
+      'segments.0.speaker: speaker must be one of narrator, heckler',
+      'segments.1.emotion: emotion must be one of heckling',
+      'segments.2.sound_effect: sound_effect must be one of thunder',
+    ]);
+  });
+});
+
+describe('segmentRewriteSchemaFor', () => {
+  const schema = segmentRewriteSchemaFor(['narrator', 'heckler']);
+
+  it('needs one segment per original, spoken by the same speaker', () => {
+    const rewrite = (speakers: string[]) => ({ segments: speakers.map((speaker) => ({ speaker, text: 'Line.' })) });
+
+    expect(schema.safeParse(rewrite(['narrator', 'heckler'])).success).toBe(true);
+    expect(formatSchemaErrors(schema.safeParse(rewrite(['narrator'])).error!)).toEqual([
+      'segments: expected 2 segments, got 1',
+    ]);
+    expect(formatSchemaErrors(schema.safeParse(rewrite(['heckler', 'heckler'])).error!)).toEqual([
+      'segments.0.speaker: speaker must be "narrator"',
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+import { z } from 'zod/v4';
+import { getAllowedEmotions } from './styles/emotions';
+import type { StyleDefinition } from './types';
+
+export const CodeReferenceSchema = z
+  .object({
+    path: z.string().trim().min(1, 'path is required'),
+    start_line: z.number().int().positive(),
+    end_line: z.number().int().positive().optional(),
+    verified: z.boolean().optional(),
+  })
+  .transform((ref) => ({ ...ref, end_line: Math.max(ref.end_line ?? ref.start_line, ref.start_line) }));
+
+/**
+ * Shape of a podcast script as returned by the model and stored on the podcast
+ */
+export const ScriptSegmentSchema = z.object({
+  speaker: z.string().trim().min(1, 'speaker is required'),
+  text: z.string().trim().min(1, 'text is required'),
+  emotion: z.string().trim().min(1).optional(),
+  sound_effect: z.string().trim().min(1).optional(),
+  code_reference: CodeReferenceSchema.optional(),
+  duration: z.number().nonnegative().optional(),
+  startTime: z.number().nonnegative().optional(),
+  endTime: z.number().nonnegative().optional(),
+});
+
+export const PodcastScriptSchema = z.object({
+  title: z.string().trim().min(1, 'title is required'),
+  narrator_voice: z.string().optional(),
+  dramatic_arc: z.string().optional(),
+  segments: z.array(ScriptSegmentSchema).min(1, 'the script needs at least one segment'),
+  total_duration: z.number().nonnegative().optional(),
+});
+
+/**
+ * Script schema that also only accepts the speaker roles of a style
+ */
+export function podcastScriptSchemaFor(speakerRoles: string[]) {
+  return PodcastScriptSchema.superRefine((script, ctx) => {
+    script.segments.forEach((segment, i) => {
+      if (!speakerRoles.includes(segment.speaker)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['segments', i, 'speaker'],
+          message: `speaker must be one of ${speakerRoles.join(', ')}`,
+        });
+      }
+    });
+  });
+}
+
+/**
+ * Script as edited by hand: the style's speakers only, and only the emotions
+ * and sound effects it can voice
+ */
+export function editedScriptSchemaFor(style: StyleDefinition) {
+  return podcastScriptSchemaFor(style.speakers.map((speaker) => speaker.role)).superRefine((script, ctx) => {
+    script.segments.forEach((segment, i) => {
+      const emotions = getAllowedEmotions(style, segment.speaker);
+      if (segment.emotion && !emotions.includes(segment.emotion)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['segments', i, 'emotion'],
+          message: emotions.length > 0 ? `emotion must be one of ${emotions.join(', ')}` : 'this speaker has no emotions',
+        });
+      }
+      if (segment.sound_effect && !style.sound_effects.includes(segment.sound_effect)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['segments', i, 'sound_effect'],
+          message:
+            style.sound_effects.length > 0
+              ? `sound_effect must be one of ${style.sound_effects.join(', ')}`
+              : 'this style has no sound effects',
+        });
+      }
+    });
+  });
+}
+
+/**
+ * Replacement for a run of segments: one segment per original, each spoken by
+ * the same speaker as the one it replaces
+ */
+export function segmentRewriteSchemaFor(originalSpeakers: string[]) {
+  return z
+    .object({ segments: z.array(ScriptSegmentSchema) })
+    .superRefine(({ segments }, ctx) => {
+      if (segments.length !== originalSpeakers.length) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['segments'],
+          message: `expected ${originalSpeakers.length} segments, got ${segments.length}`,
+        });
+        return;
+      }
+      segments.forEach((segment, i) => {
+        if (segment.speaker !== originalSpeakers[i]) {
+          ctx.addIssue({
+            code: 'custom',
+            path: ['segments', i, 'speaker'],
+            message: `speaker must be "${originalSpeakers[i]}"`,
+          });
+        }
+      });
+    });
+}
+
+/**
+ * Readable one-line-per-issue validation errors, e.g. "segments.3.text: text is required"
+ */
+export function formatSchemaErrors(error: { issues: Array<{ path: PropertyKey[]; message: string }> }): string[] {
+  return error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.map(String).join('.')}: ${issue.message}` : issue.message
+  );
+}
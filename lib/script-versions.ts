@@ -0,0 +1,112 @@
+import 'server-only';
+import { getCollection } from '@/lib/mongodb';
+import { Podcast, PodcastScript, ScriptVersion, ScriptVersionCause } from '@/lib/types';
+
+// Who wrote revisions nobody signed for
+export const PIPELINE_AUTHOR = 'pipeline';
+export const ANONYMOUS_AUTHOR = 'anonymous';
+
+const MAX_RECORD_ATTEMPTS = 3;
+const DUPLICATE_KEY_ERROR = 11000;
+
+let indexesReady: Promise<void> | null = null;
+
+async function getVersionsCollection() {
+  const collection = await getCollection('script_versions');
+
+  if (!indexesReady) {
+    indexesReady = collection
+      .createIndex({ podcast_id: 1, version: -1 }, { unique: true })
+      .then(() => undefined)
+      .catch((error) => {
+        indexesReady = null;
+        throw error;
+      });
+  }
+  await indexesReady;
+
+  return collection;
+}
+
+/**
+ * Store a script revision as the podcast's next version. A script identical
+ * to the latest version isn't stored again; that version is returned instead.
+ */
+export async function recordScriptVersion(
+  podcastId: string,
+  script: PodcastScript,
+  cause: ScriptVersionCause,
+  options?: { author?: string; restoredFrom?: number }
+): Promise<ScriptVersion> {
+  const collection = await getVersionsCollection();
+
+  for (let attempt = 1; ; attempt++) {
+    const latest = await collection.findOne<ScriptVersion>(
+      { podcast_id: podcastId },
+      { sort: { version: -1 }, projection: { _id: 0 } }
+    );
+    if (latest && JSON.stringify(latest.script) === JSON.stringify(script)) {
+      return latest;
+    }
+
+    const version: ScriptVersion = {
+      podcast_id: podcastId,
+      version: (latest?.version ?? 0) + 1,
+      script,
+      cause,
+      author: options?.author ?? ANONYMOUS_AUTHOR,
+      ...(options?.restoredFrom !== undefined && { restored_from: options.restoredFrom }),
+      created_at: new Date(),
+    };
+
+    try {
+      await collection.insertOne({ ...version });
+      return version;
+    } catch (error) {
+      // Someone else took this version number; go again on top of theirs
+      const code = (error as { code?: number }).code;
+      if (code !== DUPLICATE_KEY_ERROR || attempt >= MAX_RECORD_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+/**
+ * Record a change to a podcast's current script. Podcasts from before version
+ * history get their current script stored first, so the change can be undone.
+ */
+export async function recordScriptChange(
+  podcast: Pick<Podcast, 'id' | 'script' | 'script_version'>,
+  script: PodcastScript,
+  cause: ScriptVersionCause,
+  options?: { author?: string; restoredFrom?: number }
+): Promise<ScriptVersion> {
+  if (podcast.script && podcast.script_version === undefined) {
+    await recordScriptVersion(podcast.id, podcast.script, 'generated', { author: PIPELINE_AUTHOR });
+  }
+  return recordScriptVersion(podcast.id, script, cause, options);
+}
+
+/**
+ * Every revision of a podcast's script, newest first, without the scripts
+ */
+export async function listScriptVersions(
+  podcastId: string
+): Promise<(Omit<ScriptVersion, 'script'> & { title: string; segment_count: number })[]> {
+  const collection = await getVersionsCollection();
+  const versions = await collection
+    .find<ScriptVersion>({ podcast_id: podcastId }, { sort: { version: -1 }, projection: { _id: 0 } })
+    .toArray();
+
+  return versions.map(({ script, ...version }) => ({
+    ...version,
+    title: script.title,
+    segment_count: script.segments.length,
+  }));
+}
+
+export async function getScriptVersion(podcastId: string, version: number): Promise<ScriptVersion | null> {
+  const collection = await getVersionsCollection();
+  return collection.findOne<ScriptVersion>({ podcast_id: podcastId, version }, { projection: { _id: 0 } });
+}
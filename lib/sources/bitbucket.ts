@@ -0,0 +1,425 @@
+import 'server-only';
+import { buildRepoStructure, SimpleCache, type GitHubRepo, type RepoStructure } from '@/lib/github/client';
+import {
+  FETCH_CONFIG,
+  GitHubApiError,
+  PathNotFoundError,
+  RefNotFoundError,
+  RepositoryNotFoundError,
+  normalizeRepoPath,
+} from '@/lib/github/config';
+import type { GitHubCommit, GitHubLanguages } from '@/lib/github/types';
+import { getConfiguredBaseUrl, isBitbucketCloud } from './hosts';
+import { hostRequest } from './http';
+import type { RepositoryHostClient } from './source';
+
+// Listing pages followed before the rest of the tree is left out
+const MAX_TREE_PAGES = 200;
+
+// Contributors are whoever authored the latest commits; there's no endpoint for them
+const CONTRIBUTOR_COMMITS = 50;
+
+interface Page<T> {
+  values: T[];
+  // Bitbucket Cloud
+  next?: string;
+  // Bitbucket Data Center
+  isLastPage?: boolean;
+  nextPageStart?: number;
+}
+
+interface CloudRepository {
+  name: string;
+  full_name: string;
+  description: string;
+  language: string;
+  size: number;
+  updated_on: string;
+  mainbranch?: { name: string };
+  is_private: boolean;
+  links: { html: { href: string } };
+}
+
+interface CloudTreeEntry {
+  type: 'commit_file' | 'commit_directory';
+  path: string;
+  size?: number;
+}
+
+interface CloudCommit {
+  hash: string;
+  message: string;
+  date: string;
+  // "Name <email>"
+  author: { raw: string; user?: { display_name: string } };
+  links: { html: { href: string } };
+}
+
+interface ServerRepository {
+  slug: string;
+  name: string;
+  description?: string;
+  public: boolean;
+  project: { key: string };
+}
+
+interface ServerCommit {
+  id: string;
+  message: string;
+  authorTimestamp: number;
+  author: { name: string; displayName?: string; emailAddress?: string };
+}
+
+/**
+ * Bitbucket API client: Bitbucket Cloud (bitbucket.org, API 2.0) or a
+ * self-hosted Bitbucket Data Center (REST API 1.0). Owner is the workspace on
+ * Cloud and the project key on Data Center.
+ */
+export class BitbucketClient implements RepositoryHostClient {
+  private cache = new SimpleCache();
+  private cloud: boolean;
+  private apiUrl: string;
+
+  constructor(
+    private baseUrl: string,
+    private auth?: { token: string; username?: string }
+  ) {
+    this.cloud = isBitbucketCloud(baseUrl);
+    this.apiUrl = this.cloud ? 'https://api.bitbucket.org/2.0' : `${baseUrl}/rest/api/1.0`;
+  }
+
+  private repositoryUrl(owner: string, repo: string): string {
+    return this.cloud
+      ? `${this.apiUrl}/repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`
+      : `${this.apiUrl}/projects/${encodeURIComponent(owner)}/repos/${encodeURIComponent(repo)}`;
+  }
+
+  // App passwords go with a username; access tokens on their own
+  private headers(): Record<string, string> {
+    if (!this.auth) {
+      return {};
+    }
+    const { token, username } = this.auth;
+    return {
+      Authorization: username ? `Basic ${Buffer.from(`${username}:${token}`).toString('base64')}` : `Bearer ${token}`,
+    };
+  }
+
+  private request(
+    url: string,
+    owner: string,
+    repo: string,
+    options: { notFound?: () => Error; signal?: AbortSignal } = {}
+  ): Promise<Response> {
+    return hostRequest(url, {
+      headers: this.headers(),
+      repository: `${owner}/${repo}`,
+      notFound: options.notFound ?? (() => new RepositoryNotFoundError(`${owner}/${repo}`)),
+      signal: options.signal,
+    });
+  }
+
+  async getRepository(owner: string, repo: string): Promise<GitHubRepo> {
+    const cacheKey = `repo:${owner}/${repo}`;
+    const cached = this.cache.get<GitHubRepo>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const repoData = this.cloud ? await this.getCloudRepository(owner, repo) : await this.getServerRepository(owner, repo);
+
+    this.cache.set(cacheKey, repoData);
+    return repoData;
+  }
+
+  private async getCloudRepository(owner: string, repo: string): Promise<GitHubRepo> {
+    const response = await this.request(this.repositoryUrl(owner, repo), owner, repo);
+    const data = (await response.json()) as CloudRepository;
+
+    return {
+      name: repo,
+      fullName: data.full_name,
+      description: data.description || '',
+      stars: 0,
+      language: data.language || 'Unknown',
+      size: Math.round(data.size / 1024),
+      lastUpdated: data.updated_on,
+      defaultBranch: data.mainbranch?.name || 'main',
+      owner,
+      url: data.links.html.href,
+      isPrivate: data.is_private,
+      topics: [],
+    };
+  }
+
+  // Data Center reports neither size, language nor activity; the latest commit stands in for the last update
+  private async getServerRepository(owner: string, repo: string): Promise<GitHubRepo> {
+    const response = await this.request(this.repositoryUrl(owner, repo), owner, repo);
+    const data = (await response.json()) as ServerRepository;
+
+    const branch = await this.request(`${this.repositoryUrl(owner, repo)}/default-branch`, owner, repo, {
+      // Empty repositories have no default branch yet
+      notFound: () => new RefNotFoundError(`${owner}/${repo}`, 'default branch'),
+    });
+    const { displayId } = (await branch.json()) as { displayId: string };
+    const [latest] = await this.getRecentCommits(owner, repo, 1, displayId);
+
+    return {
+      name: data.slug,
+      fullName: `${data.project.key}/${data.slug}`,
+      description: data.description || '',
+      stars: 0,
+      language: 'Unknown',
+      size: 0,
+      lastUpdated: latest?.commit.author.date || '',
+      defaultBranch: displayId,
+      owner: data.project.key,
+      url: `${this.baseUrl}/projects/${encodeURIComponent(owner)}/repos/${encodeURIComponent(repo)}/browse`,
+      isPrivate: !data.public,
+      topics: [],
+    };
+  }
+
+  async getRepoStructure(
+    owner: string,
+    repo: string,
+    ref?: string,
+    options?: { path?: string; signal?: AbortSignal }
+  ): Promise<RepoStructure> {
+    const path = options?.path ? normalizeRepoPath(options.path) : '';
+    const cacheKey = `structure:${owner}/${repo}:${ref || 'default'}:${path}`;
+    const cached = this.cache.get<RepoStructure>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const targetRef = ref || (await this.getRepository(owner, repo)).defaultBranch;
+    const notFound = () =>
+      path ? new PathNotFoundError(`${owner}/${repo}`, path) : new RefNotFoundError(`${owner}/${repo}`, targetRef);
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    const entries: Array<{ path: string; type: 'file' | 'dir'; size?: number }> = [];
+
+    if (this.cloud) {
+      const params = new URLSearchParams({ max_depth: '100', pagelen: '100' });
+      let next: string | undefined =
+        `${this.repositoryUrl(owner, repo)}/src/${encodeURIComponent(targetRef)}/${encodedPath}?${params}`;
+
+      for (let page = 0; next && page < MAX_TREE_PAGES; page++) {
+        const response = await this.request(next, owner, repo, { notFound, signal: options?.signal });
+        const data = (await response.json()) as Page<CloudTreeEntry>;
+        entries.push(
+          ...data.values.map((entry) => ({
+            path: entry.path,
+            type: entry.type === 'commit_file' ? ('file' as const) : ('dir' as const),
+            size: entry.size,
+          }))
+        );
+        next = data.next;
+      }
+    } else {
+      // Data Center lists file paths only, relative to the directory asked for
+      for (let start = 0, page = 0; start >= 0 && page < MAX_TREE_PAGES; page++) {
+        const params = new URLSearchParams({ at: targetRef, limit: '1000', start: String(start) });
+        const response = await this.request(`${this.repositoryUrl(owner, repo)}/files/${encodedPath}?${params}`, owner, repo, {
+          notFound,
+          signal: options?.signal,
+        });
+        const data = (await response.json()) as Page<string>;
+        entries.push(...data.values.map((file) => ({ path: path ? `${path}/${file}` : file, type: 'file' as const })));
+        start = data.isLastPage ? -1 : (data.nextPageStart ?? -1);
+      }
+    }
+
+    const structure = buildRepoStructure(entries, path);
+
+    if (path && structure.files.length === 0) {
+      throw new PathNotFoundError(`${owner}/${repo}`, path);
+    }
+
+    this.cache.set(cacheKey, structure);
+    return structure;
+  }
+
+  async getFileContent(owner: string, repo: string, path: string, ref?: string, signal?: AbortSignal): Promise<string> {
+    const cacheKey = `file:${owner}/${repo}:${path}:${ref || 'default'}`;
+    const cached = this.cache.get<string>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    let url: string;
+    if (this.cloud) {
+      // Cloud needs a ref in the URL
+      const targetRef = ref || (await this.getRepository(owner, repo)).defaultBranch;
+      url = `${this.repositoryUrl(owner, repo)}/src/${encodeURIComponent(targetRef)}/${encodedPath}`;
+    } else {
+      url = `${this.repositoryUrl(owner, repo)}/raw/${encodedPath}${ref ? `?${new URLSearchParams({ at: ref })}` : ''}`;
+    }
+
+    const response = await this.request(url, owner, repo, {
+      notFound: () => new GitHubApiError(`File not found: ${path}`, 404),
+      signal,
+    });
+
+    const size = Number(response.headers.get('content-length'));
+    if (size > FETCH_CONFIG.MAX_FILE_SIZE) {
+      await response.body?.cancel();
+      throw new GitHubApiError(`File too large: ${size} bytes (max: ${FETCH_CONFIG.MAX_FILE_SIZE})`, 413);
+    }
+
+    const content = await response.text();
+    this.cache.set(cacheKey, content);
+    return content;
+  }
+
+  async getRecentCommits(owner: string, repo: string, limit: number = 10, ref?: string): Promise<GitHubCommit[]> {
+    const cacheKey = `commits:${owner}/${repo}:${limit}:${ref || 'default'}`;
+    const cached = this.cache.get<GitHubCommit[]>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    let commits: GitHubCommit[];
+    if (this.cloud) {
+      const params = new URLSearchParams({ pagelen: String(Math.min(limit, 100)) });
+      const response = await this.request(
+        `${this.repositoryUrl(owner, repo)}/commits${ref ? `/${encodeURIComponent(ref)}` : ''}?${params}`,
+        owner,
+        repo
+      );
+      commits = ((await response.json()) as Page<CloudCommit>).values.map((commit) => {
+        const [, name = commit.author.raw, email = ''] = commit.author.raw.match(/^(.*?)\s*<([^>]*)>\s*$/) ?? [];
+        return {
+          sha: commit.hash,
+          commit: {
+            author: { name: commit.author.user?.display_name || name || 'Unknown', email, date: commit.date },
+            message: commit.message,
+          },
+          author: null,
+          html_url: commit.links.html.href,
+        };
+      });
+    } else {
+      const params = new URLSearchParams({ limit: String(Math.min(limit, 100)) });
+      if (ref) {
+        params.set('until', ref);
+      }
+      const response = await this.request(`${this.repositoryUrl(owner, repo)}/commits?${params}`, owner, repo);
+      commits = ((await response.json()) as Page<ServerCommit>).values.map((commit) => ({
+        sha: commit.id,
+        commit: {
+          author: {
+            name: commit.author.displayName || commit.author.name || 'Unknown',
+            email: commit.author.emailAddress || '',
+            date: new Date(commit.authorTimestamp).toISOString(),
+          },
+          message: commit.message,
+        },
+        author: null,
+        html_url: `${this.baseUrl}/projects/${encodeURIComponent(owner)}/repos/${encodeURIComponent(repo)}/commits/${commit.id}`,
+      }));
+    }
+
+    this.cache.set(cacheKey, commits);
+    return commits;
+  }
+
+  /**
+   * Bitbucket has no language breakdown, so it's tallied from the tree: bytes
+   * on Cloud, files on Data Center, which doesn't list sizes
+   */
+  async getLanguages(owner: string, repo: string): Promise<GitHubLanguages> {
+    const { files } = await this.getRepoStructure(owner, repo);
+    const languages: GitHubLanguages = {};
+
+    for (const file of files) {
+      if (file.type === 'file' && file.language) {
+        languages[file.language] = (languages[file.language] || 0) + (file.size ?? 1);
+      }
+    }
+    return languages;
+  }
+
+  async getContributors(owner: string, repo: string): Promise<string[]> {
+    const cacheKey = `contributors:${owner}/${repo}`;
+    const cached = this.cache.get<string[]>(cacheKey);
+    if (cached) return cached;
+
+    try {
+      const commits = await this.getRecentCommits(owner, repo, CONTRIBUTOR_COMMITS);
+      const contributors = [...new Set(commits.map((c) => c.commit.author.name))].slice(0, 10);
+      this.cache.set(cacheKey, contributors);
+      return contributors;
+    } catch (error) {
+      console.error('Error fetching contributors:', error);
+      return [];
+    }
+  }
+
+  async resolveCommitSha(owner: string, repo: string, ref: string): Promise<string> {
+    const cacheKey = `commit-sha:${owner}/${repo}:${ref}`;
+    const cached = this.cache.get<string>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const url = this.cloud
+      ? `${this.repositoryUrl(owner, repo)}/commit/${encodeURIComponent(ref)}`
+      : `${this.repositoryUrl(owner, repo)}/commits/${encodeURIComponent(ref)}`;
+    const response = await this.request(url, owner, repo, {
+      notFound: () => new RefNotFoundError(`${owner}/${repo}`, ref),
+    });
+    const data = (await response.json()) as { hash?: string; id?: string };
+    const sha = data.hash || data.id;
+
+    if (!sha) {
+      throw new RefNotFoundError(`${owner}/${repo}`, ref);
+    }
+
+    this.cache.set(cacheKey, sha);
+    return sha;
+  }
+
+  async getTarball(owner: string, repo: string, ref: string, signal?: AbortSignal): Promise<ReadableStream<Uint8Array>> {
+    // Cloud archives sit in "<workspace>-<repo>-<sha>/"; Data Center ones get a directory through prefix
+    const url = this.cloud
+      ? `${this.baseUrl}/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/get/${encodeURIComponent(ref)}.tar.gz`
+      : `${this.repositoryUrl(owner, repo)}/archive?${new URLSearchParams({ at: ref, format: 'tgz', prefix: `${repo}/` })}`;
+
+    const response = await this.request(url, owner, repo, {
+      notFound: () => new RefNotFoundError(`${owner}/${repo}`, ref),
+      signal,
+    });
+
+    if (!response.body) {
+      throw new GitHubApiError('Empty repository archive', 500);
+    }
+    return response.body;
+  }
+}
+
+const clients = new Map<string, BitbucketClient>();
+
+/**
+ * Client for a Bitbucket instance. BITBUCKET_TOKEN (with BITBUCKET_USERNAME
+ * for an app password) is only sent to the configured one
+ * (BITBUCKET_BASE_URL, bitbucket.org by default).
+ */
+export function getBitbucketClient(baseUrl: string): BitbucketClient {
+  let client = clients.get(baseUrl);
+  if (!client) {
+    const token = baseUrl === getConfiguredBaseUrl('bitbucket') ? process.env.BITBUCKET_TOKEN : undefined;
+    client = new BitbucketClient(
+      baseUrl,
+      token ? { token, username: process.env.BITBUCKET_USERNAME || undefined } : undefined
+    );
+    clients.set(baseUrl, client);
+  }
+  return client;
+}
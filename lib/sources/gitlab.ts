@@ -0,0 +1,310 @@
+import 'server-only';
+import { buildRepoStructure, SimpleCache, type GitHubRepo, type RepoStructure } from '@/lib/github/client';
+import {
+  FETCH_CONFIG,
+  GitHubApiError,
+  PathNotFoundError,
+  RefNotFoundError,
+  RepositoryNotFoundError,
+  normalizeRepoPath,
+} from '@/lib/github/config';
+import type { GitHubCommit, GitHubLanguages } from '@/lib/github/types';
+import { getConfiguredBaseUrl } from './hosts';
+import { hostRequest } from './http';
+import type { RepositoryHostClient } from './source';
+
+// 100 entries a page; past 20,000 entries the rest of the tree is left out
+const MAX_TREE_PAGES = 200;
+
+interface GitLabProject {
+  name: string;
+  path: string;
+  path_with_namespace: string;
+  description: string | null;
+  star_count: number;
+  last_activity_at: string;
+  default_branch: string | null;
+  namespace: { full_path: string };
+  web_url: string;
+  visibility: 'public' | 'internal' | 'private';
+  topics?: string[];
+  statistics?: { repository_size: number };
+}
+
+interface GitLabTreeEntry {
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+}
+
+interface GitLabCommit {
+  id: string;
+  message: string;
+  author_name: string;
+  author_email: string;
+  authored_date: string;
+  web_url: string;
+}
+
+/**
+ * GitLab API client, for gitlab.com and self-managed instances (API v4)
+ */
+export class GitLabClient implements RepositoryHostClient {
+  private cache = new SimpleCache();
+  private apiUrl: string;
+
+  constructor(
+    baseUrl: string,
+    private token?: string
+  ) {
+    this.apiUrl = `${baseUrl}/api/v4`;
+  }
+
+  // Projects are addressed by their URL-encoded path, nested groups included
+  private projectUrl(owner: string, repo: string): string {
+    return `${this.apiUrl}/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+  }
+
+  private request(
+    url: string,
+    owner: string,
+    repo: string,
+    options: { notFound?: () => Error; signal?: AbortSignal } = {}
+  ): Promise<Response> {
+    return hostRequest(url, {
+      headers: this.token ? { 'PRIVATE-TOKEN': this.token } : {},
+      repository: `${owner}/${repo}`,
+      notFound: options.notFound ?? (() => new RepositoryNotFoundError(`${owner}/${repo}`)),
+      signal: options.signal,
+    });
+  }
+
+  async getRepository(owner: string, repo: string): Promise<GitHubRepo> {
+    const cacheKey = `repo:${owner}/${repo}`;
+    const cached = this.cache.get<GitHubRepo>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.request(`${this.projectUrl(owner, repo)}?statistics=true`, owner, repo);
+    const data = (await response.json()) as GitLabProject;
+    const languages = await this.getLanguages(owner, repo).catch(() => ({}) as GitHubLanguages);
+    const [language] = Object.entries(languages).sort(([, a], [, b]) => b - a)[0] ?? ['Unknown'];
+
+    const repoData: GitHubRepo = {
+      name: data.path,
+      fullName: data.path_with_namespace,
+      description: data.description || '',
+      stars: data.star_count,
+      language,
+      size: Math.round((data.statistics?.repository_size ?? 0) / 1024),
+      lastUpdated: data.last_activity_at,
+      // Empty projects have no branch yet
+      defaultBranch: data.default_branch || 'main',
+      owner: data.namespace.full_path,
+      url: data.web_url,
+      // Internal projects are only visible to the instance's users
+      isPrivate: data.visibility !== 'public',
+      topics: data.topics || [],
+    };
+
+    this.cache.set(cacheKey, repoData);
+    return repoData;
+  }
+
+  async getRepoStructure(
+    owner: string,
+    repo: string,
+    ref?: string,
+    options?: { path?: string; signal?: AbortSignal }
+  ): Promise<RepoStructure> {
+    const path = options?.path ? normalizeRepoPath(options.path) : '';
+    const cacheKey = `structure:${owner}/${repo}:${ref || 'default'}:${path}`;
+    const cached = this.cache.get<RepoStructure>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const targetRef = ref || (await this.getRepository(owner, repo)).defaultBranch;
+    const entries: GitLabTreeEntry[] = [];
+
+    // Sizes aren't listed; the archive has them
+    let page = 1;
+    while (page && page <= MAX_TREE_PAGES) {
+      const params = new URLSearchParams({ recursive: 'true', per_page: '100', page: String(page), ref: targetRef });
+      if (path) {
+        params.set('path', path);
+      }
+
+      const response = await this.request(`${this.projectUrl(owner, repo)}/repository/tree?${params}`, owner, repo, {
+        notFound: () => (path ? new PathNotFoundError(`${owner}/${repo}`, path) : new RefNotFoundError(`${owner}/${repo}`, targetRef)),
+        signal: options?.signal,
+      });
+      entries.push(...((await response.json()) as GitLabTreeEntry[]));
+      page = Number(response.headers.get('x-next-page')) || 0;
+    }
+    if (page) {
+      console.warn(`[Sources] ${owner}/${repo} has over ${entries.length} tree entries, listing the first ones only`);
+    }
+
+    const structure = buildRepoStructure(
+      entries
+        // Submodules ("commit") aren't part of this repository
+        .filter((entry) => entry.type !== 'commit')
+        .map((entry) => ({ path: entry.path, type: entry.type === 'blob' ? ('file' as const) : ('dir' as const) })),
+      path
+    );
+
+    if (path && structure.files.length === 0) {
+      throw new PathNotFoundError(`${owner}/${repo}`, path);
+    }
+
+    this.cache.set(cacheKey, structure);
+    return structure;
+  }
+
+  async getFileContent(owner: string, repo: string, path: string, ref?: string, signal?: AbortSignal): Promise<string> {
+    const cacheKey = `file:${owner}/${repo}:${path}:${ref || 'default'}`;
+    const cached = this.cache.get<string>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const params = new URLSearchParams(ref ? { ref } : {});
+    const response = await this.request(
+      `${this.projectUrl(owner, repo)}/repository/files/${encodeURIComponent(path)}/raw?${params}`,
+      owner,
+      repo,
+      { notFound: () => new GitHubApiError(`File not found: ${path}`, 404), signal }
+    );
+
+    const size = Number(response.headers.get('content-length'));
+    if (size > FETCH_CONFIG.MAX_FILE_SIZE) {
+      await response.body?.cancel();
+      throw new GitHubApiError(`File too large: ${size} bytes (max: ${FETCH_CONFIG.MAX_FILE_SIZE})`, 413);
+    }
+
+    const content = await response.text();
+    this.cache.set(cacheKey, content);
+    return content;
+  }
+
+  async getRecentCommits(owner: string, repo: string, limit: number = 10, ref?: string): Promise<GitHubCommit[]> {
+    const cacheKey = `commits:${owner}/${repo}:${limit}:${ref || 'default'}`;
+    const cached = this.cache.get<GitHubCommit[]>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const params = new URLSearchParams({ per_page: String(Math.min(limit, 100)) });
+    if (ref) {
+      params.set('ref_name', ref);
+    }
+
+    const response = await this.request(`${this.projectUrl(owner, repo)}/repository/commits?${params}`, owner, repo);
+    const commits: GitHubCommit[] = ((await response.json()) as GitLabCommit[]).map((commit) => ({
+      sha: commit.id,
+      commit: {
+        author: {
+          name: commit.author_name || 'Unknown',
+          email: commit.author_email || '',
+          date: commit.authored_date || '',
+        },
+        message: commit.message,
+      },
+      // GitLab doesn't link commits to GitHub-style accounts
+      author: null,
+      html_url: commit.web_url,
+    }));
+
+    this.cache.set(cacheKey, commits);
+    return commits;
+  }
+
+  /**
+   * Share of each language in percent, where GitHub counts bytes
+   */
+  async getLanguages(owner: string, repo: string): Promise<GitHubLanguages> {
+    const cacheKey = `languages:${owner}/${repo}`;
+    const cached = this.cache.get<GitHubLanguages>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.request(`${this.projectUrl(owner, repo)}/languages`, owner, repo);
+    const languages = (await response.json()) as GitHubLanguages;
+
+    this.cache.set(cacheKey, languages);
+    return languages;
+  }
+
+  async getContributors(owner: string, repo: string): Promise<string[]> {
+    const cacheKey = `contributors:${owner}/${repo}`;
+    const cached = this.cache.get<string[]>(cacheKey);
+    if (cached) return cached;
+
+    try {
+      const params = new URLSearchParams({ order_by: 'commits', sort: 'desc', per_page: '10' });
+      const response = await this.request(`${this.projectUrl(owner, repo)}/repository/contributors?${params}`, owner, repo);
+      const contributors = ((await response.json()) as { name: string }[]).map((c) => c.name || 'Anonymous');
+      this.cache.set(cacheKey, contributors);
+      return contributors;
+    } catch (error) {
+      console.error('Error fetching contributors:', error);
+      return [];
+    }
+  }
+
+  async resolveCommitSha(owner: string, repo: string, ref: string): Promise<string> {
+    const cacheKey = `commit-sha:${owner}/${repo}:${ref}`;
+    const cached = this.cache.get<string>(cacheKey);
+
+    if (cached) {
+      return cached;
+    }
+
+    const response = await this.request(
+      `${this.projectUrl(owner, repo)}/repository/commits/${encodeURIComponent(ref)}`,
+      owner,
+      repo,
+      { notFound: () => new RefNotFoundError(`${owner}/${repo}`, ref) }
+    );
+    const { id } = (await response.json()) as GitLabCommit;
+
+    this.cache.set(cacheKey, id);
+    return id;
+  }
+
+  async getTarball(owner: string, repo: string, ref: string, signal?: AbortSignal): Promise<ReadableStream<Uint8Array>> {
+    const params = new URLSearchParams({ sha: ref });
+    const response = await this.request(`${this.projectUrl(owner, repo)}/repository/archive.tar.gz?${params}`, owner, repo, {
+      notFound: () => new RefNotFoundError(`${owner}/${repo}`, ref),
+      signal,
+    });
+
+    if (!response.body) {
+      throw new GitHubApiError('Empty repository archive', 500);
+    }
+    return response.body;
+  }
+}
+
+const clients = new Map<string, GitLabClient>();
+
+/**
+ * Client for a GitLab instance. GITLAB_TOKEN is only sent to the configured
+ * one (GITLAB_BASE_URL, gitlab.com by default); others are read anonymously.
+ */
+export function getGitLabClient(baseUrl: string): GitLabClient {
+  let client = clients.get(baseUrl);
+  if (!client) {
+    const token = baseUrl === getConfiguredBaseUrl('gitlab') ? process.env.GITLAB_TOKEN || undefined : undefined;
+    client = new GitLabClient(baseUrl, token);
+    clients.set(baseUrl, client);
+  }
+  return client;
+}
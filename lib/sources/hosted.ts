@@ -0,0 +1,47 @@
+import 'server-only';
+import type { RepoStructure } from '@/lib/github/client';
+import { extractTarball } from '@/lib/github/tarball';
+import type { ArchiveFile, RepositoryHostClient, RepositorySnapshot, RepositorySource } from './source';
+
+/**
+ * A repository on GitHub, GitLab or Bitbucket, read through the host's API
+ */
+export class HostedSource implements RepositorySource {
+  readonly name: string;
+
+  constructor(
+    readonly kind: 'github' | 'gitlab' | 'bitbucket',
+    private owner: string,
+    private repo: string,
+    private client: RepositoryHostClient
+  ) {
+    this.name = `${owner}/${repo}`;
+  }
+
+  async getSnapshot(ref?: string): Promise<RepositorySnapshot> {
+    const repository = await this.client.getRepository(this.owner, this.repo);
+    const contributors = await this.client.getContributors(this.owner, this.repo);
+    const commitSha = await this.client.resolveCommitSha(this.owner, this.repo, ref || repository.defaultBranch);
+    return { repository, contributors, commitSha };
+  }
+
+  getStructure(ref?: string, options?: { path?: string; signal?: AbortSignal }): Promise<RepoStructure> {
+    return this.client.getRepoStructure(this.owner, this.repo, ref, options);
+  }
+
+  async readFiles(ref: string, keep: (path: string, size: number) => boolean, signal?: AbortSignal): Promise<ArchiveFile[]> {
+    console.log(`[Fetcher] Downloading archive of ${this.name}@${ref}...`);
+    const archive = await this.client.getTarball(this.owner, this.repo, ref, signal);
+
+    return extractTarball(archive, {
+      keep,
+      // Everything sits in one directory, e.g. "<owner>-<repo>-<sha>/" on GitHub
+      stripComponents: 1,
+      signal,
+    });
+  }
+
+  readFile(path: string, ref?: string, signal?: AbortSignal): Promise<string> {
+    return this.client.getFileContent(this.owner, this.repo, path, ref, signal);
+  }
+}
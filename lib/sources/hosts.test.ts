@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getConfiguredBaseUrl, parseRepositoryUrl } from './hosts';
+
+describe('parseRepositoryUrl', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reads GitHub URLs, with or without a scheme', () => {
+    expect(parseRepositoryUrl('https://github.com/acme/api/tree/main/packages/ui')).toEqual({
+      host: 'github',
+      owner: 'acme',
+      repo: 'api',
+      branch: 'main',
+      path: 'packages/ui',
+    });
+    expect(parseRepositoryUrl('github.com/acme/api')).toMatchObject({ host: 'github', owner: 'acme', repo: 'api' });
+  });
+
+  it('reads GitLab projects in nested groups, with their ref and directory', () => {
+    expect(parseRepositoryUrl('https://gitlab.com/acme/platform/api/-/tree/release%2F2.0/src')).toEqual({
+      host: 'gitlab',
+      baseUrl: 'https://gitlab.com',
+      owner: 'acme/platform',
+      repo: 'api',
+      branch: 'release/2.0',
+      path: 'src',
+    });
+    expect(parseRepositoryUrl('https://gitlab.com/acme/api.git')).toMatchObject({ owner: 'acme', repo: 'api' });
+    expect(parseRepositoryUrl('https://gitlab.com/acme')).toBeNull();
+  });
+
+  it('reads Bitbucket Cloud and Data Center URLs', () => {
+    expect(parseRepositoryUrl('https://bitbucket.org/acme/api/src/main/lib')).toEqual({
+      host: 'bitbucket',
+      baseUrl: 'https://bitbucket.org',
+      owner: 'acme',
+      repo: 'api',
+      branch: 'main',
+      path: 'lib',
+    });
+
+    vi.stubEnv('BITBUCKET_BASE_URL', 'https://git.acme.com/bitbucket/');
+    expect(parseRepositoryUrl('https://git.acme.com/bitbucket/projects/PLAT/repos/api/browse/src?at=refs/heads/develop')).toEqual({
+      host: 'bitbucket',
+      baseUrl: 'https://git.acme.com/bitbucket',
+      owner: 'PLAT',
+      repo: 'api',
+      branch: 'develop',
+      path: 'src',
+    });
+    expect(parseRepositoryUrl('https://git.acme.com/bitbucket/users/jane/repos/dotfiles')).toMatchObject({
+      owner: '~jane',
+      repo: 'dotfiles',
+    });
+    expect(parseRepositoryUrl('https://git.acme.com/bitbucket/scm/plat/api.git')).toMatchObject({ owner: 'PLAT', repo: 'api' });
+  });
+
+  it('only recognises self-hosted instances at their configured base URL', () => {
+    expect(parseRepositoryUrl('https://gitlab.acme.com/acme/api')).toBeNull();
+
+    vi.stubEnv('GITLAB_BASE_URL', 'https://gitlab.acme.com');
+    expect(getConfiguredBaseUrl('gitlab')).toBe('https://gitlab.acme.com');
+    expect(parseRepositoryUrl('https://gitlab.acme.com/acme/api')).toMatchObject({
+      host: 'gitlab',
+      baseUrl: 'https://gitlab.acme.com',
+    });
+  });
+
+  it('rejects malformed escapes instead of querying a garbage path', () => {
+    expect(parseRepositoryUrl('https://gitlab.com/acme/api%E0%A4%A')).toBeNull();
+    expect(parseRepositoryUrl('https://bitbucket.org/acme/api/src/%E0%A4%A')).toBeNull();
+    expect(parseRepositoryUrl('https://github.com/acme/api/tree/%E0%A4%A')).toBeNull();
+  });
+});
@@ -0,0 +1,160 @@
+import 'server-only';
+import { normalizeRepoPath, parseGitHubRepoUrl } from '@/lib/github/config';
+
+export type RepositoryHost = 'github' | 'gitlab' | 'bitbucket';
+
+type SelfHostable = Exclude<RepositoryHost, 'github'>;
+
+const PUBLIC_BASE_URLS: Record<SelfHostable, string> = {
+  gitlab: 'https://gitlab.com',
+  bitbucket: 'https://bitbucket.org',
+};
+
+const BASE_URL_VARIABLES: Record<SelfHostable, string> = {
+  gitlab: 'GITLAB_BASE_URL',
+  bitbucket: 'BITBUCKET_BASE_URL',
+};
+
+export interface ParsedRepositoryUrl {
+  host: RepositoryHost;
+  // Web URL of the GitLab or Bitbucket instance, e.g. https://gitlab.acme.com
+  baseUrl?: string;
+  // GitHub owner, GitLab group path, Bitbucket workspace or project key
+  owner: string;
+  repo: string;
+  branch?: string;
+  path?: string;
+}
+
+type RepositoryPath = Pick<ParsedRepositoryUrl, 'owner' | 'repo' | 'branch' | 'path'>;
+
+function normalizeBaseUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      return null;
+    }
+    return `${parsed.origin}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The instance a host's token belongs to: the self-hosted one in
+ * GITLAB_BASE_URL / BITBUCKET_BASE_URL, or gitlab.com / bitbucket.org
+ */
+export function getConfiguredBaseUrl(host: SelfHostable): string {
+  const configured = process.env[BASE_URL_VARIABLES[host]];
+  return (configured && normalizeBaseUrl(configured)) || PUBLIC_BASE_URLS[host];
+}
+
+// URLs of the public instance are always accepted, read anonymously unless it's the configured one
+function getBaseUrls(host: SelfHostable): string[] {
+  return [...new Set([getConfiguredBaseUrl(host), PUBLIC_BASE_URLS[host]])];
+}
+
+export function isBitbucketCloud(baseUrl: string): boolean {
+  return new URL(baseUrl).host === 'bitbucket.org';
+}
+
+function stripGitSuffix(repo: string): string {
+  return repo.replace(/\.git$/, '');
+}
+
+function withBranchAndPath(repository: RepositoryPath, branch?: string, path?: string): RepositoryPath {
+  const normalizedPath = normalizeRepoPath(path || '');
+  return {
+    ...repository,
+    ...(branch && { branch }),
+    ...(normalizedPath && { path: normalizedPath }),
+  };
+}
+
+// group/subgroup/project[/-/tree/<ref>/<path>]
+function parseGitLabPath(segments: string[]): RepositoryPath | null {
+  const separator = segments.indexOf('-');
+  const project = separator === -1 ? segments : segments.slice(0, separator);
+  if (project.length < 2) {
+    return null;
+  }
+
+  const repository = { owner: project.slice(0, -1).join('/'), repo: stripGitSuffix(project[project.length - 1]) };
+  const [view, ref, ...path] = separator === -1 ? [] : segments.slice(separator + 1);
+  return view === 'tree' || view === 'blob' ? withBranchAndPath(repository, ref, path.join('/')) : repository;
+}
+
+// Bitbucket Cloud: workspace/repo[/src/<ref>/<path>]
+function parseBitbucketCloudPath(segments: string[]): RepositoryPath | null {
+  const [workspace, repo, view, ref, ...path] = segments;
+  if (!workspace || !repo) {
+    return null;
+  }
+
+  const repository = { owner: workspace, repo: stripGitSuffix(repo) };
+  return view === 'src' ? withBranchAndPath(repository, ref, path.join('/')) : repository;
+}
+
+// Bitbucket Data Center: projects/KEY/repos/slug[/browse/<path>][?at=refs/heads/<ref>],
+// users/<name>/repos/slug (personal repositories, project "~name") or scm/key/slug.git
+function parseBitbucketServerPath(segments: string[], query: URLSearchParams): RepositoryPath | null {
+  if (segments[0] === 'scm' && segments.length === 3) {
+    return { owner: segments[1].toUpperCase(), repo: stripGitSuffix(segments[2]) };
+  }
+
+  const [scope, key, repos, slug, view, ...path] = segments;
+  if ((scope !== 'projects' && scope !== 'users') || !key || repos !== 'repos' || !slug) {
+    return null;
+  }
+
+  const repository = { owner: scope === 'users' ? `~${key}` : key, repo: slug };
+  const ref = query.get('at')?.replace(/^refs\/(heads|tags)\//, '');
+  return withBranchAndPath(repository, ref || undefined, view === 'browse' ? path.join('/') : undefined);
+}
+
+/**
+ * Host, namespace and repository of a GitHub, GitLab or Bitbucket URL, with
+ * the ref and directory of tree/browse URLs. Self-hosted instances are only
+ * recognised at their configured base URL.
+ */
+export function parseRepositoryUrl(url: string): ParsedRepositoryUrl | null {
+  let parsed: URL | null = null;
+  try {
+    parsed = new URL(url);
+  } catch {
+    // "github.com/owner/repo" without a scheme is fine for GitHub
+  }
+
+  if (!parsed || parsed.host === 'github.com' || parsed.host === 'www.github.com') {
+    const github = parseGitHubRepoUrl(url);
+    return github && { host: 'github', ...github };
+  }
+
+  for (const host of ['gitlab', 'bitbucket'] as const) {
+    for (const baseUrl of getBaseUrls(host)) {
+      const base = new URL(baseUrl);
+      const basePath = base.pathname.replace(/\/+$/, '');
+      if (parsed.host !== base.host || (parsed.pathname !== basePath && !parsed.pathname.startsWith(`${basePath}/`))) {
+        continue;
+      }
+
+      let segments: string[];
+      try {
+        segments = parsed.pathname.slice(basePath.length).split('/').filter(Boolean).map(decodeURIComponent);
+      } catch {
+        // Malformed escapes, e.g. "%E0%A4%A"
+        return null;
+      }
+      const repository =
+        host === 'gitlab'
+          ? parseGitLabPath(segments)
+          : isBitbucketCloud(baseUrl)
+            ? parseBitbucketCloudPath(segments)
+            : parseBitbucketServerPath(segments, parsed.searchParams);
+
+      return repository && { host, baseUrl, ...repository };
+    }
+  }
+
+  return null;
+}
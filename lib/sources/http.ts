@@ -0,0 +1,53 @@
+import 'server-only';
+import {
+  GitHubApiError,
+  RateLimitError,
+  RepositoryAccessDeniedError,
+  retryWithBackoff,
+} from '@/lib/github/config';
+
+// Same as the GitHub client's request timeout
+const REQUEST_TIMEOUT_MS = 30000;
+
+interface HostRequestOptions {
+  headers: Record<string, string>;
+  // "owner/repo", for errors
+  repository: string;
+  // What a 404 means for this request: a missing repository, file, ref...
+  notFound: () => Error;
+  signal?: AbortSignal;
+}
+
+/**
+ * GET from a GitLab or Bitbucket API, retried like GitHub requests. Failures
+ * throw the same errors the GitHub client does, so the worker knows which
+ * ones are worth another attempt.
+ */
+export function hostRequest(url: string, { headers, repository, notFound, signal }: HostRequestOptions): Promise<Response> {
+  return retryWithBackoff(async () => {
+    const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+    const response = await fetch(url, {
+      headers: { 'User-Agent': 'detective-mongo-nextjs/1.0.0', ...headers },
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+
+    if (response.ok) {
+      return response;
+    }
+
+    // Only the status matters from here on
+    await response.body?.cancel();
+
+    if (response.status === 404) {
+      throw notFound();
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new RepositoryAccessDeniedError(repository);
+    }
+    if (response.status === 429) {
+      const retryAfter = Number(response.headers.get('retry-after')) || 60;
+      throw new RateLimitError(`Rate limited by ${new URL(url).host}`, new Date(Date.now() + retryAfter * 1000));
+    }
+    throw new GitHubApiError(`${new URL(url).host} answered ${response.status} for ${repository}`, response.status);
+  });
+}
@@ -0,0 +1,48 @@
+import 'server-only';
+import { getGitHubClientForUser } from '@/lib/github/user-access';
+import type { Podcast } from '@/lib/types';
+import { getBitbucketClient } from './bitbucket';
+import { getGitLabClient } from './gitlab';
+import { HostedSource } from './hosted';
+import { LocalSource, resolveLocalSourcePath } from './local';
+import type { RepositorySource } from './source';
+import { UploadSource } from './upload';
+
+export {
+  RepositorySourceError,
+  type ArchiveFile,
+  type RepositoryHostClient,
+  type RepositorySnapshot,
+  type RepositorySource,
+} from './source';
+export { HostedSource } from './hosted';
+export { parseRepositoryUrl, type ParsedRepositoryUrl, type RepositoryHost } from './hosts';
+
+/**
+ * Source a case's code is read from. GitHub repositories are read with the
+ * given user's token, if they connected one; GitLab and Bitbucket ones with
+ * the app's token for their instance.
+ */
+export async function getRepositorySource(
+  podcast: Pick<Podcast, 'repo_name' | 'source'>,
+  userId?: string
+): Promise<RepositorySource> {
+  // GitLab namespaces can be nested groups: "group/subgroup/project"
+  const separator = podcast.repo_name.lastIndexOf('/');
+  const owner = podcast.repo_name.slice(0, separator);
+  const repo = podcast.repo_name.slice(separator + 1);
+
+  switch (podcast.source?.kind) {
+    case 'local':
+      // Checked again, in case the allowed roots changed since the case was opened
+      return new LocalSource(await resolveLocalSourcePath(podcast.source.local_path));
+    case 'upload':
+      return new UploadSource(podcast.source.archive_id, podcast.source.file_name);
+    case 'gitlab':
+      return new HostedSource('gitlab', owner, repo, getGitLabClient(podcast.source.base_url));
+    case 'bitbucket':
+      return new HostedSource('bitbucket', owner, repo, getBitbucketClient(podcast.source.base_url));
+    default:
+      return new HostedSource('github', owner, repo, await getGitHubClientForUser(userId));
+  }
+}
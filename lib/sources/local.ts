@@ -0,0 +1,182 @@
+import 'server-only';
+import { createHash } from 'crypto';
+import { lstat, readdir, readFile, realpath, stat } from 'fs/promises';
+import { basename, isAbsolute, join, relative } from 'path';
+import { buildRepoStructure, type RepoStructure } from '@/lib/github/client';
+import { FETCH_CONFIG, PathNotFoundError } from '@/lib/github/config';
+import {
+  RepositorySourceError,
+  toSourceRepository,
+  type ArchiveFile,
+  type RepositorySnapshot,
+  type RepositorySource,
+} from './source';
+
+// Never descended into; they are excluded from the structure anyway
+const SKIPPED_DIRECTORIES = new Set(['node_modules', '.git', '.next', 'dist', 'build', 'out', 'coverage', 'target', 'vendor', '__pycache__']);
+
+// Stop walking huge trees instead of hanging the investigation
+const MAX_ENTRIES = 50_000;
+
+interface LocalEntry {
+  path: string;
+  type: 'file' | 'dir';
+  size: number;
+  modified: number;
+}
+
+/**
+ * Directories local investigations may read from: LOCAL_SOURCE_ROOTS,
+ * comma separated. None by default.
+ */
+export function getLocalSourceRoots(): string[] {
+  return (process.env.LOCAL_SOURCE_ROOTS || '')
+    .split(',')
+    .map((root) => root.trim())
+    .filter((root) => root && isAbsolute(root));
+}
+
+function isInside(directory: string, root: string): boolean {
+  const path = relative(root, directory);
+  return path === '' || (!path.startsWith('..') && !isAbsolute(path));
+}
+
+/**
+ * The real path of a directory under one of the allowed roots. Throws
+ * RepositorySourceError otherwise, symlinks out of a root included.
+ */
+export async function resolveLocalSourcePath(input: string): Promise<string> {
+  const roots = getLocalSourceRoots();
+  if (roots.length === 0) {
+    throw new RepositorySourceError('Local investigations are disabled. Set LOCAL_SOURCE_ROOTS to allow them.', 403);
+  }
+  if (!isAbsolute(input)) {
+    throw new RepositorySourceError('local_path must be an absolute path');
+  }
+
+  const directory = await realpath(input).catch(() => null);
+  if (!directory || !(await stat(directory)).isDirectory()) {
+    throw new RepositorySourceError(`No such directory: ${input}`, 404);
+  }
+
+  const realRoots = await Promise.all(roots.map((root) => realpath(root).catch(() => null)));
+  if (!realRoots.some((root) => root && isInside(directory, root))) {
+    throw new RepositorySourceError(`${input} is not under an allowed root`, 403);
+  }
+  return directory;
+}
+
+/**
+ * A directory on the server. Symlinks are never followed.
+ */
+export class LocalSource implements RepositorySource {
+  readonly kind = 'local';
+  readonly name: string;
+  private entries: Promise<LocalEntry[]> | null = null;
+
+  constructor(private directory: string) {
+    this.name = `local/${basename(directory)}`;
+  }
+
+  private listEntries(): Promise<LocalEntry[]> {
+    if (!this.entries) {
+      this.entries = this.walk().catch((error) => {
+        this.entries = null;
+        throw error;
+      });
+    }
+    return this.entries;
+  }
+
+  private async walk(): Promise<LocalEntry[]> {
+    const entries: LocalEntry[] = [];
+    const pending = [''];
+
+    while (pending.length > 0 && entries.length < MAX_ENTRIES) {
+      const dir = pending.pop()!;
+      for (const dirent of await readdir(join(this.directory, dir), { withFileTypes: true })) {
+        const path = dir ? `${dir}/${dirent.name}` : dirent.name;
+        if (dirent.isDirectory() && !SKIPPED_DIRECTORIES.has(dirent.name)) {
+          entries.push({ path, type: 'dir', size: 0, modified: 0 });
+          pending.push(path);
+        } else if (dirent.isFile()) {
+          const { size, mtimeMs } = await lstat(join(this.directory, path));
+          entries.push({ path, type: 'file', size, modified: mtimeMs });
+        }
+      }
+    }
+
+    if (entries.length >= MAX_ENTRIES) {
+      console.warn(`[Sources] ${this.directory} has over ${MAX_ENTRIES} entries, reading the first ones only`);
+    }
+    return entries.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async getSnapshot(): Promise<RepositorySnapshot> {
+    const entries = await this.listEntries();
+    const files = entries.filter((entry) => entry.type === 'file');
+
+    // No commits here: the snapshot is whatever the files were when listed
+    const digest = createHash('sha256');
+    for (const file of files) {
+      digest.update(`${file.path}\0${file.size}\0${file.modified}\n`);
+    }
+
+    const repository = toSourceRepository(
+      {
+        name: basename(this.directory),
+        owner: 'local',
+        url: `file://${this.directory}`,
+        lastUpdated: new Date(files.reduce((latest, file) => Math.max(latest, file.modified), 0)),
+      },
+      buildRepoStructure(entries)
+    );
+    return { repository, contributors: [], commitSha: digest.digest('hex').slice(0, 40) };
+  }
+
+  async getStructure(_ref?: string, options?: { path?: string }): Promise<RepoStructure> {
+    const structure = buildRepoStructure(await this.listEntries(), options?.path);
+    if (options?.path && structure.files.length === 0) {
+      throw new PathNotFoundError(this.name, options.path);
+    }
+    return structure;
+  }
+
+  async readFiles(_ref: string, keep: (path: string, size: number) => boolean, signal?: AbortSignal): Promise<ArchiveFile[]> {
+    const files: ArchiveFile[] = [];
+
+    for (const { path, type, size } of await this.listEntries()) {
+      signal?.throwIfAborted();
+      if (type !== 'file') {
+        continue;
+      }
+      if (!keep(path, size)) {
+        files.push({ path, size });
+        continue;
+      }
+
+      const data = await readFile(join(this.directory, path));
+      // Binary files that slipped through the filter are listed without content
+      files.push({ path, size, ...(!data.includes(0) && { content: data.toString('utf8') }) });
+    }
+
+    return files;
+  }
+
+  async readFile(path: string): Promise<string> {
+    // Resolved, so a symlinked directory can't lead out of the source either
+    const file = await realpath(join(this.directory, path)).catch(() => null);
+    if (file && !isInside(file, this.directory)) {
+      throw new RepositorySourceError(`Not a file of ${this.name}: ${path}`);
+    }
+
+    const info = file ? await lstat(file) : null;
+    if (!file || !info?.isFile()) {
+      throw new RepositorySourceError(`File not found: ${path}`, 404);
+    }
+    if (info.size > FETCH_CONFIG.MAX_FILE_SIZE) {
+      throw new RepositorySourceError(`File too large: ${info.size} bytes (max: ${FETCH_CONFIG.MAX_FILE_SIZE})`, 413);
+    }
+    return readFile(file, 'utf8');
+  }
+}
@@ -0,0 +1,116 @@
+import type { FileNode, GitHubRepo, RepoStructure } from '@/lib/github/client';
+import type { ArchiveFile } from '@/lib/github/tarball';
+import type { GitHubCommit, GitHubLanguages } from '@/lib/github/types';
+import type { RepositorySourceKind } from '@/lib/types';
+
+export type { ArchiveFile };
+
+/**
+ * Metadata of a repository, pinned to one snapshot of it
+ */
+export interface RepositorySnapshot {
+  // GitHub-shaped whatever the source, so every later step reads it the same way
+  repository: GitHubRepo;
+  contributors: string[];
+  // Commit SHA, or a digest of the files for sources without commits
+  commitSha: string;
+}
+
+/**
+ * Where the code of a case is read from: a GitHub, GitLab or Bitbucket
+ * repository, a directory on the server or an uploaded archive. The fetcher
+ * and the case page only talk to this.
+ */
+export interface RepositorySource {
+  readonly kind: RepositorySourceKind;
+  // e.g. "acme/api", for logs
+  readonly name: string;
+
+  getSnapshot(ref?: string, signal?: AbortSignal): Promise<RepositorySnapshot>;
+
+  getStructure(ref?: string, options?: { path?: string; signal?: AbortSignal }): Promise<RepoStructure>;
+
+  // Every file at once, with the content of those `keep` accepts
+  readFiles(
+    ref: string,
+    keep: (path: string, size: number) => boolean,
+    signal?: AbortSignal
+  ): Promise<ArchiveFile[]>;
+
+  readFile(path: string, ref?: string, signal?: AbortSignal): Promise<string>;
+}
+
+/**
+ * API of a code host: GitHubClient, GitLabClient or BitbucketClient. Results
+ * come back GitHub-shaped; owner is the namespace the repository sits in
+ * (a GitLab group path, a Bitbucket workspace or project key).
+ */
+export interface RepositoryHostClient {
+  getRepository(owner: string, repo: string): Promise<GitHubRepo>;
+
+  getRepoStructure(
+    owner: string,
+    repo: string,
+    ref?: string,
+    options?: { path?: string; signal?: AbortSignal }
+  ): Promise<RepoStructure>;
+
+  getFileContent(owner: string, repo: string, path: string, ref?: string, signal?: AbortSignal): Promise<string>;
+
+  getRecentCommits(owner: string, repo: string, limit?: number, ref?: string): Promise<GitHubCommit[]>;
+
+  getLanguages(owner: string, repo: string): Promise<GitHubLanguages>;
+
+  getContributors(owner: string, repo: string): Promise<string[]>;
+
+  resolveCommitSha(owner: string, repo: string, ref: string): Promise<string>;
+
+  // Gzipped, with every file under one top-level directory
+  getTarball(owner: string, repo: string, ref: string, signal?: AbortSignal): Promise<ReadableStream<Uint8Array>>;
+}
+
+/**
+ * Error Types
+ */
+export class RepositorySourceError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'RepositorySourceError';
+  }
+}
+
+/**
+ * GitHub-shaped metadata for sources that only have files
+ */
+export function toSourceRepository(
+  { name, owner, url, lastUpdated }: { name: string; owner: string; url: string; lastUpdated: Date },
+  structure: RepoStructure
+): GitHubRepo {
+  const [language] = Object.entries(structure.languages).sort(([, a], [, b]) => b - a)[0] ?? [''];
+
+  return {
+    name,
+    fullName: `${owner}/${name}`,
+    description: '',
+    stars: 0,
+    language,
+    size: Math.round(structure.totalSize / 1024),
+    lastUpdated: lastUpdated.toISOString(),
+    defaultBranch: owner,
+    owner,
+    url,
+    // Code that isn't on GitHub is nobody else's business
+    isPrivate: true,
+    topics: [],
+  };
+}
+
+/**
+ * Leading directories every file shares, e.g. 1 for an archive of "project/"
+ */
+export function countSharedTopLevel(files: Pick<FileNode, 'path'>[]): number {
+  const [first] = files;
+  const top = first?.path.split('/')[0];
+  const shared = !!top && first.path.includes('/') && files.every((file) => file.path.startsWith(`${top}/`));
+  return shared ? 1 : 0;
+}
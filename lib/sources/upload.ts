@@ -0,0 +1,267 @@
+import 'server-only';
+import { createHash } from 'crypto';
+import { Binary } from 'mongodb';
+import { getCollection } from '@/lib/mongodb';
+import { buildRepoStructure, type RepoStructure } from '@/lib/github/client';
+import { PathNotFoundError } from '@/lib/github/config';
+import { extractTarball, stripPathComponents } from '@/lib/github/tarball';
+import { AnalysisStatus } from '@/lib/types';
+import {
+  RepositorySourceError,
+  countSharedTopLevel,
+  toSourceRepository,
+  type ArchiveFile,
+  type RepositorySnapshot,
+  type RepositorySource,
+} from './source';
+import { extractZip } from './zip';
+
+// An archive is stored in one Mongo document, which can't exceed 16MB
+export const MAX_UPLOAD_BYTES = 12 * 1024 * 1024;
+
+// Archives no case points to are an upload whose analysis never started
+const UNCLAIMED_ARCHIVE_TTL_MS = 60 * 60 * 1000;
+
+// A failed or cancelled case keeps its archive this long, so it can still be retried
+const ENDED_CASE_ARCHIVE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// purgeStaleArchives does its sweep at most this often per process
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+const ARCHIVE_EXTENSIONS: Record<string, ArchiveFormat> = {
+  '.zip': 'zip',
+  '.tar.gz': 'tar.gz',
+  '.tgz': 'tar.gz',
+};
+
+export interface SourceArchive {
+  id: string;
+  owner_id: string;
+  file_name: string;
+  format: ArchiveFormat;
+  // Identifies the snapshot, like a commit SHA
+  sha256: string;
+  size: number;
+  created_at: Date;
+}
+
+let indexesReady: Promise<void> | null = null;
+
+async function getArchivesCollection() {
+  const collection = await getCollection('source_archives');
+
+  if (!indexesReady) {
+    indexesReady = (async () => {
+      await collection.createIndex({ id: 1 }, { unique: true });
+      await collection.createIndex({ owner_id: 1, created_at: -1 });
+    })().catch((error) => {
+      indexesReady = null;
+      throw error;
+    });
+  }
+  await indexesReady;
+
+  return collection;
+}
+
+/**
+ * Format of an upload from its name and first bytes, or null if it's neither
+ */
+export function detectArchiveFormat(fileName: string, data: Buffer): ArchiveFormat | null {
+  const extension = Object.keys(ARCHIVE_EXTENSIONS).find((ext) => fileName.toLowerCase().endsWith(ext));
+  const format = extension ? ARCHIVE_EXTENSIONS[extension] : null;
+
+  if (format === 'zip' && data.length >= 4 && data.readUInt32LE(0) === 0x04034b50) {
+    return format;
+  }
+  if (format === 'tar.gz' && data[0] === 0x1f && data[1] === 0x8b) {
+    return format;
+  }
+  return null;
+}
+
+// "acme-api.tar.gz" -> "acme-api"
+export function archiveBaseName(fileName: string): string {
+  const name = fileName.split(/[\\/]/).pop() || 'upload';
+  const extension = Object.keys(ARCHIVE_EXTENSIONS).find((ext) => name.toLowerCase().endsWith(ext));
+  return (extension ? name.slice(0, -extension.length) : name) || 'upload';
+}
+
+/**
+ * Keep an uploaded archive for the investigation (and the evidence locker after it)
+ */
+export async function saveSourceArchive(
+  ownerId: string,
+  fileName: string,
+  format: ArchiveFormat,
+  data: Buffer
+): Promise<SourceArchive> {
+  const collection = await getArchivesCollection();
+  const archive: SourceArchive = {
+    id: crypto.randomUUID(),
+    owner_id: ownerId,
+    file_name: fileName,
+    format,
+    sha256: createHash('sha256').update(data).digest('hex'),
+    size: data.length,
+    created_at: new Date(),
+  };
+
+  await collection.insertOne({ ...archive, data: new Binary(data) });
+  console.log(`[Sources] Stored ${fileName} (${data.length} bytes) as archive ${archive.id}`);
+  return archive;
+}
+
+/**
+ * Drop an archive, e.g. when the analysis it was uploaded for couldn't start
+ */
+export async function deleteSourceArchive(id: string): Promise<void> {
+  const collection = await getArchivesCollection();
+  await collection.deleteOne({ id });
+}
+
+let lastPurge = 0;
+
+/**
+ * Delete the archives no case needs any more: those of deleted cases, of
+ * cases that failed or were cancelled a week ago, and uploads that never
+ * became a case. Returns how many were deleted.
+ */
+export async function purgeStaleArchives(): Promise<number> {
+  const now = Date.now();
+  if (now - lastPurge < PURGE_INTERVAL_MS) {
+    return 0;
+  }
+  lastPurge = now;
+
+  const archives = await getArchivesCollection();
+  const candidates = await archives
+    .find({ created_at: { $lt: new Date(now - UNCLAIMED_ARCHIVE_TTL_MS) } }, { projection: { id: 1 } })
+    .map((archive) => archive.id as string)
+    .toArray();
+  if (candidates.length === 0) {
+    return 0;
+  }
+
+  const podcasts = await getCollection('podcasts');
+  const kept = await podcasts
+    .find(
+      {
+        'source.archive_id': { $in: candidates },
+        $or: [
+          { status: { $nin: [AnalysisStatus.FAILED, AnalysisStatus.CANCELLED] } },
+          { created_at: { $gte: new Date(now - ENDED_CASE_ARCHIVE_TTL_MS) } },
+        ],
+      },
+      { projection: { 'source.archive_id': 1 } }
+    )
+    .map((podcast) => podcast.source.archive_id as string)
+    .toArray();
+
+  const keptIds = new Set(kept);
+  const stale = candidates.filter((id) => !keptIds.has(id));
+  if (stale.length === 0) {
+    return 0;
+  }
+
+  const { deletedCount } = await archives.deleteMany({ id: { $in: stale } });
+  console.log(`[Sources] Deleted ${deletedCount} archives no case needs any more`);
+  return deletedCount;
+}
+
+/**
+ * An archive posted to /api/analyze/upload
+ */
+export class UploadSource implements RepositorySource {
+  readonly kind = 'upload';
+  readonly name: string;
+  private loaded: Promise<{ archive: SourceArchive; data: Buffer; files: ArchiveFile[]; strip: number }> | null = null;
+
+  constructor(
+    private archiveId: string,
+    fileName: string
+  ) {
+    this.name = `upload/${archiveBaseName(fileName)}`;
+  }
+
+  private extract(
+    archive: SourceArchive,
+    data: Buffer,
+    keep: (path: string, size: number) => boolean,
+    stripComponents: number,
+    signal?: AbortSignal
+  ): Promise<ArchiveFile[]> {
+    if (archive.format === 'zip') {
+      return Promise.resolve(extractZip(data, { keep, stripComponents }));
+    }
+    return extractTarball(new Blob([new Uint8Array(data)]).stream(), { keep, stripComponents, signal });
+  }
+
+  // The archive and its listing, without the directory everything sits in (if any)
+  private load() {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const collection = await getArchivesCollection();
+        const document = await collection.findOne({ id: this.archiveId });
+        if (!document) {
+          throw new RepositorySourceError(`Uploaded archive ${this.archiveId} no longer exists`, 404);
+        }
+
+        const { data: binary, ...archive } = document as unknown as SourceArchive & { data: Binary };
+        const data = Buffer.from(binary.buffer);
+        const listing = await this.extract(archive, data, () => false, 0);
+        const strip = countSharedTopLevel(listing);
+        const files = listing
+          .map((file) => ({ ...file, path: stripPathComponents(file.path, strip) }))
+          .sort((a, b) => a.path.localeCompare(b.path));
+        return { archive, data, files, strip };
+      })().catch((error) => {
+        this.loaded = null;
+        throw error;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async toStructure(path?: string): Promise<RepoStructure> {
+    const { files } = await this.load();
+    return buildRepoStructure(files.map(({ path, size }) => ({ path, size, type: 'file' as const })), path);
+  }
+
+  async getSnapshot(): Promise<RepositorySnapshot> {
+    const { archive } = await this.load();
+    const repository = toSourceRepository(
+      {
+        name: archiveBaseName(archive.file_name),
+        owner: 'upload',
+        url: '',
+        lastUpdated: archive.created_at,
+      },
+      await this.toStructure()
+    );
+    return { repository, contributors: [], commitSha: archive.sha256.slice(0, 40) };
+  }
+
+  async getStructure(_ref?: string, options?: { path?: string }): Promise<RepoStructure> {
+    const structure = await this.toStructure(options?.path);
+    if (options?.path && structure.files.length === 0) {
+      throw new PathNotFoundError(this.name, options.path);
+    }
+    return structure;
+  }
+
+  async readFiles(_ref: string, keep: (path: string, size: number) => boolean, signal?: AbortSignal): Promise<ArchiveFile[]> {
+    const { archive, data, strip } = await this.load();
+    return this.extract(archive, data, keep, strip, signal);
+  }
+
+  async readFile(path: string): Promise<string> {
+    const [file] = (await this.readFiles('', (candidate) => candidate === path)).filter((entry) => entry.path === path);
+    if (file?.content === undefined) {
+      throw new RepositorySourceError(`File not found: ${path}`, 404);
+    }
+    return file.content;
+  }
+}
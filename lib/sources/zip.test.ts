@@ -0,0 +1,93 @@
+import { deflateRawSync } from 'zlib';
+import { describe, expect, it, vi } from 'vitest';
+import { detectArchiveFormat } from './upload';
+import { ZipFormatError, extractZip } from './zip';
+
+vi.mock('@/lib/mongodb', () => ({
+  getCollection: () => Promise.reject(new Error('no database in tests')),
+}));
+
+// Minimal zip writer: local headers and data, the central directory, the end record
+function zip(entries: { name: string; content?: string | Buffer; deflate?: boolean }[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const { name, content = '', deflate = false } of entries) {
+    const data = Buffer.from(content);
+    const stored = deflate ? deflateRawSync(data) : data;
+    const fileName = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(deflate ? 8 : 0, 8);
+    local.writeUInt32LE(stored.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(0x800, 8);
+    central.writeUInt16LE(deflate ? 8 : 0, 10);
+    central.writeUInt32LE(stored.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, fileName, stored);
+    centrals.push(central, fileName);
+    offset += local.length + fileName.length + stored.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+describe('extractZip', () => {
+  const archive = zip([
+    { name: 'acme-api/' },
+    { name: 'acme-api/src/index.ts', content: 'export const answer = 42;\n', deflate: true },
+    { name: 'acme-api/README.md', content: '# acme' },
+    { name: 'acme-api/logo.png', content: Buffer.from([0x89, 0x50, 0x00, 0x47]) },
+    { name: 'acme-api/../escape.ts', content: 'nope' },
+  ]);
+
+  it('lists every file and inflates the wanted ones only', () => {
+    expect(extractZip(archive, { keep: (path) => path !== 'README.md', stripComponents: 1 })).toEqual([
+      { path: 'src/index.ts', size: 26, content: 'export const answer = 42;\n' },
+      { path: 'README.md', size: 6 },
+      // Binary files are listed without content
+      { path: 'logo.png', size: 4 },
+    ]);
+  });
+
+  it('refuses what is not a zip archive', () => {
+    expect(() => extractZip(Buffer.from('just some text, long enough for an end record'), { keep: () => true })).toThrow(
+      ZipFormatError
+    );
+  });
+});
+
+describe('detectArchiveFormat', () => {
+  const gzip = Buffer.from([0x1f, 0x8b, 0x08, 0x00]);
+  const pkzip = zip([{ name: 'a.txt', content: 'a' }]);
+
+  it('needs both the extension and the magic bytes to agree', () => {
+    expect(detectArchiveFormat('acme-api.zip', pkzip)).toBe('zip');
+    expect(detectArchiveFormat('acme-api.TAR.GZ', gzip)).toBe('tar.gz');
+    expect(detectArchiveFormat('acme-api.tgz', gzip)).toBe('tar.gz');
+    expect(detectArchiveFormat('acme-api.zip', gzip)).toBeNull();
+    expect(detectArchiveFormat('acme-api.rar', pkzip)).toBeNull();
+  });
+
+  it('refuses uploads too short to hold the magic bytes', () => {
+    expect(detectArchiveFormat('tiny.zip', Buffer.from('PK'))).toBeNull();
+    expect(detectArchiveFormat('tiny.tgz', Buffer.alloc(0))).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+import 'server-only';
+import { inflateRawSync } from 'zlib';
+import { stripPathComponents, type ArchiveFile, type ExtractOptions } from '@/lib/github/tarball';
+
+/**
+ * Reader for .zip archives held in memory. Only entries the caller keeps are
+ * inflated, each capped at the size its header declares.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// The end record is 22 bytes plus a comment of up to 64KB
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+/**
+ * Error Types
+ */
+export class ZipFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipFormatError';
+  }
+}
+
+function findEndOfCentralDirectory(zip: Buffer): number {
+  const stop = Math.max(0, zip.length - MAX_END_RECORD_SEARCH);
+  for (let offset = zip.length - 22; offset >= stop; offset--) {
+    if (zip.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+  throw new ZipFormatError('Not a zip archive');
+}
+
+/**
+ * List every file of a zip archive, with the content of those `keep` accepts
+ */
+export function extractZip(zip: Buffer, { keep, stripComponents = 0 }: Omit<ExtractOptions, 'signal'>): ArchiveFile[] {
+  const end = findEndOfCentralDirectory(zip);
+  const entryCount = zip.readUInt16LE(end + 10);
+  let offset = zip.readUInt32LE(end + 16);
+
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new ZipFormatError('Zip64 archives are not supported');
+  }
+
+  const files: ArchiveFile[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > zip.length || zip.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new ZipFormatError('Corrupt central directory');
+    }
+
+    const flags = zip.readUInt16LE(offset + 8);
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const headerOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString(flags & 0x800 ? 'utf8' : 'latin1', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const path = stripPathComponents(name.replace(/\\/g, '/'), stripComponents);
+    // Directories end in "/"; encrypted entries (flag bit 0) can't be read
+    if (!path || name.endsWith('/') || path.split('/').includes('..')) {
+      continue;
+    }
+    if (flags & 0x1 || (method !== STORED && method !== DEFLATED) || !keep(path, size)) {
+      files.push({ path, size });
+      continue;
+    }
+
+    if (zip.readUInt32LE(headerOffset) !== LOCAL_FILE_HEADER) {
+      throw new ZipFormatError(`Corrupt entry: ${name}`);
+    }
+    const dataStart = headerOffset + 30 + zip.readUInt16LE(headerOffset + 26) + zip.readUInt16LE(headerOffset + 28);
+    const compressed = zip.subarray(dataStart, dataStart + compressedSize);
+
+    // Declared sizes bound the output, so a zip bomb stops at what the filter agreed to
+    let data: Buffer;
+    try {
+      data = method === STORED ? compressed : inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) });
+    } catch (error) {
+      console.warn(`[Sources] Skipping unreadable zip entry ${name}:`, error instanceof Error ? error.message : error);
+      files.push({ path, size });
+      continue;
+    }
+    files.push({ path, size, ...(!data.includes(0) && { content: data.toString('utf8') }) });
+  }
+
+  return files;
+}
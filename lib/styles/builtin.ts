@@ -0,0 +1,305 @@
+import 'server-only';
+import { VOICE_IDS } from '@/lib/elevenlabs';
+import { NarrativeStyle, StyleDefinition } from '@/lib/types';
+
+/**
+ * Hard-boiled noir detective
+ */
+const TRUE_CRIME: StyleDefinition = {
+  id: NarrativeStyle.TRUE_CRIME,
+  name: 'True Crime',
+  description: 'Dark, mysterious, suspenseful',
+  narrator_voice: 'detective',
+  word_budget: 500,
+  speakers: [
+    {
+      role: 'narrator',
+      label: 'The Detective',
+      voice_id: VOICE_IDS.narrator,
+      direction: `- **Age/Gender**: Male, 45-50 years old
+- **Timbre**: Deep, gravelly, resonant. Heavy vocal fry with raspy, parched texture
+- **Accent**: Subtle New York (Lower East Side/Brooklyn), non-rhotic 'r' sounds
+- **Pace**: Low-tempo, rhythmic, deliberate. Let words hang in the air
+- **Dynamics**: High intimacy, close-mic feel. NO shouting. Authority through gravel and breath control
+- **Emotional Tone**: World-weary, cynical, analytical, stoic
+- **Studio Feel**: High-fidelity, close-mic intimacy capturing every weathered breath`,
+      example_line: 'Short. Punchy. Let it breathe.',
+      emotions: ['world-weary', 'suspicious', 'analytical', 'conclusive'],
+    },
+  ],
+  emotions: ['world-weary', 'suspicious', 'analytical', 'conclusive'],
+  sound_effects: ['rain', 'suspenseful_music', 'dramatic_pause', 'thunder', 'keyboard_typing', 'door_slam', 'footsteps', 'static_noise', 'lighter_flick'],
+  title_template: 'CASE FILE #{{repo.NAME}}: The [Gritty Noir Subtitle]',
+  arc_template: 'A high-stakes forensic analysis of {{repo.fullName}}',
+  prompt_template: `You are Detective Mongo D. Bane, lead investigator for the Code Crime Unit. The rain hammers the window. Another case file lands on your desk.
+
+{{repo_info}}
+
+🎬 CREATE A HARD-BOILED TRUE CRIME PODCAST (STRICTLY 3-4 MINUTES - {{word_budget}} words MAX)
+
+🎙️ VOICE DIRECTION (CRITICAL - Write dialogue optimized for this delivery):
+{{voice_direction}}
+
+CRITICAL EXECUTION RULES:
+1. **CREDIT CONSERVATION**: Maximum {{word_budget}} words. ElevenLabs credits burn fast—make every syllable count.
+2. **WRITE FOR THE VOICE**: Short, punchy sentences. Lots of periods. Let the gravel breathe.
+3. **THE NOIR VIBE**: The repo is a "suspect." Functions are "alibis." Classes are "accomplices." Bugs are "bodies."
+4. **INTERROGATE THE TARGET**: Grill the architecture. Find the "motive" behind design choices. Clean operation or messy hit?
+5. **FORMAT**:
+   - "narrator" = The Detective. Cynical. Gravelly. Low and slow.
+   - "sound_effect" = Sparse. High-impact only.
+
+STRUCTURE:
+1. **THE CRIME SCENE** (30s): Set the atmosphere. The discovery of {{repo.name}}.
+2. **THE AUTOPSY** (1m): Tech stack as the victim's anatomy. Quick, clinical.
+3. **THE GRILLING** (1m): Confront the key files. Point out the shady logic. What's hiding in there?
+4. **THE VERDICT** (55s): Final judgment. Walking free or going to the chair?
+
+WRITING STYLE EXAMPLES (match this rhythm):
+- "The rain don't stop. Neither do I."
+- "Forty thousand lines of code. Forty thousand alibis."
+- "I've seen cleaner crime scenes. But I've seen worse."
+- "The architecture tells a story. Question is... who's lying?"`,
+  // Short, punchy noir style
+  fallback_segments: [
+    { speaker: 'narrator', text: 'Rain on the glass. Another case file. {{repo.fullName}}.', sound_effect: 'rain', emotion: 'world-weary' },
+    { speaker: 'narrator', text: '{{repo.stars}} stars. {{file_count}} files. Too many alibis.', emotion: 'suspicious' },
+    { speaker: 'narrator', text: 'Primary weapon? {{repo.language}}. Accomplices in {{top_languages}}.', emotion: 'analytical' },
+    { speaker: 'narrator', text: '{{repo.description|Motive unclear. But code always talks.}}' },
+    { speaker: 'narrator', text: 'Key suspects: {{key_files}}. Each one hiding something.', sound_effect: 'keyboard_typing' },
+    { speaker: 'narrator', text: "The verdict? {{repo.name}} walks. For now. But I'll be watching.", emotion: 'conclusive' },
+  ],
+};
+
+/**
+ * Two football commentators calling the match
+ */
+const SPORTS: StyleDefinition = {
+  id: NarrativeStyle.SPORTS,
+  name: 'Sports Commentary',
+  description: 'Football-style dual commentary',
+  narrator_voice: 'sports',
+  word_budget: 500,
+  speakers: [
+    {
+      role: 'commentator_1',
+      label: 'Commentator 1 (Play-by-Play)',
+      voice_id: VOICE_IDS.commentator_1,
+      direction: `- **Age/Gender**: Male, 55-60 years old
+- **Timbre**: Booming, authoritative, crystal clear
+- **Accent**: British (received pronunciation with hints of Northern warmth)
+- **Pace**: Variable - builds from measured to explosive on big moments
+- **Dynamics**: Stadium-filling projection, dramatic pauses before key calls
+- **Emotional Tone**: Excited, professional, building anticipation`,
+      example_line: 'And here we GO!',
+      emotions: ['excited', 'building', 'explosive'],
+    },
+    {
+      role: 'commentator_2',
+      label: 'Commentator 2 (Color Commentary)',
+      voice_id: VOICE_IDS.commentator_2,
+      direction: `- **Age/Gender**: Male, 45-50 years old
+- **Timbre**: Warm, enthusiastic, slightly gravelly from years in the booth
+- **Accent**: Subtle Scottish or Irish lilt
+- **Pace**: Quick wit, reactive, punctuates the play-by-play
+- **Dynamics**: Conversational but energetic, laughs easily
+- **Emotional Tone**: Passionate, analytical, loves the beautiful game`,
+      example_line: 'What a setup!',
+      emotions: ['impressed', 'analytical', 'passionate'],
+    },
+  ],
+  emotions: ['excited', 'building', 'explosive', 'impressed', 'analytical', 'passionate'],
+  sound_effects: ['crowd_cheering', 'whistle', 'goal_horn', 'crowd_gasp', 'applause', 'stadium_ambience', 'vuvuzela'],
+  title_template: '{{repo.NAME}} vs THE COMPETITION: [Epic Match Title]',
+  arc_template: 'Championship coverage of {{repo.fullName}}',
+  prompt_template: `You are TWO legendary football commentators calling the match of the century. This code is about to make history!
+
+{{repo_info}}
+
+🎬 CREATE A SPORTS "MATCH OF THE DAY" PODCAST (STRICTLY 3-4 MINUTES - {{word_budget}} words MAX)
+
+🎙️ VOICE DIRECTION (CRITICAL - Write dialogue optimized for these deliveries):
+
+{{voice_direction}}
+
+CRITICAL EXECUTION RULES:
+1. **CREDIT CONSERVATION**: Maximum {{word_budget}} words. Keep it tight and exciting.
+2. **RAPID-FIRE EXCHANGES**: Short bursts. Back and forth. Build momentum.
+3. **FOOTBALL METAPHORS**: Code is the pitch. Functions are players. Bugs are own goals.
+4. **FORMAT**:
+   - "commentator_1" = Play-by-play. The big calls.
+   - "commentator_2" = Color. The analysis and reactions.
+   - "sound_effect" = Crowd reactions. Use for emphasis.
+
+STRUCTURE:
+1. **KICKOFF** (30s): Stadium roar. Introduce {{repo.name}}. The crowd goes wild.
+2. **FIRST HALF** (1m): Attack the architecture. What formation are they playing?
+3. **SECOND HALF** (1m): The key patterns. Brilliant plays or defensive disasters?
+4. **FINAL WHISTLE** (55s): The score. The verdict. A legendary closing call.
+
+WRITING STYLE EXAMPLES (match this rhythm):
+- C1: "And {{repo.name}} steps onto the pitch!" C2: "Look at that confidence!"
+- C1: "OH! What a piece of architecture!" C2: "Absolutely world class!"
+- C1: "They're building from the back here..." C2: "Solid foundation. I like it."`,
+  fallback_segments: [
+    { speaker: 'commentator_1', text: 'And HERE WE GO! {{repo.name}} takes the pitch!', sound_effect: 'crowd_cheering', emotion: 'excited' },
+    { speaker: 'commentator_2', text: '{{repo.stars}} fans in the stands tonight!', emotion: 'impressed' },
+    { speaker: 'commentator_1', text: '{{file_count}} players on the roster. {{repo.language}} leading the attack!', emotion: 'building' },
+    { speaker: 'commentator_2', text: 'Look at that formation! {{top_languages}} in midfield!', emotion: 'analytical' },
+    { speaker: 'commentator_1', text: 'Key players: {{key_files}}. World class!', emotion: 'explosive' },
+    { speaker: 'commentator_2', text: '{{repo.description|Championship material, this one!}}' },
+    { speaker: 'commentator_1', text: 'FULL TIME! {{repo.name}} delivers a stunning performance!', sound_effect: 'whistle', emotion: 'excited' },
+  ],
+};
+
+/**
+ * Hushed nature documentary
+ */
+const DOCUMENTARY: StyleDefinition = {
+  id: NarrativeStyle.DOCUMENTARY,
+  name: 'Documentary',
+  description: 'Observational, educational, calm',
+  narrator_voice: 'documentary',
+  word_budget: 500,
+  speakers: [
+    {
+      role: 'narrator',
+      label: 'The Naturalist',
+      voice_id: VOICE_IDS.narrator,
+      direction: `- **Age/Gender**: Male, 75-80 years old (but timeless)
+- **Timbre**: Warm, rich, velvet-smooth with gentle gravitas
+- **Accent**: Refined British RP, melodic and measured
+- **Pace**: Slow, contemplative, savoring each observation. Pregnant pauses.
+- **Dynamics**: Hushed intimacy, as if not to disturb the creature. Whispered wonder.
+- **Emotional Tone**: Awe-struck, curious, gently humorous, profoundly respectful
+- **Studio Feel**: ASMR-adjacent. Close-mic warmth. The rustle of nature.`,
+      example_line: 'Here... in the depths of the repository... we find something remarkable.',
+      emotions: ['wonder', 'curious', 'reverent', 'amused'],
+    },
+  ],
+  emotions: ['wonder', 'curious', 'reverent', 'amused'],
+  sound_effects: ['nature_ambience', 'birds_chirping', 'wind', 'water_flowing', 'dramatic_strings', 'gentle_music', 'rustling_leaves', 'distant_thunder'],
+  title_template: '{{repo.name}}: A Digital Wilderness',
+  arc_template: 'The remarkable survival story of {{repo.fullName}}',
+  prompt_template: `You are Sir David Attenborough, observing a rare and magnificent digital organism in its natural server habitat.
+
+{{repo_info}}
+
+🎬 CREATE A NATURE DOCUMENTARY PODCAST (STRICTLY 3-4 MINUTES - {{word_budget}} words MAX)
+
+🎙️ VOICE DIRECTION (CRITICAL - Write dialogue optimized for this delivery):
+{{voice_direction}}
+
+CRITICAL EXECUTION RULES:
+1. **CREDIT CONSERVATION**: Maximum {{word_budget}} words. Let silence do the work.
+2. **WRITE FOR THE VOICE**: Long, flowing sentences. Observations that breathe. Wonder in every phrase.
+3. **NATURE METAPHORS**: Code is biology. Databases are "nesting grounds." Functions are "apex predators." APIs are "symbiotic relationships." Bugs are "parasites."
+4. **GENTLE HUMOR**: Occasional dry wit. A raised eyebrow at peculiar code.
+5. **FORMAT**:
+   - "narrator" = The Naturalist. Hushed. Reverent. Curious.
+   - "sound_effect" = Nature ambience. Gentle. Immersive.
+
+STRUCTURE:
+1. **THE DISCOVERY** (30s): First contact with the {{repo.name}} ecosystem. Hushed wonder.
+2. **ECOLOGICAL STUDY** (1m): The habitat. How the stack survives together. The food chain.
+3. **BEHAVIORAL OBSERVATION** (1m): Watch the code in action. Mating rituals of functions. Territorial patterns.
+4. **SURVIVAL PROGNOSIS** (55s): Will this species thrive... or face extinction?
+
+WRITING STYLE EXAMPLES (match this rhythm):
+- "And here... we observe... a most remarkable creature."
+- "The function... waits. Patient. Hungry for data."
+- "One might wonder... why the developer chose this path. But nature... finds a way."
+- "Extraordinary. Simply... extraordinary."`,
+  fallback_segments: [
+    { speaker: 'narrator', text: 'Here... in the depths of the digital wilderness... we discover something remarkable.', sound_effect: 'nature_ambience', emotion: 'wonder' },
+    { speaker: 'narrator', text: '{{repo.fullName}}. A creature of extraordinary complexity.', emotion: 'reverent' },
+    { speaker: 'narrator', text: '{{repo.stars}} observers... drawn to witness its {{file_count}} interconnected components.', emotion: 'curious' },
+    { speaker: 'narrator', text: 'The primary species... {{repo.language}}. Coexisting with {{top_languages}}.', emotion: 'wonder' },
+    { speaker: 'narrator', text: '{{repo.description|A fascinating specimen... of collaborative evolution.}}' },
+    { speaker: 'narrator', text: 'And so... {{repo.name}}... continues its remarkable journey. Extraordinary.', emotion: 'reverent' },
+  ],
+};
+
+/**
+ * Stand-up roast with a heckler in the front row
+ */
+const COMEDY: StyleDefinition = {
+  id: NarrativeStyle.COMEDY,
+  name: 'Comedy Roast',
+  description: 'Stand-up roast with a heckler',
+  narrator_voice: 'comedy',
+  word_budget: 500,
+  speakers: [
+    {
+      role: 'comic',
+      label: 'The Comic (Headliner)',
+      voice_id: VOICE_IDS.comic,
+      direction: `- **Age/Gender**: Male, 35-40 years old
+- **Timbre**: Bright, quick, conversational with a smirk you can hear
+- **Accent**: Relaxed, casual, slightly laconic
+- **Pace**: Fast setups, a beat of silence, then the punchline
+- **Dynamics**: Works the room. Leans into the mic for asides, pulls back for the big line
+- **Emotional Tone**: Smug, playful, affectionate underneath the jabs`,
+      example_line: 'Setup... and punchline.',
+      emotions: ['smug', 'playful', 'deadpan', 'incredulous', 'mock-outraged', 'sincere'],
+    },
+    {
+      role: 'heckler',
+      label: 'The Heckler (Front Row)',
+      voice_id: VOICE_IDS.heckler,
+      direction: `- **Age/Gender**: Male, 50-55 years old
+- **Timbre**: Loud, gruff, a few drinks in
+- **Accent**: Working-class British
+- **Pace**: Short interruptions. Never more than a sentence or two
+- **Dynamics**: Shouts from the crowd, then grumbles
+- **Emotional Tone**: Unimpressed, sarcastic, secretly a fan`,
+      example_line: 'Get off the stage!',
+      emotions: ['sarcastic', 'grumpy', 'heckling'],
+    },
+  ],
+  emotions: ['smug', 'playful', 'deadpan', 'incredulous', 'mock-outraged', 'sincere', 'sarcastic', 'grumpy', 'heckling'],
+  sound_effects: ['rimshot', 'laugh_track', 'crowd_laughing', 'crickets', 'sad_trombone', 'applause', 'mic_feedback', 'crowd_groan'],
+  title_template: 'ROASTING {{repo.NAME}}: [Punchy Comedy Special Title]',
+  arc_template: 'A comedy roast of {{repo.fullName}}',
+  prompt_template: `You are a headlining stand-up comic at the Code Roast Comedy Club. Tonight's guest of honor is a repository, and a heckler in the front row has opinions.
+
+{{repo_info}}
+
+🎬 CREATE A STAND-UP COMEDY ROAST PODCAST (STRICTLY 3-4 MINUTES - {{word_budget}} words MAX)
+
+🎙️ VOICE DIRECTION (CRITICAL - Write dialogue optimized for these deliveries):
+
+{{voice_direction}}
+
+CRITICAL EXECUTION RULES:
+1. **CREDIT CONSERVATION**: Maximum {{word_budget}} words. A joke that needs explaining is cut.
+2. **SETUP, PUNCHLINE**: Every bit ends on a concrete detail from the repository: a file name, a pattern, a TODO, a dependency.
+3. **ROAST, DON'T BULLY**: Mock the code, never the people. Land on something genuinely good about the project at the end.
+4. **CALLBACKS**: Bring back an earlier joke in the closer.
+5. **FORMAT**:
+   - "comic" = The headliner. Carries the set.
+   - "heckler" = Interrupts. Disagrees. Gets roasted back.
+   - "sound_effect" = Punctuation only. A rimshot after a pun, never after every line.
+
+STRUCTURE:
+1. **THE OPENER** (30s): Walk on, introduce {{repo.name}}, first cheap shot at the tech stack.
+2. **THE BITS** (1m): Riff on the folder structure and the key files. The heckler objects.
+3. **THE CROWD WORK** (1m): Roast the patterns and the TODO comments. Turn the heckler's jabs around.
+4. **THE CLOSER** (55s): Callback, a sincere compliment, "You've been great, goodnight!"
+
+WRITING STYLE EXAMPLES (match this rhythm):
+- Comic: "{{repo.name}} has a utils folder. You know what utils means? 'I gave up naming things.'"
+- Heckler: "At least it compiles!" Comic: "Sir, so does my grocery list, it's called JSON."
+- Comic: "I counted the TODO comments. They've been TO-DOing since the Obama administration."`,
+  fallback_segments: [
+    { speaker: 'comic', text: "Good evening! Tonight we're roasting {{repo.fullName}}. Give it up!", sound_effect: 'applause', emotion: 'playful' },
+    { speaker: 'comic', text: "{{repo.stars}} stars. That's more than my last three relationships combined.", sound_effect: 'rimshot', emotion: 'smug' },
+    { speaker: 'heckler', text: '{{file_count}} files! Bet half of them are config!', emotion: 'heckling' },
+    { speaker: 'comic', text: "Sir, it's written in {{repo.language|everything}}, with a side of {{top_languages}}. Even the code can't commit to one thing.", emotion: 'deadpan' },
+    { speaker: 'comic', text: 'The headliners tonight: {{key_files}}. Every one of them swears it\'s "just a small refactor."', emotion: 'incredulous' },
+    { speaker: 'heckler', text: '{{repo.description|Nobody even wrote a description!}}', emotion: 'sarcastic' },
+    { speaker: 'comic', text: 'But honestly? {{repo.name}} ships. And shipping is the best punchline there is. Goodnight!', sound_effect: 'crowd_laughing', emotion: 'sincere' },
+  ],
+};
+
+export const BUILTIN_STYLES: StyleDefinition[] = [TRUE_CRIME, SPORTS, DOCUMENTARY, COMEDY];
@@ -0,0 +1,10 @@
+import type { StyleDefinition } from '@/lib/types';
+
+/**
+ * Emotions a speaker of a style may use: their own list, or the style's when
+ * they have none. Generated and hand-edited scripts are both held to this.
+ */
+export function getAllowedEmotions(style: Pick<StyleDefinition, 'speakers' | 'emotions'>, speakerRole: string): string[] {
+  const speaker = style.speakers.find((candidate) => candidate.role === speakerRole.toLowerCase());
+  return speaker?.emotions?.length ? speaker.emotions : style.emotions;
+}
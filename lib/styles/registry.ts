@@ -0,0 +1,327 @@
+import 'server-only';
+import { getCollection } from '@/lib/mongodb';
+import { ScriptSegment, StyleDefinition, StyleId } from '@/lib/types';
+import { BUILTIN_STYLES } from './builtin';
+import { getAllowedEmotions } from './emotions';
+
+/**
+ * Template placeholders, written as {{name}} or {{name|default}}:
+ *  - repo.name, repo.NAME (upper case), repo.fullName, repo.description,
+ *    repo.language, repo.stars
+ *  - repo_info: the repository briefing (metadata, languages, key files, patterns, samples)
+ *  - file_count, top_languages, key_files
+ *  - word_budget
+ *  - voice_direction: the direction of every speaker (prompt template only)
+ */
+export type StyleTemplateVars = Record<string, string | undefined>;
+
+/**
+ * Error Types
+ */
+export class StyleNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Unknown narrative style: ${id}`);
+    this.name = 'StyleNotFoundError';
+  }
+}
+
+const STYLE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,47}$/;
+const SPEAKER_ROLE_PATTERN = /^[a-z0-9_]+$/;
+
+const registry = new Map<StyleId, StyleDefinition>();
+
+/**
+ * Register a style that ships with the app
+ */
+export function registerStyle(style: StyleDefinition): void {
+  registry.set(style.id, { ...style, builtin: true });
+}
+
+BUILTIN_STYLES.forEach(registerStyle);
+
+let indexesReady: Promise<void> | null = null;
+
+async function getStylesCollection() {
+  const collection = await getCollection('styles');
+
+  if (!indexesReady) {
+    indexesReady = collection
+      .createIndex({ id: 1 }, { unique: true })
+      .then(() => undefined)
+      .catch((error) => {
+        indexesReady = null;
+        throw error;
+      });
+  }
+  await indexesReady;
+
+  return collection;
+}
+
+/**
+ * Look up a built-in or custom style
+ */
+export async function getStyle(id: StyleId): Promise<StyleDefinition | null> {
+  const builtin = registry.get(id);
+  if (builtin) {
+    return builtin;
+  }
+
+  const collection = await getStylesCollection();
+  return collection.findOne<StyleDefinition>({ id }, { projection: { _id: 0 } });
+}
+
+/**
+ * Look up a style, throwing if it doesn't exist (e.g. a custom style was deleted)
+ */
+export async function requireStyle(id: StyleId): Promise<StyleDefinition> {
+  const style = await getStyle(id);
+  if (!style) {
+    throw new StyleNotFoundError(id);
+  }
+  return style;
+}
+
+/**
+ * All built-in styles followed by the custom ones
+ */
+export async function listStyles(): Promise<StyleDefinition[]> {
+  const collection = await getStylesCollection();
+  const custom = await collection
+    .find<StyleDefinition>({}, { projection: { _id: 0 } })
+    .sort({ created_at: 1 })
+    .toArray();
+
+  return [...registry.values(), ...custom];
+}
+
+/**
+ * Store a custom style for its creator. Returns false if a style with that id already exists.
+ */
+export async function saveCustomStyle(style: StyleDefinition, ownerId: string): Promise<boolean> {
+  if (registry.has(style.id)) {
+    return false;
+  }
+
+  const collection = await getStylesCollection();
+  const now = new Date();
+  const result = await collection.updateOne(
+    { id: style.id },
+    { $setOnInsert: { ...style, builtin: false, owner_id: ownerId, created_at: now, updated_at: now } },
+    { upsert: true }
+  );
+
+  return result.upsertedCount > 0;
+}
+
+/**
+ * Delete a custom style. Built-in styles can't be deleted.
+ */
+export async function deleteCustomStyle(id: StyleId): Promise<boolean> {
+  if (registry.has(id)) {
+    return false;
+  }
+
+  const collection = await getStylesCollection();
+  const result = await collection.deleteOne({ id });
+  return result.deletedCount > 0;
+}
+
+/**
+ * Whether any case was written in the style, so deleting it would break the case
+ */
+export async function isStyleInUse(id: StyleId): Promise<boolean> {
+  const podcasts = await getCollection('podcasts');
+  return (await podcasts.countDocuments({ narrative_style: id }, { limit: 1 })) > 0;
+}
+
+/**
+ * Check a user-supplied style definition. Returns the normalized style or the problems found.
+ */
+export function validateStyleDefinition(
+  input: unknown
+): { style: StyleDefinition; errors?: never } | { style?: never; errors: string[] } {
+  const errors: string[] = [];
+  const body = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+
+  const isString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+  const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+  if (!isString(body.id) || !STYLE_ID_PATTERN.test(body.id)) {
+    errors.push('id must be 2-48 lowercase letters, digits or dashes');
+  } else if (registry.has(body.id)) {
+    errors.push(`id "${body.id}" is reserved for a built-in style`);
+  }
+  if (!isString(body.name)) {
+    errors.push('name is required');
+  }
+  if (!isString(body.prompt_template)) {
+    errors.push('prompt_template is required');
+  } else if (!body.prompt_template.includes('{{repo_info}}')) {
+    errors.push('prompt_template must include {{repo_info}}');
+  }
+
+  const speakers = Array.isArray(body.speakers) ? body.speakers : [];
+  if (speakers.length === 0) {
+    errors.push('speakers must list at least one role');
+  }
+  speakers.forEach((speaker, i) => {
+    if (!speaker || typeof speaker !== 'object') {
+      errors.push(`speakers[${i}] must be an object`);
+      return;
+    }
+    if (!isString(speaker.role) || !SPEAKER_ROLE_PATTERN.test(speaker.role)) {
+      errors.push(`speakers[${i}].role must be lowercase letters, digits or underscores`);
+    }
+    if (!isString(speaker.label)) {
+      errors.push(`speakers[${i}].label is required`);
+    }
+    if (speaker.emotions !== undefined && !isStringArray(speaker.emotions)) {
+      errors.push(`speakers[${i}].emotions must be a list of strings`);
+    }
+  });
+  const roles = speakers.map((speaker) => speaker?.role);
+
+  if (body.emotions !== undefined && !isStringArray(body.emotions)) {
+    errors.push('emotions must be a list of strings');
+  }
+  if (body.sound_effects !== undefined && !isStringArray(body.sound_effects)) {
+    errors.push('sound_effects must be a list of strings');
+  }
+  if (
+    body.word_budget !== undefined &&
+    (!Number.isInteger(body.word_budget) || (body.word_budget as number) < 100 || (body.word_budget as number) > 2000)
+  ) {
+    errors.push('word_budget must be a whole number between 100 and 2000');
+  }
+
+  const fallbackSegments = Array.isArray(body.fallback_segments) ? body.fallback_segments : [];
+  if (fallbackSegments.length === 0) {
+    errors.push('fallback_segments must contain at least one segment');
+  }
+  fallbackSegments.forEach((segment, i) => {
+    if (!segment || !isString(segment.text) || !roles.includes(segment.speaker)) {
+      errors.push(`fallback_segments[${i}] needs text and a speaker from speakers`);
+    }
+  });
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  const id = body.id as string;
+  return {
+    style: {
+      id,
+      name: (body.name as string).trim(),
+      description: typeof body.description === 'string' ? body.description : '',
+      narrator_voice: isString(body.narrator_voice) ? body.narrator_voice : id,
+      prompt_template: body.prompt_template as string,
+      title_template: isString(body.title_template) ? body.title_template : '{{repo.name}}: [Episode Title]',
+      arc_template: isString(body.arc_template) ? body.arc_template : '{{repo.fullName}}',
+      speakers: speakers.map((speaker) => ({
+        role: speaker.role,
+        label: speaker.label,
+        ...(isString(speaker.voice_id) && { voice_id: speaker.voice_id }),
+        ...(isString(speaker.direction) && { direction: speaker.direction }),
+        ...(isString(speaker.example_line) && { example_line: speaker.example_line }),
+        ...(speaker.emotions && { emotions: speaker.emotions }),
+      })),
+      emotions: (body.emotions as string[] | undefined) ?? [],
+      sound_effects: (body.sound_effects as string[] | undefined) ?? [],
+      word_budget: (body.word_budget as number | undefined) ?? 500,
+      fallback_segments: fallbackSegments.map((segment) => ({
+        speaker: segment.speaker,
+        text: segment.text,
+        ...(isString(segment.emotion) && { emotion: segment.emotion }),
+        ...(isString(segment.sound_effect) && { sound_effect: segment.sound_effect }),
+      })),
+    },
+  };
+}
+
+/**
+ * Fill in the {{placeholders}} of a template
+ */
+export function renderTemplate(template: string, vars: StyleTemplateVars): string {
+  return template.replace(/\{\{\s*([\w.]+)\s*(?:\|([^}]*))?\}\}/g, (_, name: string, fallback?: string) => {
+    return vars[name] || fallback || '';
+  });
+}
+
+/**
+ * Full script-writing prompt for a style: the rendered template followed by
+ * the JSON format and the allowed sound effects
+ */
+export function renderStylePrompt(style: StyleDefinition, vars: StyleTemplateVars): string {
+  const allVars: StyleTemplateVars = {
+    word_budget: String(style.word_budget),
+    voice_direction: style.speakers
+      .filter((speaker) => speaker.direction)
+      .map((speaker) =>
+        style.speakers.length > 1 ? `**${speaker.label.toUpperCase()}**:\n${speaker.direction}` : speaker.direction
+      )
+      .join('\n\n'),
+    ...vars,
+  };
+
+  const format = {
+    title: renderTemplate(style.title_template, allVars),
+    narrator_voice: style.narrator_voice,
+    dramatic_arc: renderTemplate(style.arc_template, allVars),
+    segments: style.speakers.map((speaker, i) => {
+      const emotions = getAllowedEmotions(style, speaker.role);
+      return {
+        speaker: speaker.role,
+        text: speaker.example_line || '...',
+        ...(emotions.length > 0 && { emotion: emotions.join('|') }),
+        ...(style.sound_effects.length > 0 && { sound_effect: 'optional' }),
+        ...(i === 0 && { code_reference: { path: 'path/from/EVIDENCE.ts', start_line: 12, end_line: 30 } }),
+      };
+    }),
+  };
+
+  return `${renderTemplate(style.prompt_template, allVars)}
+
+📋 REQUIRED JSON FORMAT:
+${JSON.stringify(format, null, 2)}
+
+SPEAKERS: ${style.speakers.map((speaker) => `"${speaker.role}"`).join(', ')} only.
+
+CODE REFERENCES: When a segment talks about specific code, add "code_reference" with the path and line range of the EVIDENCE excerpt it is about. Only cite code shown in EVIDENCE; leave it out otherwise.${
+    style.sound_effects.length > 0 ? `\n\nAVAILABLE SOUND EFFECTS: ${style.sound_effects.join(', ')}` : ''
+  }`;
+}
+
+/**
+ * The style's canned script, used when the model's output is unusable
+ */
+export function renderFallbackSegments(style: StyleDefinition, vars: StyleTemplateVars): ScriptSegment[] {
+  return style.fallback_segments.map((segment) => ({
+    ...segment,
+    text: renderTemplate(segment.text, vars),
+  }));
+}
+
+/**
+ * Drop emotions and sound effects a style doesn't allow, so they can't
+ * reach the voice settings or the transcript
+ */
+export function sanitizeSegmentForStyle(style: StyleDefinition, segment: ScriptSegment): ScriptSegment {
+  return {
+    ...segment,
+    emotion:
+      segment.emotion && getAllowedEmotions(style, segment.speaker).includes(segment.emotion) ? segment.emotion : undefined,
+    sound_effect:
+      segment.sound_effect && style.sound_effects.includes(segment.sound_effect) ? segment.sound_effect : undefined,
+  };
+}
+
+/**
+ * ElevenLabs voice cast for a speaker role, if the style defines one
+ */
+export function getStyleVoiceId(style: StyleDefinition, speaker: string): string | undefined {
+  const lowerSpeaker = speaker.toLowerCase();
+  return style.speakers.find((candidate) => candidate.role === lowerSpeaker)?.voice_id;
+}
@@ -1,3 +1,4 @@
+// Built-in narrative styles. Custom styles from the `styles` collection use their own ids.
 export enum NarrativeStyle {
   TRUE_CRIME = 'true-crime',
   SPORTS = 'sports',
@@ -5,6 +6,8 @@ export enum NarrativeStyle {
   COMEDY = 'comedy',
 }
 
+export type StyleId = NarrativeStyle | string;
+
 export enum AnalysisStatus {
   PENDING = 'pending',
   ANALYZING = 'analyzing',
@@ -12,8 +15,23 @@ export enum AnalysisStatus {
   GENERATING_AUDIO = 'generating_audio',
   COMPLETED = 'completed',
   FAILED = 'failed',
+  CANCELLED = 'cancelled',
+  RETRYING = 'retrying',
+}
+
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
 }
 
+// Checkpointed steps of the analysis pipeline, in execution order
+export const ANALYSIS_STEPS = ['metadata', 'tree', 'content', 'patterns', 'autopsy', 'script', 'factcheck'] as const;
+
+export type AnalysisStep = (typeof ANALYSIS_STEPS)[number];
+
 export interface ScriptSegment {
   speaker: string;
   text: string;
@@ -22,7 +40,55 @@ export interface ScriptSegment {
   endTime?: number;
   sound_effect?: string;
   emotion?: string;
-  code_reference?: Record<string, any>;
+  code_reference?: CodeReference;
+}
+
+// File and line range a segment talks about, checked against the fetched files
+export interface CodeReference {
+  path: string;
+  start_line: number;
+  end_line: number;
+  // false when the file exists but the lines don't
+  verified?: boolean;
+}
+
+export interface StyleSpeaker {
+  // Value of `speaker` in the script, e.g. 'narrator' or 'commentator_1'
+  role: string;
+  // Name shown in transcripts
+  label: string;
+  // ElevenLabs voice; speakers without one use the default voice
+  voice_id?: string;
+  // Voice direction for the model (age, timbre, accent, pace...)
+  direction?: string;
+  // Sample line used in the JSON format section of the prompt
+  example_line?: string;
+  // Emotions this speaker uses, a subset of the style's emotions
+  emotions?: string[];
+}
+
+/**
+ * Everything needed to write and record an episode in one style. Templates
+ * use {{placeholders}}, see lib/styles/registry.ts for the available ones.
+ */
+export interface StyleDefinition {
+  id: StyleId;
+  name: string;
+  description: string;
+  narrator_voice: string;
+  prompt_template: string;
+  title_template: string;
+  arc_template: string;
+  speakers: StyleSpeaker[];
+  emotions: string[];
+  sound_effects: string[];
+  word_budget: number;
+  fallback_segments: Pick<ScriptSegment, 'speaker' | 'text' | 'emotion' | 'sound_effect'>[];
+  builtin?: boolean;
+  // Who created a custom style; only they can delete it
+  owner_id?: string;
+  created_at?: Date;
+  updated_at?: Date;
 }
 
 export interface PodcastScript {
@@ -33,16 +99,158 @@ export interface PodcastScript {
   dramatic_arc?: string;
 }
 
+// How the current script came to be: straight from the model, fixed by a
+// repair pass, or the style's canned fallback because both attempts failed
+export type ScriptGenerationStatus = 'generated' | 'repaired' | 'fallback';
+
+export interface ScriptGeneration {
+  status: ScriptGenerationStatus;
+  // Schema validation errors of the rejected model output
+  errors: string[];
+}
+
+// What produced a script revision
+export type ScriptVersionCause = 'generated' | 'edited' | 'regenerated' | 'restored';
+
+// One revision of a podcast's script, kept in the script_versions collection
+export interface ScriptVersion {
+  podcast_id: string;
+  // 1 for the first script, counting up per podcast
+  version: number;
+  script: PodcastScript;
+  cause: ScriptVersionCause;
+  author: string;
+  // Version a restore brought back
+  restored_from?: number;
+  created_at: Date;
+}
+
+// A factual claim found in a segment and how it held up against the repository data
+export interface FactClaim {
+  kind: 'count' | 'file' | 'language' | 'stars' | 'dependency' | 'pattern';
+  text: string;
+  status: 'supported' | 'contradicted' | 'unverifiable';
+  // What the repository data says instead, when a claim is contradicted and we know
+  expected?: string;
+}
+
+export interface SegmentFactCheck {
+  index: number;
+  // 0-1: supported claims count fully, unverifiable ones partly, contradicted ones not at all
+  confidence: number;
+  claims: FactClaim[];
+  // Text before contradicted figures were corrected
+  original_text?: string;
+  // Still low confidence after corrections; needs a human look
+  flagged: boolean;
+}
+
+export interface FactCheckReport {
+  // Only segments that make claims
+  segments: SegmentFactCheck[];
+  confidence: number;
+  rewritten: number;
+  flagged: number;
+}
+
+// Paid API usage: Gemini tokens and ElevenLabs characters
+export interface UsageTotals {
+  llm_input_tokens: number;
+  llm_output_tokens: number;
+  llm_calls: number;
+  tts_characters: number;
+  tts_calls: number;
+}
+
+// One user's usage on one UTC day, kept in the usage collection
+export interface UsageRecord extends UsageTotals {
+  user_id: string;
+  // YYYY-MM-DD and YYYY-MM
+  day: string;
+  month: string;
+  // Units set aside by reserveQuota for work still running
+  reserved_llm_tokens?: number;
+  reserved_tts_characters?: number;
+  updated_at: Date;
+}
+
+// Who can see a case: anyone and listed, anyone holding a share link, or the owner alone
+export type PodcastVisibility = 'public' | 'unlisted' | 'private';
+
+// Which LLM wrote the episode; 'offline' needs no API key and is deterministic
+export type LlmProviderId = 'gemini' | 'offline';
+
+// A code chunk that was put in front of the model when writing the script
+export interface PromptChunk {
+  id: string;
+  path: string;
+  type: string;
+  name?: string;
+  start_line: number;
+  end_line: number;
+  tokens: number;
+}
+
+// Exactly what the script prompt was built from
+export interface PromptProvenance {
+  provider: LlmProviderId;
+  model: string;
+  token_budget: number;
+  prompt_tokens: number;
+  summary_included: boolean;
+  chunks: PromptChunk[];
+  // Chunks extracted but left out for lack of budget
+  dropped_chunks: number;
+}
+
+// Where a case's code is read from
+export type RepositorySourceKind = 'github' | 'gitlab' | 'bitbucket' | 'local' | 'upload';
+
+export type PodcastSource =
+  | { kind: 'github' }
+  // A project on gitlab.com, bitbucket.org or the self-hosted instance at base_url
+  | { kind: 'gitlab' | 'bitbucket'; base_url: string }
+  // A directory on the server, under one of LOCAL_SOURCE_ROOTS
+  | { kind: 'local'; local_path: string }
+  // An archive posted to /api/analyze/upload, kept in source_archives
+  | { kind: 'upload'; archive_id: string; file_name: string };
+
 export interface Podcast {
   id: string;
   repo_url: string;
   repo_name: string;
+  // Unset on cases of GitHub repositories
+  source?: PodcastSource;
+  // Branch, tag or SHA the investigation was requested for
+  ref?: string;
+  // Commit every file was read at
+  commit_sha?: string;
+  // Directory the investigation is scoped to, e.g. one package of a monorepo
+  path?: string;
   title: string;
-  narrative_style: NarrativeStyle;
+  narrative_style: StyleId;
+  llm_provider?: LlmProviderId;
+  // User who opened the case; cases from before accounts have none
+  owner_id?: string;
+  // Investigated a private repository: the case can never be public
+  is_private?: boolean;
+  // Unset on cases from before visibility settings, which count as public
+  visibility?: PodcastVisibility;
+  // Share links issued before this stop working
+  shares_revoked_at?: Date;
+  // Everything spent on the case, by whoever spent it
+  usage?: Partial<UsageTotals>;
   status: AnalysisStatus;
   progress: number;
   progress_message: string;
   script?: PodcastScript;
+  // Revision in script_versions that `script` matches
+  script_version?: number;
+  // Script revision the current audio was rendered from
+  audio_script_version?: number;
+  script_generation?: ScriptGeneration;
+  prompt_provenance?: PromptProvenance;
+  fact_check?: FactCheckReport;
   audio_url?: string;
   audio_filename?: string;
   duration: number;
@@ -60,11 +268,131 @@ export interface Podcast {
   contributors?: string[];
   patterns_found: string[];
   error_message?: string;
+  // Skip the analysis cache and redo every step
+  force_refresh?: boolean;
+  // 'full' when the whole case was reused, 'evidence' when only the script was regenerated
+  cache_hit?: 'full' | 'evidence';
+}
+
+// Account that owns investigations. Signs in with a password, GitHub, or both.
+export interface User {
+  id: string;
+  name: string;
+  // Set for email/password accounts
+  email?: string;
+  password_hash?: string;
+  github_id?: number;
+  github_login?: string;
+  avatar_url?: string;
+  // Encrypted OAuth token from connecting GitHub, used to read private repositories
+  github_token?: string;
+  github_scopes?: string[];
+  created_at: Date;
+  last_login_at?: Date;
+}
+
+// What the client gets to see of a user
+export type PublicUser = Pick<User, 'id' | 'name' | 'email' | 'github_login' | 'avatar_url'> & {
+  // GitHub is connected with access to private repositories
+  private_repo_access: boolean;
+};
+
+// Signed-in browser. Only a hash of the cookie token is stored.
+export interface Session {
+  token_hash: string;
+  user_id: string;
+  created_at: Date;
+  expires_at: Date;
+}
+
+// What an API key may do: read cases, open them, record their audio
+export type ApiKeyScope = 'read' | 'analyze' | 'audio';
+
+// Bearer token for scripts and CI. Only a hash of the key is stored.
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  // First characters of the key, to tell keys apart
+  prefix: string;
+  key_hash: string;
+  scopes: ApiKeyScope[];
+  created_at: Date;
+  last_used_at?: Date;
+}
+
+export interface AnalysisJob {
+  id: string;
+  podcast_id: string;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  completed_steps: AnalysisStep[];
+  run_after: Date;
+  lease_owner?: string;
+  lease_expires_at?: Date;
+  heartbeat_at?: Date;
+  last_error?: string;
+  created_at: Date;
+  updated_at: Date;
+  completed_at?: Date;
+}
+
+// Completed analysis of one repository snapshot in one narrative style
+export interface AnalysisCacheEntry {
+  // owner/repo@sha, plus :path for scoped investigations, prefixed with the host outside GitHub
+  key: string;
+  narrative_style: StyleId;
+  // Digest of the style's content when the script was written
+  style_digest: string;
+  files: { path: string; digest: string }[];
+  // Digest over every file digest, compared before reusing patterns and the autopsy
+  content_digest: string;
+  patterns_found: string[];
+  analysis_summary: NonNullable<Podcast['analysis_summary']>;
+  script: PodcastScript;
+  script_generation: ScriptGeneration;
+  prompt_provenance?: PromptProvenance;
+  fact_check?: FactCheckReport;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// Payloads of the /api/podcasts/[id]/events stream (and the polling fallbacks)
+export interface AnalysisProgressEvent {
+  id: string;
+  status: AnalysisStatus;
+  progress: number;
+  message: string;
+}
+
+export interface AudioProgressEvent {
+  status: 'pending' | 'recording' | 'processing' | 'completed' | 'error';
+  progress: number;
+  message: string;
+  currentSegment?: number;
+  totalSegments?: number;
+  audioUrl?: string;
+}
+
+export interface AudioSegmentEvent {
+  index: number;
+  total: number;
+  message: string;
 }
 
 export interface RepoAnalyzeRequest {
-  repo_url: string;
-  narrative_style?: NarrativeStyle;
+  // GitHub, GitLab or Bitbucket URL; not needed with local_path
+  repo_url?: string;
+  // Directory on the server to investigate instead, under LOCAL_SOURCE_ROOTS
+  local_path?: string;
+  narrative_style?: StyleId;
+  ref?: string;
+  path?: string;
+  // Skip deduplication and the analysis cache
+  force?: boolean;
+  llm_provider?: LlmProviderId;
+  visibility?: PodcastVisibility;
 }
 
 export interface CodePattern {
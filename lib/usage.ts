@@ -0,0 +1,332 @@
+import 'server-only';
+import { getCollection } from '@/lib/mongodb';
+import type { LlmCallOptions, LlmProvider, LlmUsage } from '@/lib/llm';
+import type { UsageRecord, UsageTotals } from '@/lib/types';
+
+// What quotas are counted in
+export type UsageResource = 'llm_tokens' | 'tts_characters';
+
+// Who a call is billed to. Usage is recorded on the podcast and on the user's daily totals.
+export interface UsageContext {
+  podcastId?: string;
+  userId?: string;
+}
+
+export interface UsageLimits {
+  daily: number | null;
+  monthly: number | null;
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  // Units left today and this month, whichever is lower; null when unlimited
+  remaining: number | null;
+  message?: string;
+}
+
+// Units set aside on one day's record, given back with releaseQuota
+export interface QuotaReservation {
+  userId: string;
+  resource: UsageResource;
+  day: string;
+  amount: number;
+}
+
+const EMPTY_TOTALS: UsageTotals = {
+  llm_input_tokens: 0,
+  llm_output_tokens: 0,
+  llm_calls: 0,
+  tts_characters: 0,
+  tts_calls: 0,
+};
+
+// Quotas per user, unset means unlimited
+const LIMIT_ENV: Record<UsageResource, { daily: string; monthly: string }> = {
+  llm_tokens: { daily: 'LLM_DAILY_TOKEN_QUOTA', monthly: 'LLM_MONTHLY_TOKEN_QUOTA' },
+  tts_characters: { daily: 'TTS_DAILY_CHARACTER_QUOTA', monthly: 'TTS_MONTHLY_CHARACTER_QUOTA' },
+};
+
+const RESOURCE_LABELS: Record<UsageResource, string> = {
+  llm_tokens: 'Gemini tokens',
+  tts_characters: 'ElevenLabs characters',
+};
+
+// Fields of a usage record each resource is counted from, reservations included
+const RESOURCE_FIELDS: Record<UsageResource, (keyof UsageRecord)[]> = {
+  llm_tokens: ['llm_input_tokens', 'llm_output_tokens', 'reserved_llm_tokens'],
+  tts_characters: ['tts_characters', 'reserved_tts_characters'],
+};
+
+const RESERVED_FIELDS: Record<UsageResource, keyof UsageRecord> = {
+  llm_tokens: 'reserved_llm_tokens',
+  tts_characters: 'reserved_tts_characters',
+};
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+let indexesReady: Promise<void> | null = null;
+
+async function getUsageCollection() {
+  const collection = await getCollection('usage');
+
+  if (!indexesReady) {
+    indexesReady = (async () => {
+      await collection.createIndex({ user_id: 1, day: 1 }, { unique: true });
+      await collection.createIndex({ user_id: 1, month: 1 });
+    })().catch((error) => {
+      indexesReady = null;
+      throw error;
+    });
+  }
+  await indexesReady;
+
+  return collection;
+}
+
+function readLimit(name: string): number | null {
+  const value = process.env[name];
+  if (!value) {
+    return null;
+  }
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 0) {
+    console.warn(`[Usage] Ignoring ${name}="${value}": not a whole number`);
+    return null;
+  }
+  return limit;
+}
+
+export function getUsageLimits(resource: UsageResource): UsageLimits {
+  const env = LIMIT_ENV[resource];
+  return { daily: readLimit(env.daily), monthly: readLimit(env.monthly) };
+}
+
+function countResource(totals: UsageTotals, resource: UsageResource): number {
+  return resource === 'llm_tokens' ? totals.llm_input_tokens + totals.llm_output_tokens : totals.tts_characters;
+}
+
+/**
+ * Add to the usage of a podcast and of the user's current day
+ */
+export async function recordUsage(context: UsageContext, delta: Partial<UsageTotals>): Promise<void> {
+  const now = new Date();
+
+  if (context.podcastId) {
+    const podcasts = await getCollection('podcasts');
+    const inc = Object.fromEntries(Object.entries(delta).map(([key, value]) => [`usage.${key}`, value]));
+    await podcasts.updateOne({ id: context.podcastId }, { $inc: inc });
+  }
+
+  if (context.userId) {
+    const usage = await getUsageCollection();
+    const day = now.toISOString().slice(0, 10);
+    await usage.updateOne(
+      { user_id: context.userId, day },
+      { $inc: delta, $set: { month: day.slice(0, 7), updated_at: now } },
+      { upsert: true }
+    );
+  }
+}
+
+/**
+ * A user's usage today and this month (UTC)
+ */
+export async function getUserUsage(userId: string): Promise<{ day: UsageTotals; month: UsageTotals }> {
+  const usage = await getUsageCollection();
+  const today = new Date().toISOString().slice(0, 10);
+  const records = await usage.find<UsageRecord>({ user_id: userId, month: today.slice(0, 7) }).toArray();
+
+  const sum = (list: UsageRecord[]): UsageTotals =>
+    list.reduce<UsageTotals>(
+      (totals, record) => ({
+        llm_input_tokens: totals.llm_input_tokens + (record.llm_input_tokens ?? 0),
+        llm_output_tokens: totals.llm_output_tokens + (record.llm_output_tokens ?? 0),
+        llm_calls: totals.llm_calls + (record.llm_calls ?? 0),
+        tts_characters: totals.tts_characters + (record.tts_characters ?? 0),
+        tts_calls: totals.tts_calls + (record.tts_calls ?? 0),
+      }),
+      { ...EMPTY_TOTALS }
+    );
+
+  return {
+    day: sum(records.filter((record) => record.day === today)),
+    month: sum(records),
+  };
+}
+
+/**
+ * Whether the user may spend `needed` more units (0: has any left) without
+ * going over their daily or monthly quota
+ */
+export async function checkQuota(userId: string, resource: UsageResource, needed = 0): Promise<QuotaCheck> {
+  const limits = getUsageLimits(resource);
+  if (limits.daily === null && limits.monthly === null) {
+    return { allowed: true, remaining: null };
+  }
+
+  const usage = await getUserUsage(userId);
+  const remainingDay = limits.daily === null ? Infinity : limits.daily - countResource(usage.day, resource);
+  const remainingMonth = limits.monthly === null ? Infinity : limits.monthly - countResource(usage.month, resource);
+  const remaining = Math.max(0, Math.min(remainingDay, remainingMonth));
+  const period = remainingDay <= remainingMonth ? 'daily' : 'monthly';
+
+  if (remaining <= 0 || needed > remaining) {
+    return quotaExceeded(resource, needed, remaining, period);
+  }
+  return { allowed: true, remaining };
+}
+
+function quotaExceeded(resource: UsageResource, needed: number, remaining: number, period: 'daily' | 'monthly'): QuotaCheck {
+  const label = RESOURCE_LABELS[resource];
+  return {
+    allowed: false,
+    remaining,
+    message:
+      needed > 0
+        ? `This needs ${needed} ${label}, but only ${remaining} are left in your ${period} quota`
+        : `Your ${period} quota of ${label} is used up`,
+  };
+}
+
+/**
+ * Set `amount` units of the user's quota aside for work about to start, or
+ * refuse if that would go over the daily or monthly quota. Unlike
+ * checkQuota, concurrent requests can't both be granted the same units: the
+ * check and the reservation are one conditional update of today's record.
+ */
+export async function reserveQuota(
+  userId: string,
+  resource: UsageResource,
+  amount: number
+): Promise<QuotaCheck & { reservation?: QuotaReservation }> {
+  const limits = getUsageLimits(resource);
+  if (limits.daily === null && limits.monthly === null) {
+    return { allowed: true, remaining: null };
+  }
+
+  const usage = await getUsageCollection();
+  const now = new Date();
+  const day = now.toISOString().slice(0, 10);
+  const month = day.slice(0, 7);
+
+  // Earlier days of the month are settled; only today's record is raced on
+  const earlier = await usage.find<UsageRecord>({ user_id: userId, month, day: { $ne: day } }).toArray();
+  const countRecord = (record: Partial<UsageRecord>) =>
+    RESOURCE_FIELDS[resource].reduce((sum, field) => sum + (Number(record[field]) || 0), 0);
+  const usedEarlier = earlier.reduce((sum, record) => sum + countRecord(record), 0);
+  const remainingMonth = limits.monthly === null ? Infinity : limits.monthly - usedEarlier;
+  const cap = Math.min(limits.daily ?? Infinity, remainingMonth);
+  const period = limits.daily !== null && limits.daily <= remainingMonth ? 'daily' : 'monthly';
+
+  const usedToday = { $add: RESOURCE_FIELDS[resource].map((field) => ({ $ifNull: [`$${field}`, 0] })) };
+  for (let attempt = 1; cap >= amount && attempt <= 2; attempt++) {
+    try {
+      const record = await usage.findOneAndUpdate(
+        { user_id: userId, day, $expr: { $lte: [usedToday, cap - amount] } },
+        { $inc: { [RESERVED_FIELDS[resource]]: amount }, $set: { month, updated_at: now } },
+        { upsert: true, returnDocument: 'after' }
+      );
+      return {
+        allowed: true,
+        remaining: Math.max(0, cap - countRecord((record ?? {}) as Partial<UsageRecord>)),
+        reservation: { userId, resource, day, amount },
+      };
+    } catch (error) {
+      // No room left in today's record, or a concurrent request created it first: look once more
+      if ((error as { code?: number }).code !== DUPLICATE_KEY_ERROR) {
+        throw error;
+      }
+    }
+  }
+
+  const today = await usage.findOne<UsageRecord>({ user_id: userId, day });
+  return quotaExceeded(resource, amount, Math.max(0, cap - countRecord(today ?? {})), period);
+}
+
+/**
+ * Give back units set aside by reserveQuota, once what was spent is recorded
+ */
+export async function releaseQuota(reservation: QuotaReservation): Promise<void> {
+  try {
+    const usage = await getUsageCollection();
+    await usage.updateOne(
+      { user_id: reservation.userId, day: reservation.day },
+      { $inc: { [RESERVED_FIELDS[reservation.resource]]: -reservation.amount } }
+    );
+  } catch (error) {
+    // Held units only count against the day they were reserved on
+    console.error('[Usage] ❌ Failed to release a quota reservation:', error);
+  }
+}
+
+/**
+ * Provider that records the tokens of every call it makes, including calls
+ * whose response turned out to be unusable
+ */
+export function meterLlmProvider(provider: LlmProvider, context: UsageContext): LlmProvider {
+  const metered = async <T>(options: LlmCallOptions | undefined, call: (options: LlmCallOptions) => Promise<T>) => {
+    let usage: LlmUsage | undefined;
+    try {
+      return await call({
+        ...options,
+        onUsage: (reported) => {
+          usage = reported;
+          options?.onUsage?.(reported);
+        },
+      });
+    } finally {
+      if (usage) {
+        await recordLlmUsage(context, usage);
+      }
+    }
+  };
+
+  return {
+    id: provider.id,
+    model: provider.model,
+    promptTokenBudget: provider.promptTokenBudget,
+    generateText: (prompt, options) => metered(options, (metering) => provider.generateText(prompt, metering)),
+    generateJson: (prompt, options) => metered(options, (metering) => provider.generateJson(prompt, metering)),
+    async *stream(prompt, options) {
+      let usage: LlmUsage | undefined;
+      try {
+        yield* provider.stream(prompt, {
+          ...options,
+          onUsage: (reported) => {
+            usage = reported;
+            options?.onUsage?.(reported);
+          },
+        });
+      } finally {
+        if (usage) {
+          await recordLlmUsage(context, usage);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Record the characters of one text-to-speech call
+ */
+export async function recordTtsUsage(context: UsageContext, characters: number): Promise<void> {
+  try {
+    await recordUsage(context, { tts_characters: characters, tts_calls: 1 });
+  } catch (error) {
+    console.error('[Usage] ❌ Failed to record TTS usage:', error);
+  }
+}
+
+async function recordLlmUsage(context: UsageContext, usage: LlmUsage): Promise<void> {
+  try {
+    await recordUsage(context, {
+      llm_input_tokens: usage.input_tokens,
+      llm_output_tokens: usage.output_tokens,
+      llm_calls: 1,
+    });
+  } catch (error) {
+    // Losing a record is better than failing the call that was already paid for
+    console.error('[Usage] ❌ Failed to record LLM usage:', error);
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/auth/cookie';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Turn away writes from browsers without a session before they reach a route.
+ * The routes still check the session itself and who owns the case.
+ */
+export function proxy(request: NextRequest) {
+  if (SAFE_METHODS.includes(request.method) || request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+  return NextResponse.json({ error: 'Sign in required' }, { status: 401 });
+}
+
+export const config = {
+  matcher: ['/api/analyze/:path*', '/api/podcasts/:path*', '/api/chat/:path*', '/api/styles/:path*'],
+};